@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+/**
+ * Contrast throughput benchmark.
+ *
+ * Audits of a whole site check hundreds of thousands of element pairs, so the
+ * cost per pair matters there in a way it does not for a single check. This
+ * times one such audit — 200,000 pairs drawn from a 2,000-color palette, as a
+ * page repeats its colors — checked pair by pair with `isContrasting` and in
+ * one call with `checkPairs`, with colors given as strings, as `RGB` channels
+ * and as precomputed luminances.
+ *
+ * Run `npm run build` first; this measures `dist/`, as a consumer would see it.
+ * Deliberately dependency-free, matching the package itself.
+ */
+const { performance } = require('node:perf_hooks');
+const { join } = require('node:path');
+
+const api = require(join(__dirname, '../dist/index.js'));
+
+const PAIRS = 200_000;
+const PALETTE = 2_000;
+const RUNS = 5;
+
+// A fixed-seed generator, so that every run times the same pairs.
+let seed = 1;
+const random = () => (seed = (seed * 48271) % 2147483647) / 2147483647;
+
+const hexes = Array.from({ length: PALETTE }, () =>
+  api.rgbToHex({
+    r: Math.floor(random() * 256),
+    g: Math.floor(random() * 256),
+    b: Math.floor(random() * 256),
+  })
+);
+const indices = Array.from({ length: PAIRS }, () => [
+  Math.floor(random() * PALETTE),
+  Math.floor(random() * PALETTE),
+]);
+const inputs = {
+  strings: hexes,
+  'RGB channels': hexes.map((hex) => api.hexToRgb(hex)),
+  luminances: hexes.map((hex) => ({ luminance: api.getLuminance(hex) })),
+};
+
+/** The fastest of several runs, in ms, so that warm-up and GC do not count. */
+const time = (run) => {
+  let best = Infinity;
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    run();
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+};
+
+const results = [];
+for (const [name, colors] of Object.entries(inputs)) {
+  const pairs = indices.map(([i, j]) => [colors[i], colors[j]]);
+  results.push({
+    case: `isContrasting, ${name}`,
+    ms: time(() => {
+      for (const [color1, color2] of pairs) {
+        api.isContrasting(color1, color2, 4.5);
+      }
+    }),
+  });
+  results.push({
+    case: `checkPairs, ${name}`,
+    ms: time(() => api.checkPairs(pairs)),
+  });
+}
+
+const baseline = results[0].ms;
+for (const { case: name, ms } of results) {
+  const perPair = (ms * 1e6) / PAIRS;
+  console.log(
+    `${name.padEnd(32)} ${ms.toFixed(1).padStart(7)} ms  ` +
+      `${perPair.toFixed(0).padStart(5)} ns/pair  ` +
+      `${(baseline / ms).toFixed(1).padStart(5)}x`
+  );
+}
@@ -17,6 +17,7 @@ const { join } = require('node:path');
 const EXPECTED = [
   'LICENSE',
   'README.md',
+  'dist/cli.js',
   'dist/index.d.mts',
   'dist/index.d.ts',
   'dist/index.js',
@@ -30,20 +30,22 @@ const { join } = require('node:path');
 // algorithm choosing the strictly closer-looking candidate 68% of the time
 // they disagree. A trim pass was attempted first — the matrix constants and
 // gamut-search loop are already near-minimal after minification.
-const BUDGETS = [{ file: 'dist/index.mjs', limit: 3200 }];
+//
+// Raised after 1.3.0 to 16500 B, measured at 16300 B, for everything the release
+// adds: APCA, alpha compositing, the named colors and wide-gamut color input,
+// color vision simulation, the scale, theme, token, stylesheet, gradient and
+// image checks, and the suggestion and formatting helpers. That number is now
+// the price of importing all of it, not of checking contrast, so a bundle that
+// imports only getContrast gets its own budget: 4400 B, measured at 4270 B.
+// Most of that is parsing every CSS color format, wide-gamut spaces included;
+// the named-color table is opt-in and stays out of it.
+const BUDGETS = [{ file: 'dist/index.mjs', limit: 16500 }];
+const CORE_LIMIT = 4400;
 
 const root = join(__dirname, '..');
 let failed = false;
 
-for (const { file, limit } of BUDGETS) {
-  const path = join(root, file);
-  if (!existsSync(path)) {
-    console.error(`✗ ${file} — not built. Run \`npm run build-production\` first.`);
-    failed = true;
-    continue;
-  }
-
-  const source = readFileSync(path);
+const checkBudget = (label, source, limit) => {
   const gzip = gzipSync(source, { level: 9 }).length;
   const brotli = brotliCompressSync(source).length;
   const pct = Math.round((gzip / limit) * 100);
@@ -51,50 +53,90 @@ for (const { file, limit } of BUDGETS) {
   if (!ok) failed = true;
 
   console.log(
-    `${ok ? '✓' : '✗'} ${file}  ${gzip} B gzip / ${limit} B budget (${pct}%)` +
+    `${ok ? '✓' : '✗'} ${label}  ${gzip} B gzip / ${limit} B budget (${pct}%)` +
       `  ·  ${source.length} B raw, ${brotli} B brotli`
   );
 
   if (!ok) {
     console.error(
-      `\n  ${file} is ${gzip - limit} B over budget.\n` +
+      `\n  ${label} is ${gzip - limit} B over budget.\n` +
         `  Either reduce the size, or raise the budget deliberately with a note\n` +
         `  in the PR explaining what the extra bytes buy.\n`
     );
   }
+};
+
+for (const { file, limit } of BUDGETS) {
+  const path = join(root, file);
+  if (!existsSync(path)) {
+    console.error(`✗ ${file} — not built. Run \`npm run build-production\` first.`);
+    failed = true;
+    continue;
+  }
+  checkBudget(file, readFileSync(path), limit);
 }
 
 /**
  * `sideEffects: false` is a claim to bundlers, not a guarantee. Verify it by
  * bundling a single named import and asserting the rest is dropped.
+ *
+ * The named-color table is opt-in, so even getContrast must not pay for it
+ * until `registerColorParsers` is called. Color names survive minification,
+ * which makes them a reliable probe. The getContrast bundle is the core entry,
+ * and is held to CORE_LIMIT.
  */
+const SHAKE_CASES = [
+  {
+    name: 'getContrast',
+    call: `getContrast('#fff', '#000')`,
+    shaken: [
+      'suggestColorVariant',
+      'binarySearchContrast',
+      'hslToRgb',
+      'rebeccapurple',
+    ],
+    limit: CORE_LIMIT,
+  },
+  {
+    name: 'hexToRgb',
+    call: `hexToRgb('#fff')`,
+    shaken: ['rebeccapurple', 'lightgoldenrodyellow'],
+  },
+];
+
 try {
   const { buildSync } = require('esbuild');
-  const result = buildSync({
-    stdin: {
-      contents: `import { getContrast } from '${join(root, 'dist/index.mjs')}';
-                 console.log(getContrast('#fff', '#000'));`,
-      resolveDir: root,
-      loader: 'js',
-    },
-    bundle: true,
-    minify: true,
-    format: 'esm',
-    write: false,
-  });
-  const out = result.outputFiles[0].text;
-  const shaken = ['suggestColorVariant', 'binarySearchContrast', 'hslToRgb'];
-  const leaked = shaken.filter((name) => out.includes(name));
-  const bytes = Buffer.byteLength(out);
+  for (const { name, call, shaken, limit } of SHAKE_CASES) {
+    const result = buildSync({
+      stdin: {
+        contents: `import { ${name} } from '${join(root, 'dist/index.mjs')}';
+                   console.log(${call});`,
+        resolveDir: root,
+        loader: 'js',
+      },
+      bundle: true,
+      minify: true,
+      format: 'esm',
+      write: false,
+    });
+    const out = result.outputFiles[0].text;
+    const leaked = shaken.filter((probe) => out.includes(probe));
+    const bytes = Buffer.byteLength(out);
 
-  if (leaked.length) {
-    console.log(`✗ tree-shaking  unused code retained: ${leaked.join(', ')}`);
-    failed = true;
-  } else {
-    console.log(
-      `✓ tree-shaking  single-import bundle is ${bytes} B ` +
-        `(${Math.round((bytes / readFileSync(join(root, 'dist/index.mjs')).length) * 100)}% of full build)`
-    );
+    if (leaked.length) {
+      console.log(
+        `✗ tree-shaking  ${name} alone retains unused code: ${leaked.join(', ')}`
+      );
+      failed = true;
+    } else {
+      console.log(
+        `✓ tree-shaking  ${name} alone bundles to ${bytes} B ` +
+          `(${Math.round((bytes / readFileSync(join(root, 'dist/index.mjs')).length) * 100)}% of full build)`
+      );
+    }
+    if (limit !== undefined) {
+      checkBudget(`${name} alone`, out, limit);
+    }
   }
 } catch (error) {
   console.log(`· tree-shaking  skipped (${error.message.split('\n')[0]})`);
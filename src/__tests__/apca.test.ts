@@ -0,0 +1,140 @@
+import {
+  getApcaContrast,
+  getApcaMinimumLc,
+  getApcaReport,
+  isApcaContrast,
+  getContrast,
+} from '..';
+
+describe('apca', () => {
+  describe('getApcaContrast', () => {
+    it('should match the APCA-W3 reference values', () => {
+      // Published alongside apca-w3 0.0.98G-4g.
+      expect(getApcaContrast('#888', '#fff', 10)).toBeCloseTo(63.0564699302, 8);
+      expect(getApcaContrast('#fff', '#888', 10)).toBeCloseTo(
+        -68.5414643664,
+        8
+      );
+      expect(getApcaContrast('#000', '#aaa', 10)).toBeCloseTo(58.1462625786, 8);
+      expect(getApcaContrast('#aaa', '#000', 10)).toBeCloseTo(
+        -56.2411333684,
+        8
+      );
+      expect(getApcaContrast('#000', '#fff')).toBe(106);
+      expect(getApcaContrast('#fff', '#000')).toBe(-107.9);
+    });
+
+    it('should depend on which color is the text', () => {
+      // WCAG 2 is symmetric; APCA is not.
+      expect(getContrast('#888', '#fff')).toBe(getContrast('#fff', '#888'));
+      expect(Math.abs(getApcaContrast('#888', '#fff')!)).not.toBe(
+        Math.abs(getApcaContrast('#fff', '#888')!)
+      );
+    });
+
+    it('should clip low contrast to zero', () => {
+      expect(getApcaContrast('#777', '#777')).toBe(0);
+      expect(getApcaContrast('#777', '#787878')).toBe(0);
+      expect(getApcaContrast('#787878', '#777')).toBe(0);
+    });
+
+    it('should score dark-on-dark lower than WCAG 2 suggests', () => {
+      // #5a5a5a on black passes WCAG 2 AA for large text at 3.045:1, yet
+      // APCA scores it at Lc -18.1 — a third of the large-text minimum.
+      expect(getContrast('#5a5a5a', '#000')).toBe(3.045);
+      expect(getApcaContrast('#5a5a5a', '#000')).toBe(-18.1);
+      expect(isApcaContrast(-18.1, 'large')).toBe(false);
+    });
+
+    it('should accept every CSS format parseColor accepts', () => {
+      expect(getApcaContrast('rgb(0 0 0)', 'hsl(0 0% 100%)')).toBe(
+        getApcaContrast('#000', '#fff')
+      );
+    });
+
+    it('should return null for invalid input', () => {
+      expect(getApcaContrast('nope', '#fff')).toBe(null);
+      expect(getApcaContrast('#fff', '#gg')).toBe(null);
+    });
+
+    it('should return null for a translucent color', () => {
+      expect(getApcaContrast('rgba(0,0,0,0.1)', '#fff')).toBe(null);
+      expect(getApcaContrast('#000', '#ffffff80')).toBe(null);
+      expect(getApcaReport('transparent', '#fff')).toBe(null);
+    });
+  });
+
+  describe('isApcaContrast', () => {
+    it('should apply the Bronze minimum per content type', () => {
+      expect(isApcaContrast(75)).toBe(true);
+      expect(isApcaContrast(74.9)).toBe(false);
+      expect(isApcaContrast(60, 'large')).toBe(true);
+      expect(isApcaContrast(59.9, 'large')).toBe(false);
+      expect(isApcaContrast(45, 'non-text')).toBe(true);
+      expect(isApcaContrast(44.9, 'non-text')).toBe(false);
+    });
+
+    it('should ignore polarity', () => {
+      expect(isApcaContrast(-75)).toBe(true);
+      expect(isApcaContrast(-74.9)).toBe(false);
+    });
+  });
+
+  describe('getApcaMinimumLc', () => {
+    it('should look up the Bronze tier for a size and weight', () => {
+      expect(getApcaMinimumLc(14)).toBe(90);
+      expect(getApcaMinimumLc(16)).toBe(90);
+      expect(getApcaMinimumLc(18)).toBe(75);
+      expect(getApcaMinimumLc(24)).toBe(60);
+      expect(getApcaMinimumLc(36)).toBe(45);
+      expect(getApcaMinimumLc(14, 700)).toBe(75);
+      expect(getApcaMinimumLc(16, 700)).toBe(60);
+      expect(getApcaMinimumLc(24, 700)).toBe(45);
+    });
+
+    it('should treat an unlisted weight as the next lighter one', () => {
+      expect(getApcaMinimumLc(16, 600)).toBe(getApcaMinimumLc(16, 500));
+      expect(getApcaMinimumLc(24, 650)).toBe(getApcaMinimumLc(24, 600));
+    });
+
+    it('should return null for text too small or thin at any contrast', () => {
+      expect(getApcaMinimumLc(12)).toBe(null);
+      expect(getApcaMinimumLc(16, 200)).toBe(null);
+      expect(getApcaMinimumLc(96, 100)).toBe(null);
+    });
+  });
+
+  describe('getApcaReport', () => {
+    it('should agree with the individual functions', () => {
+      for (const [text, background] of [
+        ['#767676', '#ffffff'],
+        ['#ffffff', '#767676'],
+        ['#000000', '#ffffff'],
+        ['#555555', '#000000'],
+      ] as const) {
+        const report = getApcaReport(text, background)!;
+        const lc = getApcaContrast(text, background, 10)!;
+        expect(report.lc).toBe(getApcaContrast(text, background));
+        expect(report.normal.passes).toBe(isApcaContrast(lc));
+        expect(report.large.passes).toBe(isApcaContrast(lc, 'large'));
+        expect(report.nonText.passes).toBe(isApcaContrast(lc, 'non-text'));
+      }
+    });
+
+    it('should report polarity even when the pair clips to zero', () => {
+      expect(getApcaReport('#000', '#fff')!.polarity).toBe('dark-on-light');
+      expect(getApcaReport('#fff', '#000')!.polarity).toBe('light-on-dark');
+      expect(getApcaReport('#333', '#000')).toEqual({
+        lc: 0,
+        polarity: 'light-on-dark',
+        normal: { passes: false },
+        large: { passes: false },
+        nonText: { passes: false },
+      });
+    });
+
+    it('should return null for invalid input', () => {
+      expect(getApcaReport('nope', '#fff')).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { measurePairs } from '../batch';
+import * as contrast from '../contrast';
+import { checkPairs, getContrast, getContrastLevel, hexToRgb } from '..';
+
+const pairs = [
+  ['#767676', '#ffffff'],
+  ['#777777', '#ffffff'],
+  ['#000000', '#ffffff'],
+] as const;
+
+describe('batch', () => {
+  describe('checkPairs', () => {
+    it('should report each pair in the order given', () => {
+      const { ratios, passes } = checkPairs(pairs)!;
+      expect(ratios).toEqual(Float64Array.of(4.542, 4.478, 21));
+      expect(passes).toEqual(Uint8Array.of(1, 0, 1));
+    });
+
+    it('should agree with getContrastLevel for every pair', () => {
+      const colors = ['#0a7b3c', '#c0ffee', '#123456', '#949494', '#8c2177'];
+      const all = colors.flatMap((c1) => colors.map((c2) => [c1, c2] as const));
+      for (const level of ['AA', 'AAA'] as const) {
+        for (const content of ['normal', 'large', 'non-text'] as const) {
+          const { ratios, passes } = checkPairs(all, level, content)!;
+          all.forEach(([c1, c2], i) => {
+            const achieved = getContrastLevel(c1, c2, content);
+            expect(ratios[i]).toBe(getContrast(c1, c2));
+            expect(passes[i]).toBe(
+              achieved === 'AAA' || achieved === level ? 1 : 0
+            );
+          });
+        }
+      }
+    });
+
+    it('should judge on the exact ratio', () => {
+      // 4.4996:1, which rounds to 4.5 but does not meet it.
+      const { ratios, passes } = checkPairs([['#8c2177', '#9bc7e5']])!;
+      expect(ratios[0]).toBe(4.5);
+      expect(passes[0]).toBe(0);
+    });
+
+    it('should accept RGB channels, luminances and text styles', () => {
+      expect(
+        checkPairs([
+          [hexToRgb('#767676')!, { luminance: 1 }],
+          [{ r: 119, g: 119, b: 119 }, '#fff'],
+        ])
+      ).toEqual(checkPairs(pairs.slice(0, 2)));
+      expect(checkPairs(pairs, 'AA', { fontSize: 24 })!.passes).toEqual(
+        Uint8Array.of(1, 1, 1)
+      );
+      expect(checkPairs(pairs, 'AAA')!.passes).toEqual(Uint8Array.of(0, 0, 1));
+      expect(checkPairs([])).toEqual({
+        ratios: new Float64Array(0),
+        passes: new Uint8Array(0),
+      });
+    });
+
+    it('should fail a pair it cannot measure without dropping it', () => {
+      const { ratios, passes } = checkPairs([
+        ['nope', '#fff'],
+        ['#000', { luminance: 2 }],
+        ['#000', '#fff'],
+      ])!;
+      expect(ratios).toEqual(Float64Array.of(NaN, NaN, 21));
+      expect(passes).toEqual(Uint8Array.of(0, 0, 1));
+      expect(checkPairs(pairs, 'AA', { fontSize: -1 })).toBe(null);
+    });
+  });
+
+  describe('measurePairs', () => {
+    it('should parse each distinct string once', () => {
+      const luminance = jest.spyOn(contrast, 'luminanceOf');
+      const { passes } = measurePairs(
+        [
+          ['#000', '#fff'],
+          ['#fff', '#000'],
+          ['#000', { luminance: 1 }],
+        ],
+        3
+      );
+      expect(passes).toEqual(Uint8Array.of(1, 1, 1));
+      expect(luminance.mock.calls).toEqual([
+        ['#000'],
+        ['#fff'],
+        [{ luminance: 1 }],
+      ]);
+      luminance.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,392 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli, USAGE, type CliIO } from '../cli';
+import { getContrast, getContrastLevel } from '..';
+
+const tokens = {
+  color: {
+    $type: 'color',
+    white: { $value: '#ffffff' },
+    grey: { $value: '#767676' },
+    muted: { $value: '#949494' },
+    surface: { $value: '{color.white}' },
+  },
+};
+
+const pairings = [
+  { foreground: 'color.grey', background: 'color.surface' },
+  { foreground: 'color.muted', background: 'color.surface' },
+];
+
+const files: Record<string, string> = {
+  'tokens.json': JSON.stringify(tokens),
+  'pairings.json': JSON.stringify(pairings),
+  'embedded.json': JSON.stringify({
+    ...tokens,
+    $extensions: { 'accessible-colors': { pairings: pairings.slice(0, 1) } },
+  }),
+  'broken.json': '{',
+  'list.json': '[]',
+  'missing.json': JSON.stringify([
+    { foreground: 'color.nope', background: 'color.surface' },
+  ]),
+  'bad-pairings.json': JSON.stringify([{ foreground: 'color.grey' }]),
+};
+
+/** Run the command against in-memory files, capturing its output. */
+const run = (...args: string[]) => {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIO = {
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+    readFile: (path) => {
+      const file = files[path];
+      if (file === undefined) throw new Error(`ENOENT: ${path}`);
+      return file;
+    },
+    random: () => 0.5,
+  };
+  const code = runCli(args, io);
+  return { code, stdout: out.join('\n'), stderr: err.join('\n') };
+};
+
+const json = (stdout: string) => JSON.parse(stdout);
+
+describe('cli', () => {
+  describe('check', () => {
+    it('should report every verdict and exit 1 on failure', () => {
+      const { code, stdout } = run('check', '#777', '#fff');
+      expect(code).toBe(1);
+      expect(stdout).toBe(
+        [
+          '4.478:1  #777 on #fff',
+          '  normal text  AA fail  AAA fail',
+          '  large text   AA pass  AAA fail',
+          '  non-text     AA pass',
+          'fail: AA required for normal content',
+        ].join('\n')
+      );
+    });
+
+    it('should exit 0 when the requirement is met', () => {
+      expect(run('check', '#767676', '#fff').code).toBe(0);
+      expect(run('check', '#777', '#fff', '--content', 'large').code).toBe(0);
+      expect(run('check', '#767676', '#fff', '--level', 'AAA').code).toBe(1);
+    });
+
+    it('should accept every format parseColor accepts', () => {
+      const { code, stdout } = run(
+        'check',
+        'oklch(0.4 0.1 250)',
+        'rgb(255 255 255)',
+        '--json'
+      );
+      expect(code).toBe(0);
+      expect(json(stdout).ratio).toBe(
+        getContrast('oklch(0.4 0.1 250)', 'rgb(255 255 255)')
+      );
+    });
+
+    it('should print the report as JSON, with level for the content type', () => {
+      const { stdout } = run(
+        'check',
+        '#777',
+        'white',
+        '--json',
+        '--content=large'
+      );
+      expect(json(stdout)).toEqual({
+        foreground: '#777',
+        background: 'white',
+        ratio: 4.478,
+        normal: { aa: false, aaa: false },
+        large: { aa: true, aaa: false },
+        nonText: { passes: true },
+        content: 'large',
+        required: 'AA',
+        level: 'AA',
+        passes: true,
+      });
+    });
+
+    it('should print the exact ratio on request', () => {
+      const { stdout } = run('check', '#777', '#fff', '--exact');
+      expect(stdout).toMatch(/^4\.478089453577214:1/);
+      expect(
+        json(run('check', '#777', '#fff', '--exact', '--json').stdout).ratio
+      ).toBe(getContrast('#777', '#fff', Infinity));
+    });
+
+    it('should exit 2 for an invalid color rather than report a result', () => {
+      const { code, stdout, stderr } = run('check', 'nope', '#fff');
+      expect(code).toBe(2);
+      expect(stdout).toBe('');
+      expect(stderr).toContain('Invalid color pair: nope on #fff');
+    });
+    it('should exit 2 for a translucent color without a backdrop', () => {
+      for (const args of [
+        ['check', 'rgba(0,0,0,0.05)', '#fff', '--json'],
+        ['check', '#000', '#ffffff80'],
+        ['suggest', 'rgba(0,0,0,0.05)', '#fff'],
+        ['random', 'transparent'],
+      ]) {
+        const { code, stdout, stderr } = run(...args);
+        expect(code).toBe(2);
+        expect(stdout).toBe('');
+        expect(stderr).toContain('Translucent color');
+      }
+    });
+
+    it('should measure a translucent pair over its backdrop', () => {
+      const faint = run(
+        'check',
+        'rgba(0,0,0,0.05)',
+        '#fff',
+        '--backdrop',
+        '#fff',
+        '--json'
+      );
+      expect(faint.code).toBe(1);
+      expect(json(faint.stdout)).toMatchObject({
+        backdrop: '#fff',
+        ratio: getContrast('rgba(0,0,0,0.05)', '#fff', 3, '#fff'),
+        level: 'fail',
+        passes: false,
+      });
+
+      const { code, stdout } = run(
+        'check',
+        '#000',
+        'rgb(255 255 255 / 50%)',
+        '--backdrop=#fff'
+      );
+      expect(code).toBe(0);
+      expect(stdout.split('\n')[0]).toBe(
+        '21:1  #000 on rgb(255 255 255 / 50%) on #fff'
+      );
+    });
+
+    it('should exit 2 for an invalid or translucent backdrop', () => {
+      for (const backdrop of ['nope', 'rgb(0 0 0 / 50%)']) {
+        const { code, stderr } = run(
+          'check',
+          '#000',
+          '#fff',
+          '--backdrop',
+          backdrop
+        );
+        expect(code).toBe(2);
+        expect(stderr).toContain(
+          `Invalid color pair: #000 on #fff on ${backdrop}`
+        );
+      }
+    });
+  });
+
+  describe('suggest', () => {
+    it('should print the nearest passing variant and its ratio', () => {
+      expect(run('suggest', '#00FF33', '#FFFFFF')).toEqual({
+        code: 0,
+        stdout: '#008a17  4.518:1 on #FFFFFF',
+        stderr: '',
+      });
+      expect(
+        run('suggest', '#00FF33', '#FFFFFF', '--level', 'aaa').stdout
+      ).toBe('#00680e  7.032:1 on #FFFFFF');
+    });
+
+    it('should treat large and non-text content as large', () => {
+      const { stdout } = run(
+        'suggest',
+        '#00FF33',
+        '#FFFFFF',
+        '--content',
+        'non-text',
+        '--json'
+      );
+      expect(json(stdout)).toEqual({
+        change: '#00FF33',
+        keep: '#FFFFFF',
+        suggestion: '#00ad1f',
+        ratio: 3.001,
+      });
+    });
+
+    it('should exit 1 when no variant exists', () => {
+      const { code, stderr } = run('suggest', '#777', '#777', '--level', 'AAA');
+      expect(code).toBe(1);
+      expect(stderr).toBe('No AAA variant of #777 exists on #777');
+      expect(
+        json(run('suggest', '#777', '#777', '--level', 'AAA', '--json').stdout)
+      ).toEqual({
+        change: '#777',
+        keep: '#777',
+        suggestion: null,
+        ratio: null,
+      });
+    });
+
+    it('should exit 2 for an invalid color', () => {
+      expect(run('suggest', '#777', 'nope').code).toBe(2);
+    });
+  });
+
+  describe('random', () => {
+    it('should print a random color passing against a background', () => {
+      const { code, stdout } = run('random', '#fff', '--json');
+      expect(code).toBe(0);
+      const { color, ratio } = json(stdout);
+      expect(getContrastLevel(color, '#fff')).not.toBe('fail');
+      expect(ratio).toBe(getContrast(color, '#fff'));
+      expect(run('random', '#fff').stdout).toBe(`${color}  ${ratio}:1 on #fff`);
+    });
+
+    it('should print any color without a background', () => {
+      expect(run('random').stdout).toBe('#7fffff');
+      expect(json(run('random', '--json').stdout)).toEqual({
+        color: '#7fffff',
+      });
+    });
+
+    it('should exit 1 when no color can pass', () => {
+      expect(run('random', '#777', '--level', 'AAA')).toEqual({
+        code: 1,
+        stdout: '',
+        stderr: 'No color can meet AAA on #777',
+      });
+      expect(
+        json(run('random', '#777', '--level', 'AAA', '--json').stdout)
+      ).toEqual({ background: '#777', color: null, ratio: null });
+    });
+
+    it('should exit 2 for an invalid color', () => {
+      expect(run('random', 'nope').code).toBe(2);
+    });
+  });
+
+  describe('audit', () => {
+    it('should check pairings from a separate file', () => {
+      const { code, stdout } = run('audit', 'tokens.json', 'pairings.json');
+      expect(code).toBe(1);
+      expect(stdout).toBe(
+        [
+          'pass   color.grey on color.surface  4.542:1  AA for normal',
+          'fail   color.muted on color.surface  3.033:1  AA for normal  suggest #767676',
+          '2 pairings: 1 passed, 1 failed',
+        ].join('\n')
+      );
+    });
+
+    it('should read pairings from the token file extensions', () => {
+      const { code, stdout } = run('audit', 'embedded.json', '--json');
+      expect(code).toBe(0);
+      expect(json(stdout)).toHaveLength(1);
+      expect(json(stdout)[0]).toMatchObject({ ratio: 4.542, passes: true });
+    });
+
+    it('should print exact ratios on request', () => {
+      const [result] = json(
+        run('audit', 'embedded.json', '--json', '--exact').stdout
+      );
+      expect(result.ratio).toBe(getContrast('#767676', '#ffffff', Infinity));
+    });
+
+    it('should report unresolvable tokens as failures', () => {
+      const { code, stdout } = run('audit', 'tokens.json', 'missing.json');
+      expect(code).toBe(1);
+      expect(stdout).toBe(
+        [
+          'error  color.nope on color.surface  Token "color.nope" does not exist',
+          '1 pairings: 0 passed, 1 failed',
+        ].join('\n')
+      );
+      const [result] = json(
+        run('audit', 'tokens.json', 'missing.json', '--exact', '--json').stdout
+      );
+      expect(result.ratio).toBe(null);
+    });
+
+    it('should exit 2 for unreadable or invalid files', () => {
+      for (const args of [
+        ['audit', 'absent.json', 'pairings.json'],
+        ['audit', 'broken.json', 'pairings.json'],
+        ['audit', 'list.json', 'pairings.json'],
+        ['audit', 'tokens.json'],
+        ['audit', 'tokens.json', 'bad-pairings.json'],
+        ['audit'],
+      ]) {
+        expect(run(...args).code).toBe(2);
+      }
+      expect(run('audit', 'absent.json').stderr).toContain(
+        'Cannot read absent.json'
+      );
+      expect(run('audit', 'broken.json').stderr).toContain(
+        'broken.json is not valid JSON'
+      );
+    });
+  });
+
+  describe('usage', () => {
+    it('should print help and exit 0 when asked', () => {
+      expect(run('--help')).toEqual({ code: 0, stdout: USAGE, stderr: '' });
+      expect(run('check', '-h').code).toBe(0);
+    });
+
+    it('should exit 2 with usage when given no command', () => {
+      expect(run()).toEqual({ code: 2, stdout: '', stderr: USAGE });
+    });
+
+    it('should exit 2 for unknown commands, options and values', () => {
+      for (const args of [
+        ['frob'],
+        ['constructor'],
+        ['check', '#777'],
+        ['check', '#777', '#fff', '--verbose'],
+        ['check', '#777', '#fff', '--content', 'huge'],
+        ['check', '#777', '#fff', '--level', 'A'],
+        ['check', '#777', '#fff', '--level'],
+        ['check', '#777', '#fff', '--content', 'non-text', '--level', 'AAA'],
+      ]) {
+        const { code, stderr } = run(...args);
+        expect(code).toBe(2);
+        expect(stderr).toMatch(/^accessible-colors: /);
+      }
+    });
+
+    it('should read files and write output through the process by default', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'accessible-colors-'));
+      const stdout = jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+      const stderr = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+      try {
+        writeFileSync(join(dir, 'tokens.json'), files['embedded.json']!);
+        expect(runCli(['audit', join(dir, 'tokens.json')])).toBe(0);
+        expect(runCli(['random', '#fff'])).toBe(0);
+        expect(runCli(['check', 'nope', '#fff'])).toBe(2);
+        expect(stdout).toHaveBeenCalledWith(
+          expect.stringMatching(/1 pairings: 1 passed, 0 failed\n$/)
+        );
+        expect(stderr).toHaveBeenCalledWith(
+          expect.stringContaining('Invalid color pair')
+        );
+      } finally {
+        stdout.mockRestore();
+        stderr.mockRestore();
+        rmSync(dir, { recursive: true });
+      }
+    });
+
+    it('should rethrow anything that is not a usage error', () => {
+      const io: CliIO = {
+        stdout: () => {
+          throw new Error('EPIPE');
+        },
+        stderr: () => undefined,
+        readFile: () => '',
+        random: Math.random,
+      };
+      expect(() => runCli(['check', '#777', '#fff'], io)).toThrow('EPIPE');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { blend, flattenPair } from '../composite';
+import {
+  compositeOver,
+  getContrast,
+  getContrastLevel,
+  getContrastReport,
+  getLuminance,
+  isContrasting,
+  parseColorWithAlpha,
+  randomColor,
+} from '..';
+
+describe('composite', () => {
+  describe('blend', () => {
+    it('should return the foreground when it is opaque', () => {
+      const top = { r: 10, g: 20, b: 30, a: 1 };
+      expect(blend(top, { r: 255, g: 255, b: 255, a: 1 })).toEqual(top);
+    });
+
+    it('should return the backdrop when the foreground is transparent', () => {
+      const bottom = { r: 10, g: 20, b: 30, a: 1 };
+      expect(blend({ r: 255, g: 0, b: 0, a: 0 }, bottom)).toEqual(bottom);
+    });
+
+    it('should blend two translucent colors with source-over', () => {
+      // a = 0.5 + 0.5 * 0.5 = 0.75; red = 255 * 0.5 / 0.75 = 170.
+      expect(
+        blend({ r: 255, g: 0, b: 0, a: 0.5 }, { r: 0, g: 0, b: 255, a: 0.5 })
+      ).toEqual({ r: 170, g: 0, b: 85, a: 0.75 });
+    });
+
+    it('should not divide by zero when both layers are transparent', () => {
+      expect(
+        blend({ r: 255, g: 0, b: 0, a: 0 }, { r: 0, g: 0, b: 255, a: 0 })
+      ).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+    });
+  });
+
+  describe('compositeOver', () => {
+    it('should blend in gamma-encoded sRGB, as browsers do', () => {
+      expect(compositeOver('rgb(0 0 0 / 50%)', '#ffffff')).toBe('#808080');
+      // 0x80 is 50.2% opaque, not 50%.
+      expect(compositeOver('#00000080', '#fff')).toBe('#7f7f7f');
+      expect(compositeOver('hsl(0 100% 50% / 0.25)', '#000')).toBe('#400000');
+    });
+
+    it('should return opaque colors unchanged', () => {
+      expect(compositeOver('#123456', '#ffffff')).toBe('#123456');
+    });
+
+    it('should keep alpha when the backdrop is itself translucent', () => {
+      expect(compositeOver('rgb(255 0 0 / 0.5)', 'rgb(0 0 255 / 0.5)')).toBe(
+        '#aa0055bf'
+      );
+      expect(compositeOver('#0000', '#00000000')).toBe('#00000000');
+    });
+
+    it('should return null for invalid input', () => {
+      expect(compositeOver('nope', '#fff')).toBe(null);
+      expect(compositeOver('#fff', 'rgb(0 0 0 / x)')).toBe(null);
+    });
+  });
+
+  describe('flattenPair', () => {
+    it('should flatten the background first, then the foreground onto it', () => {
+      expect(flattenPair('#ffffff80', '#00000080', '#ffffff')).toEqual([
+        { r: 191, g: 191, b: 191 },
+        { r: 127, g: 127, b: 127 },
+      ]);
+    });
+
+    it('should refuse a translucent backdrop', () => {
+      // Nothing known lies beneath it, so there is nothing to measure.
+      expect(flattenPair('#000', '#fff', '#ffffff80')).toBe(null);
+    });
+
+    it('should return null for invalid input', () => {
+      expect(flattenPair('nope', '#fff', '#fff')).toBe(null);
+      expect(flattenPair('#000', 'nope', '#fff')).toBe(null);
+      expect(flattenPair('#000', '#fff', 'nope')).toBe(null);
+    });
+  });
+
+  describe('contrast with a backdrop', () => {
+    it('should measure translucent text as it renders', () => {
+      expect(getContrast('rgb(0 0 0 / 50%)', '#fff', 3, '#fff')).toBe(
+        getContrast('#808080', '#fff')
+      );
+      expect(
+        getContrastLevel('rgb(0 0 0 / 50%)', '#fff', 'normal', '#fff')
+      ).toBe('fail');
+    });
+
+    it('should return null for a translucent color without a backdrop', () => {
+      // Measured opaque, 10% black on white would pass AAA at 21:1.
+      for (const [color1, color2] of [
+        ['rgba(0,0,0,0.1)', '#fff'],
+        ['#000', 'rgb(255 255 255 / 50%)'],
+        ['transparent', '#fff'],
+      ] as const) {
+        expect(getContrast(color1, color2)).toBe(null);
+        expect(getContrastLevel(color1, color2)).toBe(null);
+        expect(getContrastReport(color1, color2)).toBe(null);
+        expect(isContrasting(color1, color2, 1)).toBe(null);
+      }
+      expect(getLuminance('#0008')).toBe(null);
+      expect(getContrast('rgba(0,0,0,1)', '#fff')).toBe(21);
+    });
+
+    it('should measure a translucent surface over the page beneath it', () => {
+      const report = getContrastReport('#fff', 'rgb(0 0 0 / 60%)', 3, '#fff')!;
+      expect(report.ratio).toBe(
+        getContrast('#fff', compositeOver('rgb(0 0 0 / 60%)', '#fff'))
+      );
+      expect(report.level).toBe('AA');
+    });
+
+    it('should agree with compositing by hand', () => {
+      for (let i = 0; i < 500; i++) {
+        const text = `${randomColor()}${Math.floor(Math.random() * 256)
+          .toString(16)
+          .padStart(2, '0')}`;
+        const surface = randomColor();
+        expect(getContrast(text, surface, 3, surface)).toBe(
+          getContrast(compositeOver(text, surface), surface)
+        );
+      }
+    });
+
+    it('should be unchanged for opaque colors', () => {
+      expect(getContrast('#767676', '#fff', 3, '#000')).toBe(
+        getContrast('#767676', '#fff')
+      );
+    });
+
+    it('should return null rather than a verdict when the backdrop is unusable', () => {
+      expect(getContrast('#000', '#fff', 3, 'nope')).toBe(null);
+      expect(getContrastLevel('#000', '#fff', 'normal', '#fff0')).toBe(null);
+      expect(getContrastReport('#000', '#fff', 3, 'rgb(0 0 0 / 0.5)')).toBe(
+        null
+      );
+    });
+  });
+
+  describe('parseColorWithAlpha', () => {
+    it('should be re-exported for callers who composite themselves', () => {
+      expect(parseColorWithAlpha('#00000080')).toEqual({
+        r: 0,
+        g: 0,
+        b: 0,
+        a: 128 / 255,
+      });
+    });
+  });
+});
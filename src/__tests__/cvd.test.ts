@@ -0,0 +1,148 @@
+import { simulateRgb, type ColorVisionDeficiency } from '../cvd';
+import {
+  getContrast,
+  getContrastReport,
+  randomColor,
+  simulateColorVision,
+  registerColorParsers,
+  namedColors,
+} from '..';
+
+registerColorParsers(namedColors);
+
+const TYPES: ColorVisionDeficiency[] = [
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+  'achromatopsia',
+];
+
+describe('cvd', () => {
+  describe('simulateColorVision', () => {
+    it('should match the Machado et al. full-severity simulation', () => {
+      expect(simulateColorVision('#ff0000', 'protanopia')).toBe('#6d5f00');
+      expect(simulateColorVision('#00ff00', 'deuteranopia')).toBe('#efd63a');
+      expect(simulateColorVision('#0000ff', 'tritanopia')).toBe('#006b96');
+    });
+
+    it('should leave neutral colors unchanged', () => {
+      for (const type of TYPES) {
+        for (const grey of ['#000000', '#767676', '#ffffff']) {
+          expect(simulateColorVision(grey, type)).toBe(grey);
+        }
+      }
+    });
+
+    it('should reduce achromatopsia to luminance', () => {
+      // Only 8-bit rounding separates the grey from the original's luminance.
+      for (let i = 0; i < 200; i++) {
+        const color = randomColor();
+        const grey = simulateColorVision(color, 'achromatopsia')!;
+        expect(grey.slice(1, 3)).toBe(grey.slice(3, 5));
+        expect(grey.slice(3, 5)).toBe(grey.slice(5, 7));
+        expect(getContrast(color, grey, 10)).toBeLessThan(1.02);
+      }
+    });
+
+    it('should blend toward normal vision as severity falls', () => {
+      expect(simulateColorVision('#ff0000', 'protanopia', 0)).toBe('#ff0000');
+      expect(simulateColorVision('#ff0000', 'protanopia', 0.5)).toBe('#c84400');
+      expect(simulateColorVision('#ff0000', 'protanopia', 1)).toBe('#6d5f00');
+    });
+
+    it('should clamp severity to 0-1', () => {
+      expect(simulateColorVision('#ff0000', 'protanopia', 2)).toBe(
+        simulateColorVision('#ff0000', 'protanopia', 1)
+      );
+      expect(simulateColorVision('#ff0000', 'protanopia', -1)).toBe('#ff0000');
+    });
+
+    it('should accept every CSS format parseColor accepts', () => {
+      expect(simulateColorVision('rgb(255 0 0)', 'deuteranopia')).toBe(
+        simulateColorVision('red', 'deuteranopia')
+      );
+    });
+
+    it('should return null for invalid input', () => {
+      expect(simulateColorVision('nope', 'protanopia')).toBe(null);
+      expect(
+        simulateColorVision('#ff0000', 'constructor' as ColorVisionDeficiency)
+      ).toBe(null);
+      expect(simulateColorVision('#ff0000', 'protanopia', NaN)).toBe(null);
+    });
+  });
+
+  describe('simulateRgb', () => {
+    it('should agree with simulateColorVision', () => {
+      expect(simulateRgb({ r: 255, g: 0, b: 0 }, 'protanopia', 1)).toEqual({
+        r: 0x6d,
+        g: 0x5f,
+        b: 0,
+      });
+    });
+  });
+
+  describe('getContrastReport', () => {
+    it('should report the ratio each simulated viewer sees', () => {
+      const report = getContrastReport('#ff0000', '#00ff00', 3, undefined, {
+        colorVision: TYPES,
+      })!;
+      for (const type of TYPES) {
+        expect(report.colorVision?.[type]).toBe(
+          getContrast(
+            simulateColorVision('#ff0000', type),
+            simulateColorVision('#00ff00', type)
+          )
+        );
+      }
+    });
+
+    it('should leave the verdicts for the colors as authored', () => {
+      const plain = getContrastReport('#ff0000', '#ffffff')!;
+      const { colorVision, ...rest } = getContrastReport(
+        '#ff0000',
+        '#ffffff',
+        3,
+        undefined,
+        { colorVision: ['deuteranopia'] }
+      )!;
+      expect(rest).toEqual(plain);
+      expect(colorVision).toEqual({ deuteranopia: 3.208 });
+      expect('colorVision' in plain).toBe(false);
+    });
+
+    it('should apply the requested severity and precision', () => {
+      const report = getContrastReport('#ff0000', '#ffffff', 1, undefined, {
+        colorVision: ['deuteranopia'],
+        colorVisionSeverity: 0.5,
+      })!;
+      expect(report.colorVision).toEqual({ deuteranopia: 3.5 });
+    });
+
+    it('should simulate the composited pair when given a backdrop', () => {
+      const report = getContrastReport(
+        'rgb(255 0 0 / 50%)',
+        '#ffffff',
+        3,
+        '#ffffff',
+        { colorVision: ['protanopia'] }
+      )!;
+      const flat = simulateColorVision('#ff8080', 'protanopia');
+      expect(report.colorVision?.protanopia).toBe(getContrast(flat, '#ffffff'));
+    });
+
+    it('should return null for an invalid deficiency or severity', () => {
+      expect(
+        getContrastReport('#ff0000', '#ffffff', 3, undefined, {
+          colorVision: ['nope' as ColorVisionDeficiency],
+        })
+      ).toBe(null);
+      expect(
+        getContrastReport('#ff0000', '#ffffff', 3, undefined, {
+          colorVision: ['protanopia'],
+          colorVisionSeverity: NaN,
+        })
+      ).toBe(null);
+    });
+  });
+});
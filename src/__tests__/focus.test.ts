@@ -0,0 +1,94 @@
+import { checkFocusAppearance, getContrast } from '..';
+
+// A 90x30 button, the example used by the Understanding document for SC 2.4.13.
+const button = { width: 90, height: 30 };
+
+describe('focus', () => {
+  describe('checkFocusAppearance', () => {
+    it('should pass a 2px outline with enough contrast', () => {
+      expect(
+        checkFocusAppearance('#2563EB', '#FFFFFF', '#FFFFFF', {
+          ...button,
+          thickness: 2,
+        })
+      ).toEqual({
+        change: { ratio: 5.169, passes: true },
+        area: { area: 496, required: 480, passes: true },
+        adjacent: { ratio: 5.169, passes: true },
+        passes: true,
+      });
+    });
+
+    it('should require the area of a 2px perimeter', () => {
+      const area = (thickness: number, offset?: number) =>
+        checkFocusAppearance('#2563EB', '#FFFFFF', '#FFFFFF', {
+          ...button,
+          thickness,
+          ...(offset === undefined ? {} : { offset }),
+        })!.area;
+      expect(area(1)).toEqual({ area: 244, required: 480, passes: false });
+      // An offset outline is drawn around a larger rectangle.
+      expect(area(1, 60).passes).toBe(true);
+      // An inset outline is drawn around a smaller one, so 2px is not enough.
+      expect(area(2, -2)).toEqual({ area: 464, required: 480, passes: false });
+      expect(area(3, -3)).toEqual({ area: 684, required: 480, passes: true });
+    });
+
+    it('should require a 3:1 change from the unfocused pixels', () => {
+      const report = checkFocusAppearance('#FFD700', '#FFFFFF', '#000000', {
+        ...button,
+        thickness: 4,
+      })!;
+      expect(report.change).toEqual({ ratio: 1.403, passes: false });
+      expect(report.area.passes).toBe(true);
+      expect(report.adjacent.passes).toBe(true);
+      expect(report.passes).toBe(false);
+    });
+
+    it('should require 3:1 against the adjacent color', () => {
+      // A blue ring drawn against a dark blue button's edge.
+      const report = checkFocusAppearance('#2563EB', '#FFFFFF', '#1E40AF', {
+        ...button,
+        thickness: 2,
+      })!;
+      expect(report.adjacent).toEqual({
+        ratio: getContrast('#2563EB', '#1E40AF'),
+        passes: false,
+      });
+      expect(report.passes).toBe(false);
+    });
+
+    it('should judge contrast on the exact ratio', () => {
+      expect(
+        checkFocusAppearance('#959595', '#FFFFFF', '#FFFFFF', {
+          ...button,
+          thickness: 2,
+        })!.change
+      ).toEqual({ ratio: 2.995, passes: false });
+      expect(
+        checkFocusAppearance('#949494', '#FFFFFF', '#FFFFFF', {
+          ...button,
+          thickness: 2,
+        })!.change
+      ).toEqual({ ratio: 3.033, passes: true });
+    });
+
+    it('should return null for an invalid color or geometry', () => {
+      const ring = { ...button, thickness: 2 };
+      expect(checkFocusAppearance('nope', '#fff', '#fff', ring)).toBe(null);
+      expect(checkFocusAppearance('#000', 'nope', '#fff', ring)).toBe(null);
+      expect(checkFocusAppearance('#000', '#fff', 'nope', ring)).toBe(null);
+      for (const geometry of [
+        { ...ring, thickness: 0 },
+        { ...ring, width: -1 },
+        { ...ring, height: NaN },
+        { ...ring, offset: -20 },
+        { ...ring, width: Infinity },
+      ]) {
+        expect(checkFocusAppearance('#000', '#fff', '#fff', geometry)).toBe(
+          null
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  formatColor,
+  getRandomAAAColor,
+  getRandomAAColor,
+  isAAAContrast,
+  isAAContrast,
+  parseColorWithAlpha,
+  suggestAAAColorVariant,
+  suggestAAColorVariant,
+  suggestColorPair,
+  suggestColorVariant,
+  suggestColorVariantDetailed,
+  suggestColorVariantForAll,
+  suggestLinkColor,
+  type ColorFormat,
+  registerColorParsers,
+  namedColors,
+} from '..';
+import { formatLike } from '../format';
+
+registerColorParsers(namedColors);
+
+const blue = { r: 30, g: 64, b: 175 };
+const preserveFormat = true;
+
+/** A fixed-seed generator, so random colors are reproducible. */
+const seeded = () => {
+  let seed = 1;
+  return () => (seed = (seed * 48271) % 2147483647) / 2147483647;
+};
+
+describe('format', () => {
+  describe('formatColor', () => {
+    it('should write each format in modern syntax', () => {
+      expect(formatColor(blue, 'hex')).toBe('#1e40af');
+      expect(formatColor(blue, 'hex8')).toBe('#1e40afff');
+      expect(formatColor(blue, 'rgb')).toBe('rgb(30 64 175)');
+      expect(formatColor(blue, 'hsl')).toBe('hsl(225.9 70.7% 40.2%)');
+      expect(formatColor(blue, 'oklch')).toBe('oklch(42.4% 0.181 265.6)');
+    });
+
+    it('should write rgb() and hsl() in legacy syntax when asked', () => {
+      const legacy = { legacy: true };
+      expect(formatColor(blue, 'rgb', legacy)).toBe('rgb(30, 64, 175)');
+      expect(formatColor(blue, 'hsl', legacy)).toBe('hsl(225.9, 70.7%, 40.2%)');
+      expect(formatColor({ ...blue, a: 0.5 }, 'rgb', legacy)).toBe(
+        'rgba(30, 64, 175, 0.5)'
+      );
+      expect(formatColor({ ...blue, a: 0.5 }, 'hsl', legacy)).toBe(
+        'hsla(225.9, 70.7%, 40.2%, 0.5)'
+      );
+      // Hex and oklch() have no legacy syntax.
+      expect(formatColor(blue, 'hex', legacy)).toBe('#1e40af');
+      expect(formatColor(blue, 'oklch', legacy)).toBe(
+        'oklch(42.4% 0.181 265.6)'
+      );
+    });
+
+    it('should write alpha only where the format carries it', () => {
+      const translucent = { ...blue, a: 0.5 };
+      expect(formatColor(translucent, 'hex')).toBe('#1e40af');
+      expect(formatColor(translucent, 'hex8')).toBe('#1e40af80');
+      expect(formatColor(translucent, 'rgb')).toBe('rgb(30 64 175 / 0.5)');
+      expect(formatColor(translucent, 'hsl')).toBe(
+        'hsl(225.9 70.7% 40.2% / 0.5)'
+      );
+      expect(formatColor(translucent, 'oklch')).toBe(
+        'oklch(42.4% 0.181 265.6 / 0.5)'
+      );
+      expect(formatColor({ ...blue, a: 1 }, 'rgb')).toBe('rgb(30 64 175)');
+    });
+
+    it('should round channels to integers', () => {
+      expect(formatColor({ r: 29.6, g: 64.4, b: 175 }, 'rgb')).toBe(
+        'rgb(30 64 175)'
+      );
+    });
+
+    it('should write colors that parse back to the same channels', () => {
+      const formats: ColorFormat[] = ['hex', 'hex8', 'rgb', 'hsl', 'oklch'];
+      const random = seeded();
+      for (let i = 0; i < 500; i++) {
+        const rgb = {
+          r: Math.floor(random() * 256),
+          g: Math.floor(random() * 256),
+          b: Math.floor(random() * 256),
+        };
+        for (const format of formats) {
+          for (const legacy of [false, true]) {
+            const css = formatColor(rgb, format, { legacy }) as string;
+            expect(parseColorWithAlpha(css)).toEqual({ ...rgb, a: 1 });
+          }
+        }
+      }
+    });
+
+    it('should return null for channels or alpha out of range', () => {
+      expect(formatColor({ r: 256, g: 0, b: 0 }, 'hex')).toBe(null);
+      expect(formatColor({ r: -1, g: 0, b: 0 }, 'rgb')).toBe(null);
+      expect(formatColor({ r: NaN, g: 0, b: 0 }, 'hsl')).toBe(null);
+      expect(formatColor({ r: 0, g: 0, b: 0, a: 1.5 }, 'hex8')).toBe(null);
+      expect(formatColor({ r: 0, g: 0, b: 0, a: NaN }, 'rgb')).toBe(null);
+      expect(formatColor(blue, 'lab' as ColorFormat)).toBe(null);
+    });
+  });
+
+  describe('formatLike', () => {
+    it("should follow the other color's format and syntax", () => {
+      expect(formatLike('#1e40af', 'hsl(210 80% 60%)')).toBe(
+        'hsl(225.9 70.7% 40.2%)'
+      );
+      expect(formatLike('#1e40af', 'HSL(210, 80%, 60%)')).toBe(
+        'hsl(225.9, 70.7%, 40.2%)'
+      );
+      expect(formatLike('#1e40af', ' rgb(0 0 0) ')).toBe('rgb(30 64 175)');
+      expect(formatLike('#1e40af', 'oklch(50% 0.1 200)')).toBe(
+        'oklch(42.4% 0.181 265.6)'
+      );
+      expect(formatLike('rgb(30 64 175)', '#abc')).toBe('#1e40af');
+      expect(formatLike('rgb(30 64 175)', '#aabbccff')).toBe('#1e40afff');
+    });
+
+    it('should return null if either color is translucent', () => {
+      expect(formatLike('#1e40af', 'rgba(0, 0, 0, 0.5)')).toBe(null);
+      expect(formatLike('#1e40af', 'hsl(0 0% 0% / 25%)')).toBe(null);
+      expect(formatLike('#1e40af', '#0008')).toBe(null);
+      expect(formatLike('#1e40af', 'transparent')).toBe(null);
+      expect(formatLike('#1e40af80', '#000')).toBe(null);
+    });
+
+    it('should fall back to hex for formats it cannot write', () => {
+      expect(formatLike('hsl(225.9 70.7% 40.2%)', 'skyblue')).toBe('#1e40af');
+      expect(formatLike('#1e40af', 'lab(50% 0 0)')).toBe('#1e40af');
+    });
+
+    it('should return null if either color is invalid', () => {
+      expect(formatLike('nope', '#fff')).toBe(null);
+      expect(formatLike('#fff', 'nope')).toBe(null);
+    });
+  });
+
+  describe('preserveFormat', () => {
+    const sky = 'hsl(210 80% 60%)';
+
+    it('should suggest in the format of the color to change', () => {
+      expect(suggestAAColorVariant(sky, '#fff')).toBe('#2379c9');
+      expect(
+        suggestAAColorVariant(sky, '#fff', false, { preserveFormat })
+      ).toBe('hsl(208.9 70.3% 46.3%)');
+      expect(
+        suggestAAColorVariant('rgba(100, 150, 250, 1)', '#fff', false, {
+          preserveFormat,
+        })
+      ).toBe('rgb(68, 115, 212)');
+      expect(
+        suggestAAColorVariant('#6aff', '#fff', false, { preserveFormat })
+      ).toBe('#3478c8ff');
+      expect(
+        suggestAAAColorVariant('oklch(70% 0.1 250)', '#fff', false, {
+          preserveFormat,
+        })
+      ).toBe('oklch(46.1% 0.1 250.2)');
+      expect(
+        suggestColorVariant('rgb(100 150 250)', '#fff', {}, { preserveFormat })
+      ).toBe('rgb(68 115 212)');
+      expect(suggestLinkColor(sky, '#000', '#fff', { preserveFormat })).toBe(
+        'hsl(209.1 69.6% 46.5%)'
+      );
+    });
+
+    it('should suggest a color that passes in the format it is written', () => {
+      const variant = suggestAAColorVariant(sky, '#fff', false, {
+        preserveFormat,
+      }) as string;
+      expect(isAAContrast(variant, '#fff')).toBe(true);
+    });
+
+    it('should return null for a translucent input', () => {
+      expect(
+        suggestAAColorVariant('hsl(210 80% 60% / 0.5)', '#fff', false, {
+          preserveFormat,
+        })
+      ).toBe(null);
+      expect(
+        suggestAAColorVariant('rgba(80, 160, 240, 0.5)', '#fff', false, {
+          preserveFormat,
+        })
+      ).toBe(null);
+      expect(
+        suggestColorPair(sky, 'rgb(200 200 200 / 50%)', 'AA', {
+          preserveFormat,
+        })
+      ).toBe(null);
+      expect(
+        getRandomAAColor('#fff8', false, { random: seeded(), preserveFormat })
+      ).toBe(null);
+    });
+
+    it('should return a passing color exactly as given', () => {
+      expect(
+        suggestAAColorVariant('hsl(0 0% 0%)', '#fff', false, { preserveFormat })
+      ).toBe('hsl(0 0% 0%)');
+    });
+
+    it('should fall back to hex for formats it cannot write', () => {
+      expect(
+        suggestAAColorVariant('skyblue', '#fff', false, { preserveFormat })
+      ).toBe('#377f9a');
+    });
+
+    it('should write every candidate and color it suggests', () => {
+      const detailed = suggestColorVariantDetailed(sky, '#fff', {
+        preserveFormat,
+      });
+      expect(detailed?.darker?.color).toBe('hsl(208.9 70.3% 46.3%)');
+      expect(detailed?.chosen?.color).toBe('hsl(208.9 70.3% 46.3%)');
+      expect(detailed?.darker?.ratio).toBe(4.516);
+      expect(
+        suggestColorVariantForAll(sky, ['#fff', '#eee'], 'AA', false, {
+          preserveFormat,
+        })
+      ).toEqual({ color: 'hsl(208 81% 41%)', conflicts: [] });
+      // Each color of a pair follows its own input.
+      expect(
+        suggestColorPair(sky, 'rgb(200 200 200)', 'AA', { preserveFormat })
+      ).toMatchObject({
+        foreground: 'hsl(206.3 100% 30.4%)',
+        background: 'rgb(202 202 202)',
+        ratio: 4.517,
+      });
+    });
+
+    it("should generate opaque colors in the background's format", () => {
+      const aa = getRandomAAColor('hsl(0, 0%, 100%)', false, {
+        random: seeded(),
+        preserveFormat,
+      }) as string;
+      expect(aa).toBe('hsl(0, 0%, 46.3%)');
+      expect(isAAContrast(aa, '#fff')).toBe(true);
+      const aaa = getRandomAAAColor('oklch(100% 0 0)', false, {
+        random: seeded(),
+        preserveFormat,
+      }) as string;
+      expect(aaa).toMatch(/^oklch\([\d.]+% [\d.]+ [\d.]+\)$/);
+      expect(isAAAContrast(aaa, '#fff')).toBe(true);
+    });
+  });
+});
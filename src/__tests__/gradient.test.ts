@@ -0,0 +1,307 @@
+import { sampleGradient } from '../gradient';
+import {
+  getGradientContrast,
+  isAAContrast,
+  parseGradient,
+  registerColorParsers,
+  namedColors,
+} from '..';
+
+registerColorParsers(namedColors);
+
+/** The gradient's color halfway along. */
+const midpoint = (gradient: string) =>
+  sampleGradient(parseGradient(gradient)!)!.find(
+    ({ position }) => position === 0.5
+  )!.color;
+
+describe('gradient', () => {
+  describe('parseGradient', () => {
+    it('should read stops, positions and the interpolation', () => {
+      expect(
+        parseGradient(
+          'linear-gradient(to right in oklch longer hue, red, blue)'
+        )
+      ).toEqual({
+        type: 'linear',
+        repeating: false,
+        space: 'oklch',
+        hue: 'longer',
+        stops: [
+          { color: 'red', position: 0 },
+          { color: 'blue', position: 1 },
+        ],
+        hints: [null],
+      });
+      expect(
+        parseGradient(
+          'Repeating-Radial-Gradient(circle at top, rgb(0 0 0) 0, #fff 20%)'
+        )
+      ).toMatchObject({ type: 'radial', repeating: true, space: 'srgb' });
+    });
+
+    it('should fill in omitted positions as CSS does', () => {
+      const positions = (gradient: string) =>
+        parseGradient(gradient)!.stops.map(({ position }) => position);
+      expect(positions('linear-gradient(red, lime, blue 80%)')).toEqual([
+        0, 0.4, 0.8,
+      ]);
+      // A position before an earlier one is raised to it.
+      expect(positions('linear-gradient(red 50%, blue 20%)')).toEqual([
+        0.5, 0.5,
+      ]);
+      expect(positions('linear-gradient(red -50%, blue 150%)')).toEqual([
+        -0.5, 1.5,
+      ]);
+    });
+
+    it('should read double positions and interpolation hints', () => {
+      expect(
+        parseGradient('linear-gradient(red, 30%, blue 50% 70%, 90%, lime)')
+      ).toMatchObject({
+        stops: [
+          { color: 'red', position: 0 },
+          { color: 'blue', position: 0.5 },
+          { color: 'blue', position: 0.7 },
+          { color: 'lime', position: 1 },
+        ],
+        hints: [0.3, null, 0.9],
+      });
+      // A hint may not fall outside the stops it sits between.
+      expect(
+        parseGradient('linear-gradient(red 20%, 10%, blue)')!.hints
+      ).toEqual([0.2]);
+    });
+
+    it('should default to sRGB for legacy colors and to OKLab otherwise', () => {
+      expect(
+        parseGradient(
+          'linear-gradient(#000, rgb(0 0 255), hsl(0 0% 50%), red)'
+        )!.space
+      ).toBe('srgb');
+      expect(
+        parseGradient('linear-gradient(45deg, #000, oklch(0.7 0.1 200))')!.space
+      ).toBe('oklab');
+    });
+
+    it('should return null for anything it cannot read exactly', () => {
+      for (const gradient of [
+        'conic-gradient(red, blue)',
+        'linear-gradient(red)',
+        'linear-gradient(red, nope)',
+        'linear-gradient(red 10px, blue)',
+        'linear-gradient(red, blue 10% 20% 30%)',
+        'linear-gradient(red, 10%, 20%, blue)',
+        'linear-gradient(red, blue, 50%)',
+        'linear-gradient(in display-p3, red, blue)',
+        'linear-gradient(in, red, blue)',
+        'linear-gradient(in oklab longer hue, red, blue)',
+        'linear-gradient(in oklch longer, red, blue)',
+        'linear-gradient(red, , blue)',
+        'url(a.png)',
+      ]) {
+        expect(parseGradient(gradient)).toBe(null);
+      }
+      expect(parseGradient(42 as unknown as string)).toBe(null);
+    });
+
+    it('should read every form of direction, shape and position', () => {
+      for (const gradient of [
+        'linear-gradient(0, red, blue)',
+        'linear-gradient(-0.25turn, red, blue)',
+        'linear-gradient(to top right, red, blue)',
+        'linear-gradient(in oklab to left, red, blue)',
+        'radial-gradient(ellipse, red, blue)',
+        'radial-gradient(closest-side circle, red, blue)',
+        'radial-gradient(10px 20%, red, blue)',
+        'radial-gradient(at 10px 20%, red, blue)',
+        'radial-gradient(farthest-corner at left 10% top 0, red, blue)',
+        'radial-gradient(in lch decreasing hue circle at center, red, blue)',
+      ]) {
+        expect(parseGradient(gradient)?.stops).toHaveLength(2);
+      }
+    });
+
+    it('should not mistake an unreadable first stop for its setup', () => {
+      for (const gradient of [
+        'linear-gradient(var(--brand), #000, #111)',
+        'linear-gradient(currentColor, #000, #111)',
+        'linear-gradient(nope 10%, #000, #111)',
+        'linear-gradient(45px, #000, #111)',
+        'linear-gradient(to middle, #000, #111)',
+        'linear-gradient(to top right left, #000, #111)',
+        'linear-gradient(to right in oklab to left, #000, #111)',
+        'linear-gradient(to in oklab right, #000, #111)',
+        'radial-gradient(at, #000, #111)',
+        'radial-gradient(circle at middle, #000, #111)',
+        'radial-gradient(large, #000, #111)',
+      ]) {
+        expect(parseGradient(gradient)).toBe(null);
+      }
+    });
+  });
+
+  describe('sampleGradient', () => {
+    it('should interpolate in the declared color space', () => {
+      expect(midpoint('linear-gradient(red, blue)')).toBe('#800080');
+      expect(midpoint('linear-gradient(in srgb-linear, red, blue)')).toBe(
+        '#bc00bc'
+      );
+      expect(midpoint('linear-gradient(in xyz-d50, red, blue)')).toBe(
+        '#bc00bc'
+      );
+      expect(midpoint('linear-gradient(in oklab, red, blue)')).toBe('#8c53a2');
+      expect(midpoint('linear-gradient(in lab, red, blue)')).toBe('#bc0086');
+      expect(midpoint('linear-gradient(in hsl, red, blue)')).toBe('#ff00ff');
+    });
+
+    it('should take hue the way the hue method asks', () => {
+      expect(midpoint('linear-gradient(in hsl longer hue, red, blue)')).toBe(
+        '#00ff00'
+      );
+      expect(midpoint('linear-gradient(in oklch, red, blue)')).toBe('#b200b8');
+      expect(
+        midpoint('linear-gradient(in oklch decreasing hue, red, blue)')
+      ).toBe('#b200b8');
+      expect(
+        midpoint('linear-gradient(in oklch increasing hue, red, blue)')
+      ).toBe('#00862d');
+      expect(midpoint('linear-gradient(in lch, red, blue)')).toBe('#c7007d');
+    });
+
+    it('should keep the hue of a color mixed with a grey', () => {
+      // White has no hue of its own, so the mix stays blue, as in OKLab.
+      expect(midpoint('linear-gradient(in oklch, white, blue)')).toBe(
+        midpoint('linear-gradient(in oklab, white, blue)')
+      );
+    });
+
+    it('should move the halfway mix to an interpolation hint', () => {
+      // At the hint the two colors mix half and half.
+      const gradient = parseGradient('linear-gradient(red, 25%, blue)')!;
+      const at = (position: number) =>
+        sampleGradient(gradient)!.find(
+          (sample) => sample.position === position
+        )!.color;
+      expect(at(0.25)).toBe(midpoint('linear-gradient(red, blue)'));
+      expect(at(0.5)).toBe('#4b00b4');
+      expect(midpoint('linear-gradient(red, 100%, blue)')).toBe('#ff0000');
+      expect(midpoint('linear-gradient(red, 0%, blue)')).toBe('#0000ff');
+    });
+
+    it('should cover the visible part of the gradient, stops first', () => {
+      const samples = sampleGradient(
+        parseGradient('linear-gradient(red 20%, blue 80%)')!
+      )!;
+      expect(samples.slice(0, 4)).toEqual([
+        { position: 0, color: '#ff0000' },
+        { position: 1, color: '#0000ff' },
+        { position: 0.2, color: '#ff0000' },
+        { position: 0.8, color: '#0000ff' },
+      ]);
+      const positions = (gradient: string) =>
+        sampleGradient(parseGradient(gradient)!)!.map(
+          ({ position }) => position
+        );
+      for (const position of positions(
+        'linear-gradient(red -50%, blue 150%)'
+      )) {
+        expect(position).toBeGreaterThanOrEqual(0);
+        expect(position).toBeLessThanOrEqual(1);
+      }
+      // A repeating gradient repeats its stops, so one repetition is enough.
+      const repeating = positions(
+        'repeating-linear-gradient(red 10%, blue 30%)'
+      );
+      expect(Math.min(...repeating)).toBe(0.1);
+      expect(Math.max(...repeating)).toBe(0.3);
+    });
+
+    it('should return null for a translucent stop', () => {
+      expect(
+        sampleGradient(parseGradient('linear-gradient(#000, transparent)')!)
+      ).toBe(null);
+    });
+  });
+
+  describe('getGradientContrast', () => {
+    const blues = 'linear-gradient(to right, #1e40af, #3b82f6)';
+
+    it('should report the worst point across the gradient', () => {
+      expect(getGradientContrast('#ffffff', blues)).toEqual({
+        min: 3.678,
+        max: 8.722,
+        position: 1,
+        color: '#3b82f6',
+        passes: false,
+        suggestion: null,
+      });
+    });
+
+    it('should judge by content type and level', () => {
+      expect(
+        getGradientContrast('#ffffff', blues, { content: 'large' })
+      ).toMatchObject({ passes: true, suggestion: '#ffffff' });
+      expect(
+        getGradientContrast('#ffffff', blues, {
+          content: 'large',
+          level: 'AAA',
+        })!.passes
+      ).toBe(false);
+      expect(
+        getGradientContrast('#ffffff', blues, {
+          content: 'non-text',
+          level: 'AAA',
+        })
+      ).toMatchObject({ passes: false, suggestion: null });
+    });
+
+    it('should suggest a color passing across the whole gradient', () => {
+      const sunset = 'linear-gradient(to right, #f97316, #ec4899)';
+      const result = getGradientContrast('#ffffff', sunset)!;
+      expect(result.passes).toBe(false);
+      expect(result.suggestion).toBe('#222222');
+      expect(getGradientContrast(result.suggestion!, sunset)!.passes).toBe(
+        true
+      );
+    });
+
+    it('should find the worst point between the stops', () => {
+      // Mid grey text is worst where the gradient passes through mid grey.
+      const result = getGradientContrast(
+        '#777',
+        'linear-gradient(#000, #fff)'
+      )!;
+      expect(result.min).toBe(1);
+      expect(result.color).toBe('#777777');
+      expect(result.position).toBeCloseTo(0.467, 2);
+    });
+
+    it('should never pass a gradient that fails anywhere', () => {
+      for (const gradient of [
+        'linear-gradient(#000, #000 45%, #fff 50%, #000 55%)',
+        'radial-gradient(#000, #000 99%, #888)',
+        'linear-gradient(in hsl longer hue, #00f, #f00)',
+      ]) {
+        const result = getGradientContrast('#000', gradient)!;
+        expect(result.passes).toBe(false);
+        expect(isAAContrast('#000', result.color)).toBe(false);
+      }
+    });
+
+    it('should return null if the color or gradient cannot be measured', () => {
+      expect(getGradientContrast('nope', blues)).toBe(null);
+      expect(getGradientContrast('rgb(255 255 255 / 80%)', blues)).toBe(null);
+      expect(
+        getGradientContrast('#fff', 'linear-gradient(#000 0 10px, #fff)')
+      ).toBe(null);
+      expect(
+        getGradientContrast('#fff', 'linear-gradient(#000, rgb(0 0 0 / 50%))')
+      ).toBe(null);
+      // An unresolvable first stop is never dropped as if it were a direction.
+      expect(
+        getGradientContrast('#fff', 'linear-gradient(var(--brand), #000, #111)')
+      ).toBe(null);
+    });
+  });
+});
@@ -3,10 +3,11 @@ import {
   hexToHsl,
   rgbToHex,
   hexToRgb,
+  hexToRgba,
   rgbToHsl,
   hslToRgb,
 } from '../helpers';
-import { binarySearchContrast, suggestColorVariant } from '../suggest';
+import { binarySearchContrast, nearestVariant } from '../suggest';
 import { rgbToOklab, oklabToOklch, oklabToRgb, gamutMapChroma } from '../oklch';
 import { getContrast, isAAContrast, randomColor } from '..';
 
@@ -56,6 +57,34 @@ describe('helpers', () => {
     });
   });
 
+  describe('hexToRgba', () => {
+    it('should parse alpha digits when present', () => {
+      expect(hexToRgba('#12345678')).toEqual({
+        r: 18,
+        g: 52,
+        b: 86,
+        a: 0x78 / 255,
+      });
+      expect(hexToRgba('#abcd')).toEqual({
+        r: 170,
+        g: 187,
+        b: 204,
+        a: 0xdd / 255,
+      });
+      expect(hexToRgba('#00000000')).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+    });
+
+    it('should report opaque when there are no alpha digits', () => {
+      expect(hexToRgba('#abc')).toEqual({ r: 170, g: 187, b: 204, a: 1 });
+      expect(hexToRgba('#123456')).toEqual({ r: 18, g: 52, b: 86, a: 1 });
+    });
+
+    it('should return null for anything else', () => {
+      expect(hexToRgba('#12345')).toBe(null);
+      expect(hexToRgba(null as unknown as string)).toBe(null);
+    });
+  });
+
   describe('round trips', () => {
     it('should convert rgb to hex and back to rgb', () => {
       const rgb = { r: 255, g: 255, b: 255 };
@@ -190,25 +219,21 @@ describe('helpers', () => {
     });
   });
 
-  describe('suggestColorVariant', () => {
+  describe('nearestVariant', () => {
     it('should return the original color when it already complies', () => {
-      expect(suggestColorVariant('#000000', '#ffffff', isAAContrast)).toBe(
+      expect(nearestVariant('#000000', '#ffffff', isAAContrast)).toBe(
         '#000000'
       );
     });
 
     it('should return null for invalid input', () => {
-      expect(suggestColorVariant('nope', '#ffffff', isAAContrast)).toBe(null);
-      expect(suggestColorVariant('#ffffff', 'nope', isAAContrast)).toBe(null);
+      expect(nearestVariant('nope', '#ffffff', isAAContrast)).toBe(null);
+      expect(nearestVariant('#ffffff', 'nope', isAAContrast)).toBe(null);
     });
 
     it('should pick the candidate closest to the original lightness', () => {
       // Near-white input against white: darkening is the only option.
-      const suggestion = suggestColorVariant(
-        '#fafafa',
-        '#ffffff',
-        isAAContrast
-      );
+      const suggestion = nearestVariant('#fafafa', '#ffffff', isAAContrast);
       expect(suggestion).not.toBe(null);
       expect(getContrast(suggestion, '#ffffff')!).toBeGreaterThanOrEqual(4.5);
     });
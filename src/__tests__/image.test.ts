@@ -0,0 +1,202 @@
+import {
+  compositeOver,
+  getContrast,
+  getImageRegionContrast,
+  getScrimOpacity,
+  hexToRgb,
+  registerColorParsers,
+  namedColors,
+} from '..';
+
+registerColorParsers(namedColors);
+
+/** An opaque image, row by row, from hex colors. */
+const image = (rows: string[][]) =>
+  Uint8ClampedArray.from(
+    rows.flat().flatMap((hex) => {
+      const { r, g, b } = hexToRgb(hex)!;
+      return [r, g, b, 255];
+    })
+  );
+
+// A 4x2 image: light greys on the left, darker ones on the right.
+const pixels = image([
+  ['#ffffff', '#eeeeee', '#777777', '#000000'],
+  ['#ffffff', '#dddddd', '#767676', '#333333'],
+]);
+const whole = { x: 0, y: 0, width: 4, height: 2 };
+
+describe('image', () => {
+  describe('getImageRegionContrast', () => {
+    it('should report the lowest, highest and percentile ratios', () => {
+      expect(getImageRegionContrast('#000', pixels, 4, 2, whole)).toEqual({
+        min: 1,
+        max: 21,
+        percentile: 1,
+        passing: 6 / 8,
+      });
+      expect(
+        getImageRegionContrast('#000', pixels, 4, 2, whole, { percentile: 50 })!
+          .percentile
+      ).toBe(getContrast('#000', '#777777'));
+      expect(
+        getImageRegionContrast('#000', pixels, 4, 2, whole, { percentile: 0 })!
+          .percentile
+      ).toBe(1);
+    });
+
+    it('should only measure the region', () => {
+      const region = { x: 1, y: 0, width: 2, height: 2 };
+      expect(getImageRegionContrast('#fff', pixels, 4, 2, region)).toEqual({
+        min: getContrast('#fff', '#eeeeee'),
+        max: getContrast('#fff', '#767676'),
+        percentile: getContrast('#fff', '#eeeeee'),
+        passing: 1 / 4,
+      });
+    });
+
+    it('should count passing pixels on exact ratios', () => {
+      // #777777 is 4.478:1 on white, so it fails AA by a whisker.
+      const grey = image([['#777777', '#767676']]);
+      const region = { x: 0, y: 0, width: 2, height: 1 };
+      expect(getImageRegionContrast('#fff', grey, 2, 1, region)!.passing).toBe(
+        0.5
+      );
+      expect(
+        getImageRegionContrast('#fff', grey, 2, 1, region, {
+          content: 'large',
+        })!.passing
+      ).toBe(1);
+      expect(
+        getImageRegionContrast('#fff', grey, 2, 1, region, { level: 'AAA' })!
+          .passing
+      ).toBe(0);
+      expect(
+        getImageRegionContrast('#fff', grey, 2, 1, region, {
+          content: 'non-text',
+          level: 'AAA',
+        })!.passing
+      ).toBe(0);
+    });
+
+    it('should match getContrast for every pixel', () => {
+      const colors = ['#0a7b3c', '#c0ffee', '#123456', '#fedcba', '#808080'];
+      for (const color of colors) {
+        const region = { x: 0, y: 0, width: 1, height: 1 };
+        expect(
+          getImageRegionContrast('#e44d26', image([[color]]), 1, 1, region)!.min
+        ).toBe(getContrast('#e44d26', color));
+      }
+    });
+
+    it('should accept any typed byte array, such as a Node Buffer', () => {
+      expect(
+        getImageRegionContrast('#000', Buffer.from(pixels), 4, 2, whole)
+      ).toEqual(getImageRegionContrast('#000', pixels, 4, 2, whole));
+    });
+
+    it('should return null rather than measure what it cannot see', () => {
+      const translucent = Uint8Array.of(255, 255, 255, 254);
+      const one = { x: 0, y: 0, width: 1, height: 1 };
+      expect(getImageRegionContrast('#000', translucent, 1, 1, one)).toBe(null);
+      expect(getImageRegionContrast('#0008', pixels, 4, 2, whole)).toBe(null);
+      expect(getImageRegionContrast('nope', pixels, 4, 2, whole)).toBe(null);
+    });
+
+    it('should return null for a region or size that does not fit', () => {
+      for (const region of [
+        { x: 3, y: 0, width: 2, height: 1 },
+        { x: 0, y: 1, width: 1, height: 2 },
+        { x: -1, y: 0, width: 1, height: 1 },
+        { x: 0, y: 0.5, width: 1, height: 1 },
+        { x: 0, y: 0, width: 0, height: 1 },
+        { x: 0, y: 0, width: 1, height: 0 },
+      ]) {
+        expect(getImageRegionContrast('#000', pixels, 4, 2, region)).toBe(null);
+      }
+      expect(getImageRegionContrast('#000', pixels, 2, 4, whole)).toBe(null);
+      expect(getImageRegionContrast('#000', pixels, 8, 1, whole)).toBe(null);
+      expect(getImageRegionContrast('#000', pixels, 0, 2, whole)).toBe(null);
+      expect(getImageRegionContrast('#000', pixels, 4, 0, whole)).toBe(null);
+      expect(getImageRegionContrast('#000', pixels, 2, 2, whole)).toBe(null);
+      for (const percentile of [-1, 101, NaN]) {
+        expect(
+          getImageRegionContrast('#000', pixels, 4, 2, whole, { percentile })
+        ).toBe(null);
+      }
+    });
+  });
+
+  describe('getScrimOpacity', () => {
+    const white = image([['#ffffff']]);
+    const one = { x: 0, y: 0, width: 1, height: 1 };
+
+    it('should find the least opaque scrim that passes', () => {
+      expect(getScrimOpacity('#fff', white, 1, 1, one)).toBe(0.54);
+      // The next step down is not enough, as a browser would render it.
+      const under = (opacity: string) =>
+        getContrast('#fff', compositeOver(`rgb(0 0 0 / ${opacity})`, '#fff')!);
+      expect(under('53%')).toBeLessThan(4.5);
+      expect(under('54%')).toBeGreaterThanOrEqual(4.5);
+      expect(getScrimOpacity('#000', white, 1, 1, one)).toBe(0);
+    });
+
+    it('should composite a scrim of any opaque color', () => {
+      expect(
+        getScrimOpacity('#000', image([['#000000']]), 1, 1, one, {
+          scrim: '#fff',
+        })
+      ).toBe(0.46);
+      expect(
+        getScrimOpacity('#fff', pixels, 4, 2, whole, { scrim: 'navy' })
+      ).toBe(0.57);
+    });
+
+    it('should find a scrim that lowers contrast before raising it', () => {
+      // Darkening white first brings it nearer mid grey, so only a nearly
+      // opaque black scrim gets past it.
+      expect(getScrimOpacity('#777', white, 1, 1, one)).toBe(0.98);
+    });
+
+    it('should let a percentile of the pixels fall short', () => {
+      const hero = image([['#1e40af', '#3b82f6', '#93c5fd', '#ffffff']]);
+      const row = { x: 0, y: 0, width: 4, height: 1 };
+      expect(getScrimOpacity('#fff', hero, 4, 1, row)).toBe(0.54);
+      expect(getScrimOpacity('#fff', hero, 4, 1, row, { percentile: 50 })).toBe(
+        0.39
+      );
+      expect(getScrimOpacity('#fff', hero, 4, 1, row, { percentile: 25 })).toBe(
+        getScrimOpacity('#fff', hero, 4, 1, row, { percentile: 1 })
+      );
+      expect(
+        getScrimOpacity('#fff', hero, 4, 1, row, { content: 'large' })
+      ).toBe(0.42);
+    });
+
+    it('should return null when no scrim is enough', () => {
+      expect(getScrimOpacity('#777', white, 1, 1, one, { scrim: '#777' })).toBe(
+        null
+      );
+      expect(
+        getScrimOpacity('#fff', white, 1, 1, one, {
+          content: 'non-text',
+          level: 'AAA',
+        })
+      ).toBe(null);
+    });
+
+    it('should return null for input it cannot measure', () => {
+      expect(getScrimOpacity('nope', white, 1, 1, one)).toBe(null);
+      expect(
+        getScrimOpacity('#fff', white, 1, 1, one, { scrim: '#0008' })
+      ).toBe(null);
+      expect(
+        getScrimOpacity('#fff', Uint8Array.of(255, 255, 255, 0), 1, 1, one)
+      ).toBe(null);
+      expect(getScrimOpacity('#fff', white, 2, 1, one)).toBe(null);
+      expect(
+        getScrimOpacity('#fff', white, 1, 1, one, { percentile: 200 })
+      ).toBe(null);
+    });
+  });
+});
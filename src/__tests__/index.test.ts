@@ -12,8 +12,22 @@ import {
   isNonTextContrast,
   getContrastLevel,
   getContrastReport,
+  getContrastMatrix,
+  getWideGamutLuminance,
+  getWideGamutContrastReport,
+  suggestColorVariantForAll,
+  suggestColorPair,
+  suggestColorVariant,
+  suggestColorVariantDetailed,
+  getLinkContrastReport,
+  suggestLinkColor,
+  hexToRgb,
+  registerColorParsers,
+  namedColors,
 } from '..';
 
+registerColorParsers(namedColors);
+
 describe('accessible-colors', () => {
   describe('getLuminance', () => {
     it('should return null for an empty string', () => {
@@ -40,7 +54,7 @@ describe('accessible-colors', () => {
     it('should accept shorthand, alpha, and untrimmed hex', () => {
       expect(getLuminance('#fff')).toBe(getLuminance('#ffffff'));
       expect(getLuminance('#abc')).toBe(getLuminance('#aabbcc'));
-      expect(getLuminance('#fffa')).toBe(getLuminance('#ffffff'));
+      expect(getLuminance('#ffff')).toBe(getLuminance('#ffffff'));
       expect(getLuminance('#123456ff')).toBe(getLuminance('#123456'));
       expect(getLuminance('  #ffffff  ')).toBe(getLuminance('#ffffff'));
       expect(getLuminance('FFFFFF')).toBe(getLuminance('#ffffff'));
@@ -56,9 +70,33 @@ describe('accessible-colors', () => {
       expect(getLuminance('#00ffff')).toBe(0.7874);
       expect(getLuminance('#ffff00')).toBe(0.9278);
     });
+
+    it('should accept RGB channels', () => {
+      expect(getLuminance({ r: 255, g: 0, b: 255 })).toBe(0.2848);
+      expect(getLuminance(hexToRgb('#8c2177')!)).toBe(getLuminance('#8c2177'));
+      expect(getLuminance({ r: 256, g: 0, b: 0 })).toBe(null);
+      expect(getLuminance({ r: 0, g: -1, b: 0 })).toBe(null);
+      expect(getLuminance({ r: 0, g: 0, b: NaN })).toBe(null);
+    });
+
+    it('should match the WCAG formula for every channel value', () => {
+      const linear = (v: number) =>
+        v / 255 <= 0.03928
+          ? v / 255 / 12.92
+          : Math.pow((v / 255 + 0.055) / 1.055, 2.4);
+      for (const v of [...Array(256).keys(), 127.5, 0.25]) {
+        expect(getLuminance({ r: v, g: 0, b: 0 })).toBe(0.2126 * linear(v));
+        expect(getLuminance({ r: 0, g: 0, b: v })).toBe(0.0722 * linear(v));
+      }
+    });
   });
 
   describe('random accessible colors', () => {
+    it('should draw a random color from the given source', () => {
+      expect(randomColor(() => 0)).toBe('#000000');
+      expect(randomColor(() => 0.5)).toBe('#7fffff');
+    });
+
     it('should return a valid color', () => {
       expect(getRandomAAAColor('#888888', true)).not.toBe(null);
     });
@@ -131,6 +169,9 @@ describe('accessible-colors', () => {
       expect(getContrast('#ff00ff', '#00ffff')).toBe(2.501);
       expect(getContrast('#ffff00', '#000000')).toBe(19.556);
     });
+    it('should return the unrounded ratio for infinite precision', () => {
+      expect(getContrast('#777', '#fff', Infinity)).toBe(4.478089453577214);
+    });
 
     it('should return null when either color is invalid', () => {
       // Regression: `#ff` is not a color. These previously returned confident
@@ -141,6 +182,34 @@ describe('accessible-colors', () => {
       expect(getContrast(null, '#ffffff')).toBe(null);
     });
 
+    it('should accept RGB channels and luminances', () => {
+      const red = { r: 255, g: 0, b: 0 };
+      expect(getContrast(red, { r: 0, g: 255, b: 0 })).toBe(2.914);
+      expect(getContrast(red, '#0000ff')).toBe(2.149);
+      expect(getContrast({ luminance: 0 }, { luminance: 1 })).toBe(21);
+      expect(getContrast({ luminance: getLuminance('#777')! }, '#fff')).toBe(
+        getContrast('#777', '#fff')
+      );
+      expect(isContrasting(red, { luminance: 1 }, 4)).toBe(false);
+      expect(isAAContrast(red, { luminance: 0 })).toBe(true);
+      expect(isAAAContrast(red, { luminance: 0 })).toBe(false);
+      expect(isNonTextContrast(red, { luminance: 0 })).toBe(true);
+      expect(getContrastLevel(red, { luminance: 0 }, 'large')).toBe('AAA');
+    });
+
+    it('should return null for objects it cannot measure', () => {
+      expect(getContrast({ r: 300, g: 0, b: 0 }, '#fff')).toBe(null);
+      expect(getContrast('#fff', { luminance: 1.5 })).toBe(null);
+      expect(getContrast({ luminance: NaN }, '#fff')).toBe(null);
+      expect(getContrast(null, { luminance: 0 })).toBe(null);
+      expect(isContrasting({ luminance: -1 }, '#000', 1)).toBe(null);
+      // Only a string can be translucent, so a backdrop needs two strings.
+      expect(getContrast({ r: 0, g: 0, b: 0 }, '#fff', 3, '#fff')).toBe(null);
+      expect(getContrastLevel('#000', { luminance: 1 }, 'normal', '#fff')).toBe(
+        null
+      );
+    });
+
     it('should treat shorthand hex as its expanded form', () => {
       // Regression: `#fff` parsed as the integer 0xfff, giving 2.512 here.
       expect(getContrast('#fff', '#000')).toBe(21);
@@ -227,6 +296,379 @@ describe('accessible-colors', () => {
     });
   });
 
+  describe('suggestColorVariantForAll', () => {
+    const grey = (v: number) => `#${v.toString(16).padStart(2, '0').repeat(3)}`;
+
+    it('should find one color passing on every background', () => {
+      const backgrounds = ['#ffffff', '#f3f4f6', '#e5e7eb'];
+      const result = suggestColorVariantForAll('#3b82f6', backgrounds);
+      expect(result).toEqual({ color: '#1a62d4', conflicts: [] });
+      for (const background of backgrounds) {
+        expect(isAAContrast(result!.color!, background)).toBe(true);
+      }
+    });
+
+    it('should find a window between light and dark backgrounds', () => {
+      const result = suggestColorVariantForAll('#3b82f6', ['#fff', '#000']);
+      expect(result).toEqual({ color: '#2c72e5', conflicts: [] });
+    });
+
+    it('should agree with suggestAAColorVariant for one background', () => {
+      // The two searches stop on different 8-bit neighbours of the same edge.
+      const channels = (hex: string | null | undefined) =>
+        hex == null ? null : Object.values(hexToRgb(hex)!);
+      // Seeded, so a failure names the same pair on every run.
+      let state = 42;
+      const random = () =>
+        (state = (state * 1664525 + 1013904223) >>> 0) / 2 ** 32;
+      for (let i = 0; i < 50; i++) {
+        const color = randomColor(random);
+        const background = randomColor(random);
+        const all = channels(
+          suggestColorVariantForAll(color, [background])?.color
+        );
+        const one = channels(suggestAAColorVariant(color, background));
+        expect(all === null).toBe(one === null);
+        all?.forEach((channel, c) => {
+          expect(Math.abs(channel - one![c]!)).toBeLessThanOrEqual(1);
+        });
+      }
+    });
+
+    it('should pick whichever direction is nearer', () => {
+      // Against a mid grey both extremes pass; the nearer one wins.
+      expect(suggestColorVariantForAll('#7a7a7a', ['#767676'])!.color).toMatch(
+        /^#f/
+      );
+      expect(suggestColorVariantForAll('#727272', ['#767676'])!.color).toMatch(
+        /^#0/
+      );
+    });
+
+    it('should return the color unmodified if it already passes', () => {
+      expect(suggestColorVariantForAll('#000', ['#fff', '#eee'])).toEqual({
+        color: '#000',
+        conflicts: [],
+      });
+      expect(suggestColorVariantForAll('#000', [])).toEqual({
+        color: '#000',
+        conflicts: [],
+      });
+    });
+
+    it('should apply the level and large text thresholds', () => {
+      const backgrounds = ['#ffffff', '#1f2937', '#000'];
+      expect(
+        suggestColorVariantForAll('#3b82f6', backgrounds, 'AA', true)
+      ).toEqual({ color: '#3b82f6', conflicts: [] });
+      const aaa = suggestColorVariantForAll('#00FF33', ['#fff'], 'AAA')!;
+      expect(isAAAContrast(aaa.color!, '#fff')).toBe(true);
+    });
+
+    it('should name the backgrounds that make the set unsatisfiable', () => {
+      expect(
+        suggestColorVariantForAll('#3b82f6', ['#ffffff', '#111827', '#fafafa'])
+      ).toEqual({ color: null, conflicts: ['#111827', '#ffffff'] });
+      expect(
+        suggestColorVariantForAll('#3b82f6', ['#fff', '#777'], 'AAA')
+      ).toEqual({ color: null, conflicts: ['#777'] });
+    });
+
+    it('should name no conflicts when the only window is too narrow to hit', () => {
+      // Luminances between the two bands exist, but no 8-bit grey lands there.
+      expect(
+        suggestColorVariantForAll('#808080', ['#060606', '#ffffff'])
+      ).toEqual({ color: null, conflicts: [] });
+    });
+
+    it('should never suggest a failing color or a false conflict', () => {
+      for (let i = 0; i < 300; i++) {
+        const backgrounds = [randomColor(), randomColor(), randomColor()];
+        const result = suggestColorVariantForAll(randomColor(), backgrounds)!;
+        if (result.color !== null) {
+          for (const background of backgrounds) {
+            expect(isAAContrast(result.color, background)).toBe(true);
+          }
+        }
+        // No grey, and so no luminance, may pass on every conflict.
+        if (result.conflicts.length > 0) {
+          for (let v = 0; v < 256; v++) {
+            expect(
+              result.conflicts.every((c) => isAAContrast(grey(v), c))
+            ).toBe(false);
+          }
+        }
+      }
+    });
+
+    it('should return null if any color is invalid', () => {
+      expect(suggestColorVariantForAll('nope', ['#fff'])).toBe(null);
+      expect(suggestColorVariantForAll('#000', ['#fff', 'nope'])).toBe(null);
+    });
+  });
+
+  describe('suggestColorVariant', () => {
+    it('should meet an arbitrary ratio', () => {
+      const suggestion = suggestColorVariant('#00FF33', '#FFFFFF', {
+        ratio: 5,
+      });
+      expect(suggestion).toBe('#008114');
+      expect(isContrasting(suggestion!, '#FFFFFF', 5)).toBe(true);
+    });
+
+    it('should meet SC 1.4.11 for non-text content', () => {
+      const suggestion = suggestColorVariant('#CCCCCC', '#FFFFFF', {
+        content: 'non-text',
+      });
+      expect(suggestion).toBe('#949494');
+      expect(isNonTextContrast(suggestion!, '#FFFFFF')).toBe(true);
+    });
+
+    it('should agree with suggestAAColorVariant and suggestAAAColorVariant', () => {
+      for (let i = 0; i < 50; i++) {
+        const color = randomColor();
+        const keep = randomColor();
+        expect(suggestColorVariant(color, keep)).toBe(
+          suggestAAColorVariant(color, keep)
+        );
+        expect(suggestColorVariant(color, keep, { ratio: 4.5 })).toBe(
+          suggestAAColorVariant(color, keep)
+        );
+        expect(
+          suggestColorVariant(color, keep, { level: 'AAA', content: 'large' })
+        ).toBe(suggestAAAColorVariant(color, keep, true));
+      }
+    });
+
+    it('should find nothing for non-text content at AAA', () => {
+      expect(
+        suggestColorVariant('#CCCCCC', '#FFFFFF', {
+          level: 'AAA',
+          content: 'non-text',
+        })
+      ).toBe(null);
+    });
+
+    it('should find nothing for a ratio no pair can meet', () => {
+      expect(suggestColorVariant('#777', '#fff', { ratio: 22 })).toBe(null);
+      expect(suggestColorVariant('#777', '#fff', { ratio: NaN })).toBe(null);
+    });
+
+    it('should return the color unmodified if it already passes', () => {
+      expect(suggestColorVariant('#777', '#fff', { ratio: 4 })).toBe('#777');
+    });
+
+    it('should return null if either color is invalid', () => {
+      expect(suggestColorVariant('nope', '#fff')).toBe(null);
+      expect(suggestColorVariant('#777', 'nope', { ratio: 3 })).toBe(null);
+    });
+  });
+
+  describe('suggestColorVariantDetailed', () => {
+    it('should report both candidates with their ratio and distance', () => {
+      const result = suggestColorVariantDetailed('#767676', '#767676')!;
+      expect(result.lighter).toMatchObject({
+        color: '#fefefe',
+        ratio: 4.504,
+        direction: 'lighter',
+      });
+      expect(result.darker).toMatchObject({
+        color: '#040404',
+        ratio: 4.514,
+        direction: 'darker',
+      });
+      expect(result.lighter!.deltaE).toBeLessThan(result.darker!.deltaE);
+      expect(result.chosen).toEqual(result.lighter);
+    });
+
+    it('should choose what suggestAAColorVariant and AAA return', () => {
+      for (let i = 0; i < 50; i++) {
+        const color = randomColor();
+        const keep = randomColor();
+        expect(
+          suggestColorVariantDetailed(color, keep)!.chosen?.color ?? null
+        ).toBe(suggestAAColorVariant(color, keep));
+        expect(
+          suggestColorVariantDetailed(color, keep, {
+            level: 'AAA',
+            large: true,
+          })!.chosen?.color ?? null
+        ).toBe(suggestAAAColorVariant(color, keep, true));
+      }
+    });
+
+    it('should report a missing direction as null', () => {
+      expect(suggestColorVariantDetailed('#00FF33', '#FFFFFF')).toEqual({
+        lighter: null,
+        darker: {
+          color: '#008a17',
+          deltaE: expect.any(Number),
+          direction: 'darker',
+          ratio: 4.518,
+        },
+        chosen: expect.objectContaining({ color: '#008a17' }),
+      });
+    });
+
+    it('should choose the preferred direction when it exists', () => {
+      const darker = suggestColorVariantDetailed('#767676', '#767676', {
+        prefer: 'darker',
+      })!;
+      expect(darker.chosen).toEqual(darker.darker);
+      // Falls back to the other direction rather than to nothing.
+      const lighter = suggestColorVariantDetailed('#00FF33', '#FFFFFF', {
+        prefer: 'lighter',
+      })!;
+      expect(lighter.chosen).toEqual(lighter.darker);
+    });
+
+    it('should drop candidates farther than maxDeltaE', () => {
+      const result = suggestColorVariantDetailed('#767676', '#767676', {
+        maxDeltaE: 0.44,
+      })!;
+      expect(result.lighter).not.toBe(null);
+      expect(result.darker).toBe(null);
+      expect(
+        suggestColorVariantDetailed('#767676', '#767676', { maxDeltaE: 0.1 })
+      ).toEqual({ lighter: null, darker: null, chosen: null });
+    });
+
+    it('should return the color unmodified if it already passes', () => {
+      expect(suggestColorVariantDetailed('#000', 'white')).toEqual({
+        lighter: null,
+        darker: null,
+        chosen: { color: '#000', deltaE: 0, direction: null, ratio: 21 },
+      });
+    });
+
+    it('should return null if either color is invalid', () => {
+      expect(suggestColorVariantDetailed('nope', '#fff')).toBe(null);
+      expect(suggestColorVariantDetailed('#777', 'nope')).toBe(null);
+    });
+  });
+
+  describe('suggestColorPair', () => {
+    it('should move both colors apart until the pair passes', () => {
+      const pair = suggestColorPair('#777777', '#777777')!;
+      expect(pair).toMatchObject({
+        foreground: '#999999',
+        background: '#323232',
+        ratio: 4.5,
+      });
+      expect(pair.deltaE.foreground).toBeGreaterThan(0);
+      expect(pair.deltaE.background).toBeGreaterThan(0);
+      expect(isAAContrast(pair.foreground, pair.background)).toBe(true);
+    });
+
+    it('should move only the foreground at a weight of 1', () => {
+      const pair = suggestColorPair('#00FF33', '#FFFFFF', 'AA', { weight: 1 });
+      expect(pair).toMatchObject({
+        foreground: suggestAAColorVariant('#00FF33', '#FFFFFF'),
+        background: '#ffffff',
+        deltaE: { background: 0 },
+      });
+    });
+
+    it('should move only the background at a weight of 0', () => {
+      const pair = suggestColorPair('#3b82f6', '#93c5fd', 'AA', { weight: 0 });
+      expect(pair).toMatchObject({
+        foreground: '#3b82f6',
+        background: '#001f3f',
+        deltaE: { foreground: 0 },
+      });
+    });
+
+    it('should clamp the weight to 0-1', () => {
+      expect(
+        suggestColorPair('#777777', '#cccccc', 'AA', { weight: 2 })
+      ).toEqual(suggestColorPair('#777777', '#cccccc', 'AA', { weight: 1 }));
+      expect(
+        suggestColorPair('#777777', '#cccccc', 'AA', { weight: -1 })
+      ).toEqual(suggestColorPair('#777777', '#cccccc', 'AA', { weight: 0 }));
+    });
+
+    it('should move less in total than fixing either color alone', () => {
+      for (const [fg, bg] of [
+        ['#777777', '#777777'],
+        ['#e11d48', '#be123c'],
+      ] as const) {
+        const { deltaE } = suggestColorPair(fg, bg)!;
+        const fgOnly = suggestColorPair(fg, bg, 'AA', { weight: 1 })!;
+        const bgOnly = suggestColorPair(fg, bg, 'AA', { weight: 0 })!;
+        const total = deltaE.foreground + deltaE.background;
+        expect(total).toBeLessThanOrEqual(fgOnly.deltaE.foreground);
+        expect(total).toBeLessThanOrEqual(bgOnly.deltaE.background);
+      }
+    });
+
+    it('should apply the level and large text thresholds', () => {
+      const aaa = suggestColorPair('#3b82f6', '#93c5fd', 'AAA')!;
+      expect(isAAAContrast(aaa.foreground, aaa.background)).toBe(true);
+      const large = suggestColorPair('#3b82f6', '#93c5fd', 'AA', {
+        large: true,
+      })!;
+      expect(isAAContrast(large.foreground, large.background, true)).toBe(true);
+      expect(large.ratio).toBeLessThan(4.5);
+    });
+
+    it('should return the pair unmodified if it already passes', () => {
+      expect(suggestColorPair('#000', 'white')).toEqual({
+        foreground: '#000',
+        background: 'white',
+        ratio: 21,
+        deltaE: { foreground: 0, background: 0 },
+      });
+    });
+
+    it('should never suggest a failing pair', () => {
+      for (let i = 0; i < 50; i++) {
+        const pair = suggestColorPair(randomColor(), randomColor(), 'AAA', {
+          weight: Math.random(),
+        });
+        // Black on white always passes, so a pair can always be found.
+        expect(pair).not.toBe(null);
+        expect(isAAAContrast(pair!.foreground, pair!.background)).toBe(true);
+      }
+    });
+
+    it('should return null for an invalid color or weight', () => {
+      expect(suggestColorPair('nope', '#fff')).toBe(null);
+      expect(suggestColorPair('#777', '#777', 'AA', { weight: NaN })).toBe(
+        null
+      );
+    });
+  });
+
+  describe('suggestLinkColor', () => {
+    it('should find the nearest link color meeting both G183 ratios', () => {
+      // Too close to black text, so it lightens.
+      expect(suggestLinkColor('#0000EE', '#000000', '#FFFFFF')).toBe('#0038ff');
+      // Too light on white, so it darkens.
+      expect(suggestLinkColor('#ff0000', '#000000', '#FFFFFF')).toBe('#ee0000');
+      expect(suggestLinkColor('#2563EB', '#111827', '#FFFFFF')).toBe('#2563EB');
+    });
+
+    it('should never suggest a link that fails', () => {
+      for (let i = 0; i < 100; i++) {
+        const link = randomColor();
+        const suggestion = suggestLinkColor(link, '#000', '#fff');
+        expect(suggestion).not.toBe(null);
+        expect(getLinkContrastReport(suggestion!, '#000', '#fff')!.passes).toBe(
+          true
+        );
+      }
+    });
+
+    it('should return null when no link color can pass', () => {
+      // Link luminance would have to be both above 0.257 and below 0.183.
+      expect(suggestLinkColor('#2563EB', '#374151', '#FFFFFF')).toBe(null);
+      // The text itself fails on the background.
+      expect(suggestLinkColor('#000', '#777', '#FFFFFF')).toBe(null);
+      expect(suggestLinkColor('nope', '#000', '#FFFFFF')).toBe(null);
+      expect(suggestLinkColor('#00f', '#000', 'nope')).toBe(null);
+    });
+  });
+
   describe('WCAG 2.1 coverage', () => {
     describe('isNonTextContrast', () => {
       it('should apply the 3:1 threshold from SC 1.4.11', () => {
@@ -237,6 +679,39 @@ describe('accessible-colors', () => {
       });
     });
 
+    describe('getLinkContrastReport', () => {
+      it('should apply technique G183 for SC 1.4.1', () => {
+        expect(getLinkContrastReport('#2563EB', '#111827', '#FFFFFF')).toEqual({
+          linkToText: { ratio: 3.432, passes: true },
+          link: { ratio: 5.169, passes: true },
+          text: { ratio: 17.74, passes: true },
+          passes: true,
+        });
+        expect(
+          getLinkContrastReport('#0000EE', '#000000', '#FFFFFF')
+        ).toMatchObject({ linkToText: { passes: false }, passes: false });
+        expect(
+          getLinkContrastReport('#ff0000', '#000000', '#FFFFFF')
+        ).toMatchObject({ link: { passes: false }, passes: false });
+        expect(
+          getLinkContrastReport('#000000', '#777777', '#FFFFFF')
+        ).toMatchObject({ text: { ratio: 4.478, passes: false } });
+      });
+
+      it('should judge on the exact ratio', () => {
+        // #959595 is 2.9953:1 from white, just short of 3:1.
+        expect(
+          getLinkContrastReport('#ffffff', '#959595', '#000000')!.linkToText
+        ).toEqual({ ratio: 2.995, passes: false });
+      });
+
+      it('should return null for invalid input', () => {
+        expect(getLinkContrastReport('nope', '#000', '#fff')).toBe(null);
+        expect(getLinkContrastReport('#00f', 'nope', '#fff')).toBe(null);
+        expect(getLinkContrastReport('#00f', '#000', 'nope')).toBe(null);
+      });
+    });
+
     describe('getContrastLevel', () => {
       it('should report the highest level achieved per content type', () => {
         expect(getContrastLevel('#000000', '#ffffff')).toBe('AAA'); // 21
@@ -280,6 +755,148 @@ describe('accessible-colors', () => {
     });
   });
 
+  describe('getContrastMatrix', () => {
+    const PALETTE = ['#ffffff', '#767676', '#000000', 'rgb(59 130 246)'];
+
+    it('should agree with getContrastReport for every cell', () => {
+      const { colors, cells } = getContrastMatrix(PALETTE)!;
+      expect(colors).toEqual(PALETTE);
+      PALETTE.forEach((color1, i) => {
+        PALETTE.forEach((color2, j) => {
+          expect(cells[i]![j]).toEqual(
+            i === j ? null : getContrastReport(color1, color2)
+          );
+        });
+      });
+    });
+
+    it('should list each pair once', () => {
+      const { pairs } = getContrastMatrix(PALETTE)!;
+      expect(pairs.length).toBe(6);
+      expect(pairs[0]).toEqual({
+        color1: '#ffffff',
+        color2: '#767676',
+        report: getContrastReport('#ffffff', '#767676'),
+      });
+    });
+
+    it('should keep only passing or only failing pairs for a content type', () => {
+      const passing = getContrastMatrix(PALETTE, { only: 'passing' })!;
+      const failing = getContrastMatrix(PALETTE, { only: 'failing' })!;
+      expect(passing.pairs.every(({ report }) => report.normal.aa)).toBe(true);
+      expect(failing.pairs.every(({ report }) => !report.normal.aa)).toBe(true);
+      expect(passing.pairs.length + failing.pairs.length).toBe(6);
+      expect(passing.cells[0]![3]).toBe(null); // 3.678:1 fails body text
+
+      const large = getContrastMatrix(PALETTE, {
+        only: 'passing',
+        content: 'large',
+      })!;
+      expect(large.cells[0]![3]?.ratio).toBe(3.678);
+    });
+
+    it('should round to the requested precision', () => {
+      expect(
+        getContrastMatrix(PALETTE, { precision: 1 })!.cells[0]![1]?.ratio
+      ).toBe(4.5);
+    });
+
+    it('should handle an empty palette', () => {
+      expect(getContrastMatrix([])).toEqual({
+        colors: [],
+        cells: [],
+        pairs: [],
+      });
+    });
+
+    it('should return null if any color is invalid', () => {
+      expect(getContrastMatrix(['#ffffff', 'nope'])).toBe(null);
+      expect(getContrastMatrix(['#ffffff', '#00000080'])).toBe(null);
+    });
+  });
+
+  describe('wide-gamut colors', () => {
+    describe('getWideGamutLuminance', () => {
+      it('should equal getLuminance for colors sRGB can show', () => {
+        for (const color of ['#767676', 'rgb(255 0 0)', 'rebeccapurple']) {
+          const luminance = getLuminance(color)!;
+          expect(getWideGamutLuminance(color)).toEqual({
+            wideGamut: luminance,
+            srgb: luminance,
+          });
+        }
+      });
+
+      it('should measure the authored color and its fallback separately', () => {
+        // display-p3 green is lighter as authored than once mapped into sRGB.
+        const { wideGamut, srgb } = getWideGamutLuminance(
+          'color(display-p3 0 1 0)'
+        )!;
+        expect(wideGamut).toBeCloseTo(0.6918, 4);
+        expect(srgb).toBe(getLuminance('color(display-p3 0 1 0)'));
+        expect(wideGamut).toBeGreaterThan(srgb);
+      });
+
+      it('should clamp luminance beyond the range a display shows', () => {
+        expect(getWideGamutLuminance('color(xyz 2 2 2)')!.wideGamut).toBe(1);
+        expect(getWideGamutLuminance('color(xyz -1 -1 -1)')!.wideGamut).toBe(0);
+      });
+
+      it('should return null for invalid input', () => {
+        expect(getWideGamutLuminance('color(nope 1 0 0)')).toBe(null);
+      });
+    });
+
+    describe('getWideGamutContrastReport', () => {
+      it('should report the sRGB fallback exactly as getContrastReport does', () => {
+        const pairs = [
+          ['color(display-p3 0 0.56 0)', '#ffffff'],
+          ['oklch(0.9 0.4 145)', '#000000'],
+          ['#767676', '#ffffff'],
+        ] as const;
+        for (const [a, b] of pairs) {
+          expect(getWideGamutContrastReport(a, b)!.srgb).toEqual(
+            getContrastReport(a, b)
+          );
+        }
+      });
+
+      it('should agree for colors sRGB can show', () => {
+        for (let i = 0; i < 200; i++) {
+          const a = randomColor();
+          const b = randomColor();
+          const report = getWideGamutContrastReport(a, b)!;
+          expect(report.wideGamut).toEqual(report.srgb);
+          expect(report.agree).toBe(true);
+        }
+      });
+
+      it('should flag a pair that passes on one display but not the other', () => {
+        const report = getWideGamutContrastReport(
+          'color(display-p3 0 0.56 0)',
+          '#ffffff'
+        )!;
+        expect(report.srgb.normal.aa).toBe(true);
+        expect(report.wideGamut.normal.aa).toBe(false);
+        expect(report.agree).toBe(false);
+      });
+
+      it('should agree when only the ratio differs', () => {
+        const report = getWideGamutContrastReport(
+          'color(display-p3 0 1 0)',
+          '#000000'
+        )!;
+        expect(report.wideGamut.ratio).not.toBe(report.srgb.ratio);
+        expect(report.agree).toBe(true);
+      });
+
+      it('should return null for invalid input', () => {
+        expect(getWideGamutContrastReport('nope', '#ffffff')).toBe(null);
+        expect(getWideGamutContrastReport('#ffffff', 'nope')).toBe(null);
+      });
+    });
+  });
+
   describe('suggestion compliance', () => {
     // Regression: in 1.0.9 the binary search terminated using the 3dp-rounded
     // contrast, so it accepted a candidate at 4.4996 as meeting 4.5. Measured
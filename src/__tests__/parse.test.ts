@@ -1,6 +1,24 @@
-import { parseColor } from '../parse';
+import {
+  parseColor,
+  parseColorWithAlpha,
+  parseWideGamut,
+  registerColorParsers,
+} from '../parse';
+import { NAMED_COLORS, namedColors } from '../named';
+import { oklabToOklch, rgbToOklab } from '../oklch';
 import { getContrast, getLuminance, isAAContrast } from '..';
 
+registerColorParsers(namedColors);
+
+/** A copy of `parse.ts` with nothing registered. */
+const unregistered = () => {
+  let parse!: typeof import('../parse');
+  jest.isolateModules(() => {
+    parse = jest.requireActual<typeof import('../parse')>('../parse');
+  });
+  return parse;
+};
+
 const RED = { r: 255, g: 0, b: 0 };
 const WHITE = { r: 255, g: 255, b: 255 };
 const BLACK = { r: 0, g: 0, b: 0 };
@@ -126,17 +144,6 @@ describe('parseColor', () => {
   });
 
   describe('unsupported and invalid input', () => {
-    it('should return null for formats that are not yet supported', () => {
-      // Documented as unsupported — must return null, never a guess.
-      expect(parseColor('red')).toBe(null);
-      expect(parseColor('rebeccapurple')).toBe(null);
-      expect(parseColor('oklch(0.7 0.15 250)')).toBe(null);
-      expect(parseColor('lab(50% 40 59)')).toBe(null);
-      expect(parseColor('color(display-p3 1 0 0)')).toBe(null);
-      expect(parseColor('currentColor')).toBe(null);
-      expect(parseColor('transparent')).toBe(null);
-    });
-
     it('should return null for garbage', () => {
       for (const bad of ['', '   ', 'nope', '#gggggg', '()', 'rgb']) {
         expect(parseColor(bad)).toBe(null);
@@ -160,6 +167,313 @@ describe('parseColor', () => {
     });
   });
 
+  describe('registerColorParsers', () => {
+    it('should read every other format before any parser is registered', () => {
+      const { parseColor, parseColorWithAlpha } = unregistered();
+      expect(parseColor('#f00')).toEqual(RED);
+      expect(parseColor('rgb(255 0 0)')).toEqual(RED);
+      expect(parseColor('hsl(0 100% 50%)')).toEqual(RED);
+      expect(parseColor('oklch(62.8% 0.2577 29.23)')).toEqual(RED);
+      expect(parseColor('color(srgb 1 0 0)')).toEqual(RED);
+      expect(parseColorWithAlpha('transparent')).toEqual({ ...BLACK, a: 0 });
+      expect(parseColor('currentColor', { currentColor: '#f00' })).toEqual(RED);
+      expect(parseColor('red')).toBe(null);
+    });
+
+    it('should read the named colors once registered', () => {
+      const { parseColor, registerColorParsers } = unregistered();
+      registerColorParsers(namedColors);
+      registerColorParsers(namedColors);
+      expect(parseColor('red')).toEqual(RED);
+      expect(parseColor('constructor')).toBe(null);
+    });
+
+    it('should ask each parser in the order registered', () => {
+      const { parseColor, registerColorParsers } = unregistered();
+      const brand = jest.fn(() => ({ ...RED, a: 1 }));
+      const fallback = jest.fn(() => ({ ...WHITE, a: 1 }));
+      registerColorParsers(
+        { parseKeyword: () => null },
+        { parseKeyword: brand },
+        { parseKeyword: fallback }
+      );
+      expect(parseColor('Brand')).toEqual(RED);
+      expect(brand).toHaveBeenCalledWith('brand');
+      expect(fallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('oklab(), oklch(), lab() and lch()', () => {
+    // Reference values from the CSS Color 4 conversion sample code.
+    const REBECCAPURPLE = { r: 102, g: 51, b: 153 };
+
+    it('should parse each function to the sRGB color it names', () => {
+      expect(parseColor('oklch(62.8% 0.2577 29.23)')).toEqual(RED);
+      expect(parseColor('oklab(0.628 0.2249 0.1258)')).toEqual(RED);
+      expect(parseColor('lab(54.29% 80.80 69.89)')).toEqual(RED);
+      expect(parseColor('lch(54.29 106.84 40.85)')).toEqual(RED);
+      expect(parseColor('oklch(44.03% 0.1603 303.37)')).toEqual(REBECCAPURPLE);
+      expect(parseColor('lab(32.39 38.43 -47.69)')).toEqual(REBECCAPURPLE);
+      expect(parseColor('lch(32.39 61.24 308.86)')).toEqual(REBECCAPURPLE);
+    });
+
+    it('should map the lightness extremes to black and white', () => {
+      expect(parseColor('lab(100 0 0)')).toEqual(WHITE);
+      expect(parseColor('lab(0 0 0)')).toEqual(BLACK);
+      expect(parseColor('oklab(1 0 0)')).toEqual(WHITE);
+      expect(parseColor('oklch(0 0 0)')).toEqual(BLACK);
+      // Lightness clamps, as CSS requires.
+      expect(parseColor('oklch(150% 0 0)')).toEqual(WHITE);
+      expect(parseColor('lch(-10 0 0)')).toEqual(BLACK);
+    });
+
+    it('should accept percentages, angle units, none and alpha', () => {
+      expect(parseColor('oklch(0.5 0.1 90deg)')).toEqual(
+        parseColor('oklch(0.5 0.1 0.25turn)')
+      );
+      expect(parseColor('oklch(0.5 25% 90)')).toEqual(
+        parseColor('oklch(0.5 0.1 90)')
+      );
+      expect(parseColor('oklab(50% 25% -25%)')).toEqual(
+        parseColor('oklab(0.5 0.1 -0.1)')
+      );
+      expect(parseColor('lab(50% 40% -40%)')).toEqual(
+        parseColor('lab(50 50 -50)')
+      );
+      expect(parseColor('lch(50 50% 180)')).toEqual(
+        parseColor('lch(50 75 180)')
+      );
+      expect(parseColor('oklch(0.5 none none)')).toEqual(
+        parseColor('oklch(0.5 0 0)')
+      );
+      expect(parseColorWithAlpha('lab(50 40 59 / 50%)')?.a).toBe(0.5);
+      expect(parseColorWithAlpha('OKLCH(0.5 0.1 90 / 0.25)')?.a).toBe(0.25);
+    });
+
+    it('should gamut-map out-of-gamut colors rather than clip them', () => {
+      // oklch(0.9 0.4 145) is far outside sRGB. Clipping each channel would
+      // give #00ff00-ish green at OKLab L ~0.87; chroma reduction keeps the
+      // authored lightness, so luminance — and contrast — stays as written.
+      const mapped = parseColor('oklch(0.9 0.4 145)')!;
+      expect(rgbToOklab(mapped).L).toBeCloseTo(0.9, 2);
+      expect(oklabToOklch(rgbToOklab(mapped)).H * 360).toBeCloseTo(145, -1);
+    });
+
+    it('should reject the legacy comma syntax, which these never had', () => {
+      expect(parseColor('oklch(0.5, 0.1, 90)')).toBe(null);
+      expect(parseColor('lab(50, 40, 59)')).toBe(null);
+      expect(parseColor('oklab(0.5, 0.1, 0.1)')).toBe(null);
+      expect(parseColor('lch(50, 40, 59)')).toBe(null);
+    });
+
+    it('should reject malformed input', () => {
+      for (const bad of [
+        'oklch(0.5 0.1)',
+        'oklch(0.5 0.1 90 0.5 1)',
+        'oklch(0.5 0.1 x)',
+        'oklab(% 0 0)',
+        'lab(50 a 59)',
+        'lch(50 40 1foo)',
+        'lab(50 40 59 / x)',
+      ]) {
+        expect(parseColor(bad)).toBe(null);
+      }
+    });
+  });
+
+  describe('color()', () => {
+    it('should parse every predefined space to the sRGB color it names', () => {
+      // sRGB red expressed in each space, from the CSS Color 4 sample code.
+      for (const color of [
+        'color(srgb 1 0 0)',
+        'color(srgb-linear 1 0 0)',
+        'color(display-p3 0.9175 0.2003 0.1386)',
+        'color(a98-rgb 0.8586 0 0)',
+        'color(prophoto-rgb 0.7022 0.2757 0.1036)',
+        'color(rec2020 0.7920 0.2310 0.0738)',
+        'color(xyz 0.4124 0.2126 0.0193)',
+        'color(xyz-d65 0.4124 0.2126 0.0193)',
+        'color(xyz-d50 0.4360 0.2225 0.0139)',
+      ]) {
+        expect(parseColor(color)).toEqual(RED);
+      }
+    });
+
+    it('should map white and black in each space to sRGB white and black', () => {
+      for (const space of [
+        'display-p3',
+        'a98-rgb',
+        'prophoto-rgb',
+        'rec2020',
+      ]) {
+        expect(parseColor(`color(${space} 1 1 1)`)).toEqual(WHITE);
+        expect(parseColor(`color(${space} 0 0 0)`)).toEqual(BLACK);
+      }
+    });
+
+    it('should accept percentages, none, alpha and any case', () => {
+      expect(parseColor('color(srgb 100% 0% 0%)')).toEqual(RED);
+      expect(parseColor('color(srgb 1 none none)')).toEqual(RED);
+      expect(parseColorWithAlpha('color(display-p3 1 0 0 / 50%)')?.a).toBe(0.5);
+      expect(parseColor('COLOR(Display-P3 1 0 0)')).toEqual(
+        parseColor('color(display-p3 1 0 0)')
+      );
+    });
+
+    it('should gamut-map colors outside sRGB rather than clip them', () => {
+      // Clipping display-p3 red would give #ff0000, which is darker than the
+      // authored color; chroma reduction keeps its OKLab lightness.
+      const mapped = parseColor('color(display-p3 1 0 0)')!;
+      expect(mapped).toEqual({ r: 255, g: 52, b: 40 });
+      expect(parseColor('color(srgb 1.5 0 0)')).not.toEqual(RED);
+    });
+
+    it('should reject unknown spaces and malformed input', () => {
+      for (const bad of [
+        'color(display-p4 1 0 0)',
+        'color(constructor 1 0 0)',
+        'color(1 0 0)',
+        'color(srgb 1 0)',
+        'color(srgb 1 0 0 0.5 1)',
+        'color(srgb 1 x 0)',
+        'color(srgb 1 0 0 / x)',
+        'color(srgb, 1, 0, 0)',
+      ]) {
+        expect(parseColor(bad)).toBe(null);
+      }
+    });
+  });
+
+  describe('parseWideGamut', () => {
+    it('should return the authored color before gamut mapping', () => {
+      // display-p3 red in linear sRGB, per CSS Color 4.
+      const linear = parseWideGamut('color(display-p3 1 0 0)')!;
+      expect(linear.r).toBeCloseTo(1.2249, 4);
+      expect(linear.g).toBeCloseTo(-0.0421, 4);
+      expect(linear.b).toBeCloseTo(-0.0196, 4);
+
+      const grey = parseWideGamut(' oklch(0.5 0 0) ')!;
+      expect(grey.r).toBeCloseTo(0.125, 6);
+    });
+
+    it('should return null for formats that cannot leave sRGB', () => {
+      for (const color of ['#f00', 'rgb(255 0 0)', 'hsl(0 100% 50%)', 'red']) {
+        expect(parseWideGamut(color)).toBe(null);
+      }
+    });
+
+    it('should return null for invalid input', () => {
+      expect(parseWideGamut('color(nope 1 0 0)')).toBe(null);
+      expect(parseWideGamut('oklch(0.5, 0, 0)')).toBe(null);
+      expect(parseWideGamut(42 as unknown as string)).toBe(null);
+    });
+  });
+
+  describe('keywords', () => {
+    it('should parse the CSS named colors', () => {
+      expect(parseColor('red')).toEqual(RED);
+      expect(parseColor('white')).toEqual(WHITE);
+      expect(parseColor('rebeccapurple')).toEqual({ r: 102, g: 51, b: 153 });
+      expect(parseColor('grey')).toEqual(parseColor('gray'));
+      expect(parseColor('lightgoldenrodyellow')).toEqual({
+        r: 250,
+        g: 250,
+        b: 210,
+      });
+    });
+
+    it('should cover every CSS Color 4 named color', () => {
+      expect(Object.keys(NAMED_COLORS)).toHaveLength(148);
+      for (const name of Object.keys(NAMED_COLORS)) {
+        expect(parseColor(name)).not.toBe(null);
+      }
+    });
+
+    it('should be case insensitive and trim whitespace', () => {
+      expect(parseColor('RebeccaPurple')).toEqual(parseColor('rebeccapurple'));
+      expect(parseColor('  RED ')).toEqual(RED);
+    });
+
+    it('should treat transparent as fully translucent black', () => {
+      expect(parseColorWithAlpha('transparent')).toEqual({ ...BLACK, a: 0 });
+      expect(parseColorWithAlpha('TRANSPARENT')).toEqual({ ...BLACK, a: 0 });
+    });
+
+    it('should resolve currentColor against the given context', () => {
+      expect(parseColor('currentColor', { currentColor: 'red' })).toEqual(RED);
+      expect(
+        parseColorWithAlpha('currentcolor', { currentColor: '#ff000080' })
+      ).toEqual({ ...RED, a: 128 / 255 });
+    });
+
+    it('should return null for currentColor without a context', () => {
+      // What it resolves to is unknown, so it must not be guessed.
+      expect(parseColor('currentColor')).toBe(null);
+      expect(parseColor('currentColor', { currentColor: 'nope' })).toBe(null);
+      expect(parseColor('currentColor', { currentColor: 'currentColor' })).toBe(
+        null
+      );
+    });
+
+    it('should reject unknown names, including object properties', () => {
+      for (const bad of ['reddish', 'constructor', 'toString', '__proto__']) {
+        expect(parseColor(bad)).toBe(null);
+      }
+    });
+  });
+
+  describe('parseColorWithAlpha', () => {
+    it('should keep the alpha channel of every format', () => {
+      expect(parseColorWithAlpha('#ff000080')).toEqual({
+        ...RED,
+        a: 128 / 255,
+      });
+      expect(parseColorWithAlpha('#f008')).toEqual({ ...RED, a: 136 / 255 });
+      expect(parseColorWithAlpha('rgba(255, 0, 0, 0.5)')).toEqual({
+        ...RED,
+        a: 0.5,
+      });
+      expect(parseColorWithAlpha('rgb(255 0 0 / 25%)')).toEqual({
+        ...RED,
+        a: 0.25,
+      });
+      expect(parseColorWithAlpha('hsl(0 100% 50% / 0.75)')).toEqual({
+        ...RED,
+        a: 0.75,
+      });
+    });
+
+    it('should report opaque colors as alpha 1', () => {
+      expect(parseColorWithAlpha('#f00')).toEqual({ ...RED, a: 1 });
+      expect(parseColorWithAlpha('rgb(255 0 0)')).toEqual({ ...RED, a: 1 });
+      expect(parseColorWithAlpha('hsl(0, 100%, 50%)')).toEqual({
+        ...RED,
+        a: 1,
+      });
+    });
+
+    it('should clamp alpha to [0, 1]', () => {
+      expect(parseColorWithAlpha('rgb(255 0 0 / 2)')).toEqual({ ...RED, a: 1 });
+      expect(parseColorWithAlpha('rgb(255 0 0 / -50%)')).toEqual({
+        ...RED,
+        a: 0,
+      });
+    });
+
+    it('should reject a malformed alpha rather than ignore it', () => {
+      // Regression: the fourth argument used to be skipped entirely, so
+      // `rgba(255, 0, 0, nope)` parsed as opaque red.
+      expect(parseColorWithAlpha('rgba(255, 0, 0, nope)')).toBe(null);
+      expect(parseColor('rgba(255, 0, 0, nope)')).toBe(null);
+      expect(parseColor('hsl(0 100% 50% / x)')).toBe(null);
+    });
+
+    it('should return null for garbage', () => {
+      expect(parseColorWithAlpha('nope')).toBe(null);
+      expect(parseColorWithAlpha(42 as unknown as string)).toBe(null);
+    });
+  });
+
   describe('equivalence across formats', () => {
     it('should give identical results for the same color in any notation', () => {
       const forms = [
@@ -187,9 +501,14 @@ describe('parseColor', () => {
       expect(getContrast('rgb(255 255 255)', '#000')).toBe(21);
     });
 
+    it('should accept named colors everywhere a color is taken', () => {
+      expect(getContrast('black', 'white')).toBe(21);
+      expect(isAAContrast('rebeccapurple', 'white')).toBe(true);
+    });
+
     it('should still return null rather than a verdict for bad input', () => {
       expect(isAAContrast('rgb(a,b,c)', '#ffffff')).toBe(null);
-      expect(getContrast('oklch(0.7 0.15 250)', '#ffffff')).toBe(null);
+      expect(getContrast('oklch(0.7 0.15)', '#ffffff')).toBe(null);
     });
   });
 });
@@ -1,6 +1,7 @@
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import * as api from '..';
+import { runCli } from '../cli';
 
 /**
  * The README previously documented two sections with copy-pasted examples that
@@ -10,6 +11,9 @@ import * as api from '..';
  * These tests pin every numeric claim in the README to real output so the docs
  * cannot drift from the implementation again.
  */
+// The README's examples assume the setup its Installation section shows.
+api.registerColorParsers(api.namedColors);
+
 describe('README', () => {
   const readme = readFileSync(join(__dirname, '../../README.md'), 'utf8');
 
@@ -18,6 +22,9 @@ describe('README', () => {
       expect(api.getContrast('#00FF33', '#FFFFFF')).toBe(1.368);
       expect(api.getContrast('#00FF33', '#616161')).toBe(4.528);
       expect(api.getContrast('#00FF33', '#000000', 4)).toBe(15.3518);
+      expect(api.getContrast('#00FF33', '#000000', Infinity)).toBe(
+        15.351803282928357
+      );
       expect(api.getContrast('#00FF33', 'not-a-color')).toBe(null);
       expect(api.getContrast('#00FF33', '#617765')).toBe(3.541);
       expect(api.getContrast('#00FF33', '#613365')).toBe(7.075);
@@ -59,6 +66,195 @@ describe('README', () => {
       });
     });
 
+    it('should match the classifyText examples', () => {
+      expect(api.classifyText({ fontSize: 24 })).toBe('large');
+      expect(api.classifyText({ fontSize: 19, fontWeight: 600 })).toBe(
+        'normal'
+      );
+      expect(
+        api.classifyText({ fontSize: 1.25, unit: 'rem', fontWeight: 'bold' })
+      ).toBe('large');
+      expect(api.classifyText({ fontSize: 18.66, fontWeight: 700 })).toBe(
+        'normal'
+      );
+      expect(
+        api.isAAContrast('#949494', '#FFFFFF', {
+          fontSize: 19,
+          fontWeight: 600,
+        })
+      ).toBe(false);
+      expect(
+        api.getContrastLevel('#949494', '#FFFFFF', { fontSize: 18, unit: 'pt' })
+      ).toBe('AA');
+      expect(
+        api.suggestAAColorVariant('#949494', '#FFFFFF', { fontSize: 16 })
+      ).toBe('#767676');
+    });
+
+    it('should match the object input and checkPairs examples', () => {
+      expect(api.getContrast({ r: 0, g: 255, b: 51 }, '#616161')).toBe(4.528);
+      expect(
+        api.getContrast(
+          { luminance: api.getLuminance('#00FF33')! },
+          { luminance: 0 }
+        )
+      ).toBe(15.352);
+      expect(api.getLuminance({ r: 0, g: 255, b: 51 })!.toFixed(6)).toBe(
+        '0.717590'
+      );
+      const { ratios, passes } = api.checkPairs([
+        ['#767676', '#FFFFFF'],
+        ['#777777', '#FFFFFF'],
+        [{ r: 0, g: 0, b: 0 }, { luminance: 1 }],
+      ])!;
+      expect([...ratios]).toEqual([4.542, 4.478, 21]);
+      expect([...passes]).toEqual([1, 0, 1]);
+    });
+
+    it('should match the matrix examples', () => {
+      const grid = api.getContrastMatrix(['#FFFFFF', '#767676', '#000000'])!;
+      expect(grid.cells[0]![1]!.ratio).toBe(4.542);
+      expect(grid.cells[1]![1]).toBe(null);
+      expect(grid.pairs.length).toBe(3);
+    });
+
+    it('should match the translucent color examples', () => {
+      expect(api.getContrast('rgb(0 0 0 / 50%)', '#FFFFFF')).toBe(null);
+      expect(api.getContrast('rgb(0 0 0 / 50%)', '#FFFFFF', 3, '#FFFFFF')).toBe(
+        3.949
+      );
+      expect(
+        api.getContrastLevel('#FFFFFF', 'rgb(0 0 0 / 60%)', 'normal', '#FFFFFF')
+      ).toBe('AA');
+      expect(api.compositeOver('rgb(0 0 0 / 50%)', '#FFFFFF')).toBe('#808080');
+      expect(
+        api.compositeOver('rgb(255 0 0 / 50%)', 'rgb(0 0 255 / 50%)')
+      ).toBe('#aa0055bf');
+      expect(api.parseColorWithAlpha('rgb(255 0 0 / 50%)')).toEqual({
+        r: 255,
+        g: 0,
+        b: 0,
+        a: 0.5,
+      });
+      expect(api.parseColorWithAlpha('#ff0000')).toEqual({
+        r: 255,
+        g: 0,
+        b: 0,
+        a: 1,
+      });
+    });
+
+    it('should match the wide-gamut examples', () => {
+      const luminance = api.getWideGamutLuminance(
+        'color(display-p3 0 0.56 0)'
+      )!;
+      expect(luminance.wideGamut).toBeCloseTo(0.189, 3);
+      expect(luminance.srgb).toBeCloseTo(0.183, 3);
+      expect(api.getWideGamutLuminance('#FF0000')).toEqual({
+        wideGamut: 0.2126,
+        srgb: 0.2126,
+      });
+
+      const report = api.getWideGamutContrastReport(
+        'color(display-p3 0 0.56 0)',
+        '#FFFFFF'
+      )!;
+      expect(report.srgb.ratio).toBe(4.501);
+      expect(report.srgb.normal.aa).toBe(true);
+      expect(report.wideGamut.ratio).toBe(4.385);
+      expect(report.wideGamut.normal.aa).toBe(false);
+      expect(report.agree).toBe(false);
+    });
+
+    it('should match the color vision examples', () => {
+      expect(
+        api.getContrastReport('#FF0000', '#FFFFFF', 3, undefined, {
+          colorVision: [
+            'protanopia',
+            'deuteranopia',
+            'tritanopia',
+            'achromatopsia',
+          ],
+        })!.colorVision
+      ).toEqual({
+        protanopia: 6.389,
+        deuteranopia: 3.208,
+        tritanopia: 3.993,
+        achromatopsia: 4.004,
+      });
+      expect(api.simulateColorVision('#FF0000', 'deuteranopia')).toBe(
+        '#a39000'
+      );
+      expect(api.simulateColorVision('#FF0000', 'protanopia', 0.5)).toBe(
+        '#c84400'
+      );
+      expect(api.simulateColorVision('#FF0000', 'achromatopsia')).toBe(
+        '#7f7f7f'
+      );
+    });
+
+    it('should match the color function examples', () => {
+      expect(api.parseColor('oklch(0.7 0.15 250)')).toEqual({
+        r: 75,
+        g: 163,
+        b: 247,
+      });
+      expect(api.parseColor('color(display-p3 1 0 0)')).toEqual({
+        r: 255,
+        g: 52,
+        b: 40,
+      });
+      for (const color of [
+        'color(rec2020 0 100% 0 / 0.5)',
+        'color(srgb-linear 0.2 0.2 0.2)',
+        'oklch(70% 0.15 250deg / 50%)',
+        'oklab(0.63 0.22 0.13)',
+        'lab(54.29% 80.8 69.89)',
+        'lch(54.29 106.84 40.85)',
+      ]) {
+        expect(api.parseColor(color)).not.toBe(null);
+      }
+    });
+
+    it('should match the keyword examples', () => {
+      expect(api.parseColor('currentColor')).toBe(null);
+      expect(
+        api.parseColor('currentColor', { currentColor: 'rebeccapurple' })
+      ).toEqual({ r: 102, g: 51, b: 153 });
+      expect(api.parseColorWithAlpha('transparent')).toEqual({
+        r: 0,
+        g: 0,
+        b: 0,
+        a: 0,
+      });
+      for (const name of ['red', 'rebeccapurple', 'lightgoldenrodyellow']) {
+        expect(api.parseColor(name)).not.toBe(null);
+      }
+    });
+
+    it('should match the registration example', () => {
+      expect(api.getContrast('rebeccapurple', 'white')).toBe(8.405);
+    });
+
+    it('should match the APCA examples', () => {
+      expect(api.getApcaContrast('#888888', '#FFFFFF')).toBe(63.1);
+      expect(api.getApcaContrast('#FFFFFF', '#888888')).toBe(-68.5);
+      expect(api.getApcaContrast('#5a5a5a', '#000000')).toBe(-18.1);
+      expect(api.getContrast('#5a5a5a', '#000000')).toBe(3.045);
+      expect(api.isApcaContrast(71.6)).toBe(false);
+      expect(api.isApcaContrast(71.6, 'large')).toBe(true);
+      expect(api.getApcaMinimumLc(16)).toBe(90);
+      expect(api.getApcaMinimumLc(16, 700)).toBe(60);
+      expect(api.getApcaMinimumLc(12)).toBe(null);
+      expect(api.getApcaReport('#767676', '#FFFFFF')).toEqual({
+        lc: 71.6,
+        polarity: 'dark-on-light',
+        normal: { passes: false },
+        large: { passes: true },
+        nonText: { passes: true },
+      });
+    });
+
     it('should match the suggestion examples', () => {
       expect(api.suggestAAColorVariant('#00FF33', '#FFFFFF')).toBe('#008a17');
       expect(api.getContrast('#008a17', '#FFFFFF')).toBe(4.518);
@@ -74,6 +270,407 @@ describe('README', () => {
       );
     });
 
+    it('should match the scale examples', () => {
+      const scale = api.generateAccessibleScale('#3B82F6')!;
+      expect(scale[6]).toMatchObject({
+        step: 600,
+        color: '#2168da',
+        onLight: { ratio: 5.176, level: 'AA' },
+        onDark: { ratio: 4.057 },
+      });
+
+      const custom = api.generateAccessibleScale('#3B82F6', {
+        onLight: { ratio: 4.5, from: 500 },
+        onDark: { ratio: 3, to: 300 },
+        light: '#FAFAFA',
+        steps: [100, 300, 500, 700, 900],
+      })!;
+      expect(custom.map(({ step }) => step)).toEqual([100, 300, 500, 700, 900]);
+      for (const { step, onLight, onDark } of custom) {
+        if (step >= 500) expect(onLight.normal.aa).toBe(true);
+        if (step <= 300) expect(onDark.large.aa).toBe(true);
+      }
+      expect(
+        api.generateAccessibleScale('#3B82F6', {
+          onLight: { ratio: 7, from: 500 },
+          onDark: { ratio: 7, to: 500 },
+        })
+      ).toBe(null);
+    });
+
+    it('should match the checkFocusAppearance examples', () => {
+      const ring = { thickness: 2, width: 90, height: 30 };
+      expect(
+        api.checkFocusAppearance('#2563EB', '#FFFFFF', '#FFFFFF', ring)
+      ).toEqual({
+        change: { ratio: 5.169, passes: true },
+        area: { area: 496, required: 480, passes: true },
+        adjacent: { ratio: 5.169, passes: true },
+        passes: true,
+      });
+      expect(
+        api.checkFocusAppearance('#2563EB', '#FFFFFF', '#FFFFFF', {
+          ...ring,
+          offset: -2,
+        })!.area
+      ).toEqual({ area: 464, required: 480, passes: false });
+    });
+
+    it('should match the link examples', () => {
+      expect(
+        api.getLinkContrastReport('#2563EB', '#111827', '#FFFFFF')
+      ).toEqual({
+        linkToText: { ratio: 3.432, passes: true },
+        link: { ratio: 5.169, passes: true },
+        text: { ratio: 17.74, passes: true },
+        passes: true,
+      });
+      expect(
+        api.getLinkContrastReport('#0000EE', '#000000', '#FFFFFF')
+      ).toMatchObject({ linkToText: { ratio: 2.235 }, passes: false });
+      expect(api.suggestLinkColor('#0000EE', '#000000', '#FFFFFF')).toBe(
+        '#0038ff'
+      );
+      expect(api.suggestLinkColor('#FF0000', '#000000', '#FFFFFF')).toBe(
+        '#ee0000'
+      );
+    });
+
+    it('should match the gradient examples', () => {
+      const blues = 'linear-gradient(to right, #1E40AF, #3B82F6)';
+      expect(api.getGradientContrast('#FFFFFF', blues)).toEqual({
+        min: 3.678,
+        max: 8.722,
+        position: 1,
+        color: '#3b82f6',
+        passes: false,
+        suggestion: null,
+      });
+      expect(
+        api.getGradientContrast('#FFFFFF', blues, { content: 'large' })!.passes
+      ).toBe(true);
+      expect(
+        api.getGradientContrast(
+          '#FFFFFF',
+          'linear-gradient(to right, #F97316, #EC4899)'
+        )!.suggestion
+      ).toBe('#222222');
+      expect(
+        api.parseGradient(
+          'linear-gradient(in oklch, #000 10%, 30%, oklch(0.7 0.1 200))'
+        )
+      ).toEqual({
+        type: 'linear',
+        repeating: false,
+        space: 'oklch',
+        hue: 'shorter',
+        stops: [
+          { color: '#000', position: 0.1 },
+          { color: 'oklch(0.7 0.1 200)', position: 1 },
+        ],
+        hints: [0.3],
+      });
+    });
+
+    it('should match the image examples', () => {
+      const pixels = Uint8ClampedArray.of(30, 64, 175, 255, 59, 130, 246, 255);
+      expect(
+        api.getImageRegionContrast('#FFFFFF', pixels, 2, 1, {
+          x: 0,
+          y: 0,
+          width: 2,
+          height: 1,
+        })
+      ).toEqual({ min: 3.678, max: 8.722, percentile: 3.678, passing: 0.5 });
+      const region = { x: 0, y: 0, width: 2, height: 1 };
+      expect(api.getScrimOpacity('#FFFFFF', pixels, 2, 1, region)).toBe(0.12);
+      expect(
+        api.getScrimOpacity('#FFFFFF', pixels, 2, 1, region, {
+          scrim: '#1E3A8A',
+        })
+      ).toBe(0.22);
+    });
+
+    it('should match the deriveDarkTheme example', () => {
+      const dark = api.deriveDarkTheme({
+        colors: {
+          surface: '#FFFFFF',
+          text: '#111827',
+          muted: '#6B7280',
+          brand: '#2563EB',
+          onBrand: '#FFFFFF',
+        },
+        pairings: [
+          { foreground: 'text', background: 'surface' },
+          { foreground: 'muted', background: 'surface' },
+          { foreground: 'brand', background: 'surface' },
+          { foreground: 'onBrand', background: 'brand' },
+        ],
+      })!;
+      expect(dark.colors).toEqual({
+        surface: '#000000',
+        text: '#b0bbd0',
+        muted: '#6d7582',
+        brand: '#2c6bf3',
+        onBrand: '#000000',
+      });
+      expect(dark.adjustments[0]).toEqual({
+        foreground: 'muted',
+        background: 'surface',
+        content: 'normal',
+        required: 'AA',
+        mirrored: 2.8,
+        ratio: 4.517,
+        passes: true,
+      });
+    });
+
+    it('should match the validateTheme example', () => {
+      const checks = api.validateTheme(
+        {
+          text: '#111827',
+          textMuted: '#9CA3AF',
+          link: '#2563EB',
+          surface: '#FFFFFF',
+          card: '#F3F4F6',
+          border: '#D1D5DB',
+          focusRing: '#2563EB',
+        },
+        [
+          {
+            foreground: ['text', 'textMuted', 'link'],
+            background: ['surface', 'card'],
+          },
+          {
+            foreground: ['border', 'focusRing'],
+            background: 'surface',
+            content: 'non-text',
+          },
+        ]
+      )!;
+      expect(checks).toHaveLength(8);
+      expect(checks[0]).toMatchObject({
+        foreground: 'text',
+        background: 'surface',
+        content: 'normal',
+        required: 'AA',
+        level: 'AAA',
+        passes: true,
+        report: { ratio: 17.74 },
+      });
+      expect(checks[6]).toMatchObject({
+        foreground: 'border',
+        background: 'surface',
+        content: 'non-text',
+        required: 'AA',
+        level: 'fail',
+        passes: false,
+        report: { ratio: 1.474 },
+      });
+    });
+
+    it('should match the suggestColorVariant examples', () => {
+      expect(api.suggestColorVariant('#00FF33', '#FFFFFF', { ratio: 5 })).toBe(
+        '#008114'
+      );
+      expect(
+        api.suggestColorVariant('#CCCCCC', '#FFFFFF', { content: 'non-text' })
+      ).toBe('#949494');
+      expect(
+        api.suggestColorVariant('#00FF33', '#FFFFFF', {
+          level: 'AAA',
+          content: 'large',
+        })
+      ).toBe('#008a17');
+    });
+
+    it('should match the suggestColorVariantDetailed examples', () => {
+      const result = api.suggestColorVariantDetailed('#767676', '#767676')!;
+      expect(result.lighter).toMatchObject({
+        color: '#fefefe',
+        ratio: 4.504,
+        direction: 'lighter',
+      });
+      expect(result.lighter!.deltaE).toBeCloseTo(0.431, 3);
+      expect(result.darker).toMatchObject({
+        color: '#040404',
+        ratio: 4.514,
+        direction: 'darker',
+      });
+      expect(result.darker!.deltaE).toBeCloseTo(0.455, 3);
+      expect(result.chosen!.color).toBe('#fefefe');
+      expect(
+        api.suggestColorVariantDetailed('#767676', '#767676', {
+          prefer: 'darker',
+        })!.chosen!.color
+      ).toBe('#040404');
+      expect(
+        api.suggestColorVariantDetailed('#767676', '#767676', {
+          maxDeltaE: 0.1,
+        })
+      ).toEqual({ lighter: null, darker: null, chosen: null });
+    });
+
+    it('should match the suggestColorVariantForAll examples', () => {
+      expect(
+        api.suggestColorVariantForAll('#3B82F6', [
+          '#FFFFFF',
+          '#F3F4F6',
+          '#E5E7EB',
+        ])
+      ).toEqual({ color: '#1a62d4', conflicts: [] });
+      expect(
+        api.suggestColorVariantForAll('#3B82F6', ['#FFFFFF', '#000000'])
+      ).toEqual({ color: '#2c72e5', conflicts: [] });
+      expect(
+        api.suggestColorVariantForAll('#3B82F6', [
+          '#FFFFFF',
+          '#111827',
+          '#FAFAFA',
+        ])
+      ).toEqual({ color: null, conflicts: ['#111827', '#FFFFFF'] });
+    });
+
+    it('should match the suggestColorPair examples', () => {
+      const pair = api.suggestColorPair('#777777', '#777777')!;
+      expect(pair).toMatchObject({
+        foreground: '#999999',
+        background: '#323232',
+        ratio: 4.5,
+      });
+      expect(pair.deltaE.foreground).toBeCloseTo(0.114, 3);
+      expect(pair.deltaE.background).toBeCloseTo(0.252, 3);
+      expect(
+        api.suggestColorPair('#777777', '#777777', 'AA', { weight: 1 })
+      ).toMatchObject({
+        foreground: '#060606',
+        background: '#777777',
+        ratio: 4.525,
+      });
+    });
+
+    it('should match the auditDesignTokens example', () => {
+      const tokens = {
+        color: {
+          $type: 'color',
+          neutral: { white: { $value: '#ffffff' } },
+          text: { muted: { $value: '#949494' } },
+          surface: { $value: '{color.neutral.white}' },
+        },
+      };
+      const [body, icon] = api.auditDesignTokens(tokens, [
+        { foreground: 'color.text.muted', background: 'color.surface' },
+        {
+          foreground: 'color.text.muted',
+          background: 'color.surface',
+          content: 'non-text',
+        },
+      ])!;
+      expect(body).toMatchObject({
+        foreground: 'color.text.muted',
+        background: 'color.surface',
+        ratio: 3.033,
+        level: 'fail',
+        passes: false,
+        suggestion: '#767676',
+        error: null,
+      });
+      expect(icon).toMatchObject({
+        ratio: 3.033,
+        level: 'AA',
+        passes: true,
+        suggestion: null,
+        error: null,
+      });
+      expect(api.auditDesignTokens('{', [])).toBe(null);
+    });
+
+    it('should match the auditStylesheet example', () => {
+      const css = `
+.button { color: #949494; background-color: #fff; }
+.hero { color: var(--hero-text); background: #000; }
+`;
+      const [button, hero] = api.auditStylesheet(css);
+      expect(button).toMatchObject({
+        selector: '.button',
+        line: 2,
+        column: 1,
+        color: '#949494',
+        background: '#fff',
+        status: 'fail',
+        report: { ratio: 3.033, level: 'fail' },
+      });
+      expect(hero).toEqual({
+        selector: '.hero',
+        line: 3,
+        column: 1,
+        color: 'var(--hero-text)',
+        background: '#000',
+        status: 'unknown',
+        report: null,
+      });
+    });
+
+    it('should match the command line examples', () => {
+      const run = (...args: string[]) => {
+        const out: string[] = [];
+        const io = {
+          stdout: (text: string) => out.push(text),
+          stderr: () => undefined,
+          readFile: () => '',
+          random: Math.random,
+        };
+        return { code: runCli(args, io), stdout: out.join('\n') };
+      };
+
+      const check = run('check', '#777', '#fff');
+      expect(check.code).toBe(1);
+      expect(readme).toContain(
+        check.stdout.replace(/^/gm, '# ').replace(/ +$/gm, '')
+      );
+      expect(run('suggest', '#00FF33', '#FFFFFF', '--level', 'AAA')).toEqual({
+        code: 0,
+        stdout: '#00680e  7.032:1 on #FFFFFF',
+      });
+      expect(run('check', '#777', '#fff', '--exact').stdout).toContain(
+        `${api.getContrast('#777', '#fff', Infinity)}:1`
+      );
+    });
+
+    it('should match the randomColor example', () => {
+      expect(api.randomColor(() => 0.5)).toBe('#7fffff');
+    });
+
+    it('should match the preserveFormat examples', () => {
+      const preserveFormat = true;
+      expect(api.suggestAAColorVariant('hsl(210 80% 60%)', '#FFFFFF')).toBe(
+        '#2379c9'
+      );
+      expect(
+        api.suggestAAColorVariant('hsl(210 80% 60%)', '#FFFFFF', false, {
+          preserveFormat,
+        })
+      ).toBe('hsl(208.9 70.3% 46.3%)');
+      expect(
+        api.suggestAAColorVariant('hsl(210 80% 60% / 0.5)', '#FFFFFF', false, {
+          preserveFormat,
+        })
+      ).toBe(null);
+      expect(
+        api.getRandomAAColor('hsl(0 0% 100%)', false, { preserveFormat })
+      ).toMatch(/^hsl\(/);
+    });
+
+    it('should match the formatColor examples', () => {
+      const blue = { r: 30, g: 64, b: 175 };
+      expect(api.formatColor(blue, 'hsl')).toBe('hsl(225.9 70.7% 40.2%)');
+      expect(api.formatColor(blue, 'oklch')).toBe('oklch(42.4% 0.181 265.6)');
+      expect(api.formatColor({ ...blue, a: 0.5 }, 'hex8')).toBe('#1e40af80');
+      expect(
+        api.formatColor({ ...blue, a: 0.5 }, 'rgb', { legacy: true })
+      ).toBe('rgba(30, 64, 175, 0.5)');
+    });
+
     it('should match the conversion examples', () => {
       expect(api.hexToRgb('#aabbcc')).toEqual({ r: 170, g: 187, b: 204 });
       expect(api.hexToRgb('#abc')).toEqual({ r: 170, g: 187, b: 204 });
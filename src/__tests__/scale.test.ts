@@ -0,0 +1,104 @@
+import { oklabToOklch, rgbToOklab } from '../oklch';
+import {
+  generateAccessibleScale,
+  getContrastReport,
+  hexToRgb,
+  isContrasting,
+} from '..';
+
+const hue = (hex: string) => oklabToOklch(rgbToOklab(hexToRgb(hex)!)).H;
+
+describe('scale', () => {
+  describe('generateAccessibleScale', () => {
+    it('should generate the default steps, lightest first', () => {
+      const scale = generateAccessibleScale('#3b82f6')!;
+      expect(scale.map(({ step }) => step)).toEqual([
+        50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950,
+      ]);
+      for (let i = 1; i < scale.length; i++) {
+        expect(scale[i]!.onLight.ratio).toBeGreaterThan(
+          scale[i - 1]!.onLight.ratio
+        );
+      }
+    });
+
+    it('should meet the default guarantees for any hue', () => {
+      for (const base of ['#3b82f6', '#facc15', '#ef4444', '#10b981', '#777']) {
+        for (const { step, color } of generateAccessibleScale(base)!) {
+          if (step >= 600) expect(isContrasting(color, '#fff', 4.5)).toBe(true);
+          if (step <= 400) expect(isContrasting(color, '#000', 4.5)).toBe(true);
+        }
+      }
+    });
+
+    it('should hold the base hue across the scale', () => {
+      const base = hue('#ef4444');
+      for (const { step, color } of generateAccessibleScale('#ef4444')!) {
+        // The palest tints carry too little chroma for hue to be meaningful.
+        if (step < 100 || step > 900) continue;
+        expect(Math.abs(hue(color) - base)).toBeLessThan(0.03);
+      }
+    });
+
+    it('should carry each step’s report against both backgrounds', () => {
+      const scale = generateAccessibleScale('#3b82f6', { light: '#fafafa' })!;
+      for (const { color, onLight, onDark } of scale) {
+        expect(onLight).toEqual(getContrastReport(color, '#fafafa'));
+        expect(onDark).toEqual(getContrastReport(color, '#000000'));
+      }
+    });
+
+    it('should move a step only as far as its guarantee requires', () => {
+      const plain = generateAccessibleScale('#3b82f6', { onLight: null })!;
+      const moved = generateAccessibleScale('#3b82f6', {
+        onLight: { ratio: 4.5, from: 500 },
+      })!;
+      const before = plain.find(({ step }) => step === 500)!;
+      const after = moved.find(({ step }) => step === 500)!;
+      expect(before.onLight.normal.aa).toBe(false);
+      expect(after.onLight.normal.aa).toBe(true);
+      expect(after.onLight.ratio).toBeLessThan(4.6);
+      // Steps the guarantee did not need to move are untouched.
+      expect(moved.filter(({ step }) => step !== 500)).toEqual(
+        plain.filter(({ step }) => step !== 500)
+      );
+    });
+
+    it('should accept custom steps and no guarantees', () => {
+      const scale = generateAccessibleScale('#3b82f6', {
+        steps: [100, 500, 900],
+        onLight: null,
+        onDark: null,
+      })!;
+      expect(scale.map(({ color }) => color)).toEqual([
+        '#dce9ff',
+        '#3a81f5',
+        '#002a6e',
+      ]);
+    });
+
+    it('should return null when a guarantee cannot be met', () => {
+      // AAA against both white and black is impossible for any one color.
+      expect(
+        generateAccessibleScale('#3b82f6', {
+          onLight: { ratio: 7, from: 500 },
+          onDark: { ratio: 7, to: 500 },
+        })
+      ).toBe(null);
+      expect(
+        generateAccessibleScale('#3b82f6', {
+          onLight: { ratio: 22, from: 900 },
+        })
+      ).toBe(null);
+    });
+
+    it('should return null for invalid input', () => {
+      expect(generateAccessibleScale('nope')).toBe(null);
+      expect(generateAccessibleScale('#3b82f6', { light: 'nope' })).toBe(null);
+      expect(generateAccessibleScale('#3b82f6', { dark: 'nope' })).toBe(null);
+      expect(
+        generateAccessibleScale('#3b82f6', { light: 'rgb(255 255 255 / 50%)' })
+      ).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  auditStylesheet,
+  getContrastReport,
+  registerColorParsers,
+  namedColors,
+} from '..';
+
+registerColorParsers(namedColors);
+
+const selectors = (css: string) =>
+  auditStylesheet(css).map(({ selector }) => selector);
+
+describe('stylesheet', () => {
+  describe('auditStylesheet', () => {
+    it('should report a failing pair with its position and report', () => {
+      const css =
+        '.ok { color: #767676; background-color: #fff; }\n\n  .bad {\n    color: #949494;\n    background-color: white;\n  }';
+      expect(auditStylesheet(css)).toEqual([
+        {
+          selector: '.bad',
+          line: 3,
+          column: 3,
+          color: '#949494',
+          background: 'white',
+          status: 'fail',
+          report: getContrastReport('#949494', '#ffffff'),
+        },
+      ]);
+    });
+
+    it('should only check rules that declare both colors', () => {
+      expect(
+        selectors('.a { color: #eee } .b { background: #fff } .c { border: 0 }')
+      ).toEqual([]);
+    });
+
+    it('should accept a background shorthand that is a solid color', () => {
+      expect(selectors('a { color: #999; background: #fff }')).toEqual(['a']);
+      expect(
+        selectors('a { color: hsl(0 0% 60%); background: oklch(1 0 0) }')
+      ).toEqual(['a']);
+    });
+
+    it('should let the later of background and background-color win', () => {
+      // The shorthand resets background-color, here to an unknown image.
+      expect(
+        auditStylesheet(
+          'a { color: #000; background-color: #fff; background: url(a.png) }'
+        )[0]
+      ).toMatchObject({ background: 'url(a.png)', status: 'unknown' });
+      expect(
+        auditStylesheet(
+          'a { color: #000; background: url(a.png); background-color: #fff }'
+        )
+      ).toEqual([]);
+    });
+
+    it('should report unresolvable values as unknown, never as passing', () => {
+      const css = [
+        '.var { color: var(--fg); background: #fff }',
+        '.gradient { color: #000; background: linear-gradient(#fff, #eee) }',
+        '.glass { color: #000; background: rgba(255 255 255 / 50%) }',
+        '.clear { color: #000; background: transparent }',
+        '.faded { color: rgb(0 0 0 / 0.6); background: #fff }',
+        '.typo { color: #00000g; background: #fff }',
+      ].join('\n');
+      const findings = auditStylesheet(css);
+      expect(findings.map(({ selector }) => selector)).toEqual([
+        '.var',
+        '.gradient',
+        '.glass',
+        '.clear',
+        '.faded',
+        '.typo',
+      ]);
+      for (const finding of findings) {
+        expect(finding).toMatchObject({ status: 'unknown', report: null });
+      }
+    });
+
+    it('should resolve currentColor in the background to the rule color', () => {
+      expect(
+        auditStylesheet('a { color: #777; background: currentColor }')[0]
+      ).toMatchObject({ status: 'fail', report: { ratio: 1 } });
+    });
+
+    it('should strip !important and normalize the property name', () => {
+      expect(
+        auditStylesheet(
+          'a { COLOR: #999 !important; Background-Color: #fff ! important }'
+        )[0]
+      ).toMatchObject({ color: '#999', background: '#fff', status: 'fail' });
+    });
+
+    it('should find rules inside group at-rules and nesting', () => {
+      const css = `@media (prefers-color-scheme: dark) {
+  @supports (color: oklch(0 0 0)) {
+    .dark,
+    .night { color: #555; background-color: black }
+  }
+}
+.card { color: #fff; background: #000; & .meta { color: #aaa; background: #fff } }`;
+      const findings = auditStylesheet(css);
+      expect(
+        findings.map(({ selector, line, column }) => [selector, line, column])
+      ).toEqual([
+        ['.dark, .night', 3, 5],
+        ['& .meta', 7, 40],
+      ]);
+    });
+
+    it('should place every rule of a large stylesheet', () => {
+      // Each rule is on its own line, indented by its index modulo 4.
+      const count = 5000;
+      const css = Array.from(
+        { length: count },
+        (_, i) => `${' '.repeat(i % 4)}.r${i} { color: #eee; background: #fff }`
+      ).join('\n');
+      const findings = auditStylesheet(css);
+      expect(findings).toHaveLength(count);
+      findings.forEach(({ selector, line, column }, i) => {
+        expect([selector, line, column]).toEqual([
+          `.r${i}`,
+          i + 1,
+          (i % 4) + 1,
+        ]);
+      });
+    });
+
+    it('should skip keyframes and descriptor blocks', () => {
+      expect(
+        selectors(
+          '@keyframes pulse { from { color: #eee; background: #fff } }\n' +
+            '@-webkit-keyframes pulse { to { color: #eee; background: #fff } }\n' +
+            '@font-face { font-family: x; src: url(x.woff) }'
+        )
+      ).toEqual([]);
+    });
+
+    it('should ignore comments and braces or semicolons in strings and urls', () => {
+      const css = `/* .old { color: #eee; background: #fff } */
+.icon::before { content: "}{;"; color: #eee; background: url(a;b.png); }
+.label /* note */ { color: #eee; background: #fff; content: '\\'}' }`;
+      expect(
+        auditStylesheet(css).map(({ selector, line }) => [selector, line])
+      ).toEqual([
+        ['.icon::before', 2],
+        ['.label', 3],
+      ]);
+      expect(auditStylesheet(css)[0]!.status).toBe('unknown');
+    });
+
+    it('should tolerate unterminated comments, strings and blocks', () => {
+      // As in a browser, blocks still open at the end are closed there.
+      expect(selectors('a { color: #eee; background: #fff; /* open')).toEqual([
+        'a',
+      ]);
+      expect(
+        selectors('a { color: #eee; background: #fff }}} b { content: "')
+      ).toEqual(['a']);
+      expect(selectors('')).toEqual([]);
+    });
+
+    it('should judge pairs by content type and level', () => {
+      const css = 'a { color: #777; background: #fff }';
+      expect(auditStylesheet(css)).toHaveLength(1);
+      expect(auditStylesheet(css, { content: 'large' })).toEqual([]);
+      expect(
+        auditStylesheet(css, { content: 'large', level: 'AAA' })
+      ).toHaveLength(1);
+
+      const grey = 'a { color: #767676; background: #fff }';
+      expect(auditStylesheet(grey, { level: 'AAA' })).toHaveLength(1);
+      expect(auditStylesheet(grey, { content: 'large', level: 'AAA' })).toEqual(
+        []
+      );
+    });
+  });
+});
@@ -0,0 +1,414 @@
+import { oklabToOklch, rgbToOklab } from '../oklch';
+import {
+  deriveDarkTheme,
+  getContrastLevel,
+  getContrastReport,
+  parseColor,
+  validateTheme,
+} from '..';
+
+const light = {
+  colors: {
+    surface: '#FFFFFF',
+    card: '#F3F4F6',
+    text: '#111827',
+    muted: '#6B7280',
+    brand: '#2563EB',
+    onBrand: '#FFFFFF',
+  },
+  pairings: [
+    { foreground: 'text', background: 'surface' },
+    { foreground: 'text', background: 'card' },
+    { foreground: 'muted', background: 'surface' },
+    // 4.393:1, so it owes nothing in the dark theme.
+    { foreground: 'muted', background: 'card' },
+    { foreground: 'brand', background: 'surface' },
+    { foreground: 'onBrand', background: 'brand' },
+  ],
+};
+
+describe('theme', () => {
+  describe('deriveDarkTheme', () => {
+    it('should mirror lightness and keep every level the light theme met', () => {
+      const dark = deriveDarkTheme(light)!;
+      expect(dark.colors).toEqual({
+        surface: '#000000',
+        card: '#000000',
+        text: '#b0bbd0',
+        muted: '#6d7582',
+        brand: '#2c6bf3',
+        onBrand: '#000000',
+      });
+      for (const { foreground, background } of light.pairings) {
+        const before = getContrastLevel(
+          light.colors[foreground as keyof typeof light.colors],
+          light.colors[background as keyof typeof light.colors]
+        );
+        const after = getContrastLevel(
+          dark.colors[foreground]!,
+          dark.colors[background]!
+        );
+        if (before !== 'fail') {
+          expect(after === 'AAA' || after === before).toBe(true);
+        }
+      }
+    });
+
+    it('should report each pairing it had to adjust', () => {
+      expect(deriveDarkTheme(light)!.adjustments).toEqual([
+        {
+          foreground: 'muted',
+          background: 'surface',
+          content: 'normal',
+          required: 'AA',
+          mirrored: 2.8,
+          ratio: 4.517,
+          passes: true,
+        },
+        {
+          foreground: 'brand',
+          background: 'surface',
+          content: 'normal',
+          required: 'AA',
+          mirrored: 2.698,
+          ratio: 4.504,
+          passes: true,
+        },
+        // onBrand was not moved, but brand beneath it was.
+        {
+          foreground: 'onBrand',
+          background: 'brand',
+          content: 'normal',
+          required: 'AA',
+          mirrored: 2.698,
+          ratio: 4.504,
+          passes: true,
+        },
+      ]);
+    });
+
+    it('should move a foreground only as far as each pairing requires', () => {
+      // AAA on the page but only AA on the panel: it owes 7:1 on the page
+      // alone, not on the panel as well.
+      const dark = deriveDarkTheme({
+        colors: { page: '#fff', panel: '#d8d8d8', ink: '#444' },
+        pairings: [
+          { foreground: 'ink', background: 'page' },
+          { foreground: 'ink', background: 'panel' },
+        ],
+      })!;
+      expect(dark.colors).toEqual({
+        page: '#000000',
+        panel: '#050505',
+        ink: '#959594',
+      });
+      expect(
+        dark.adjustments.map(({ background, required, ratio }) => [
+          background,
+          required,
+          ratio,
+        ])
+      ).toEqual([
+        ['page', 'AAA', 7.005],
+        ['panel', 'AA', 6.798],
+      ]);
+    });
+
+    it('should keep hue while mirroring lightness', () => {
+      const { colors } = deriveDarkTheme({
+        colors: { page: 'rgb(250 250 250)', ink: 'hsl(220 40% 20%)' },
+        pairings: [{ foreground: 'ink', background: 'page' }],
+      })!;
+      expect(colors).toEqual({ page: '#000000', ink: '#8fa0c1' });
+      const hue = (color: string) =>
+        oklabToOklch(rgbToOklab(parseColor(color)!)).H;
+      expect(hue(colors.ink!)).toBeCloseTo(hue('hsl(220 40% 20%)'), 2);
+    });
+
+    it('should judge pairings by their content type', () => {
+      expect(
+        deriveDarkTheme({
+          colors: { page: '#fff', icon: 'oklch(0.6 0.2 30)' },
+          pairings: [
+            { foreground: 'icon', background: 'page', content: 'non-text' },
+          ],
+        })
+      ).toEqual({
+        colors: { page: '#000000', icon: '#a62c1f' },
+        adjustments: [
+          {
+            foreground: 'icon',
+            background: 'page',
+            content: 'non-text',
+            required: 'AA',
+            mirrored: 2.107,
+            ratio: 3.001,
+            passes: true,
+          },
+        ],
+      });
+    });
+
+    it('should leave a theme that mirrors cleanly alone', () => {
+      expect(
+        deriveDarkTheme({
+          colors: { page: '#fff', panel: '#767676', ink: '#000' },
+          pairings: [
+            { foreground: 'ink', background: 'page' },
+            { foreground: 'ink', background: 'panel' },
+          ],
+        })
+      ).toEqual({
+        colors: { page: '#000000', panel: '#515151', ink: '#ffffff' },
+        adjustments: [],
+      });
+      expect(deriveDarkTheme({ colors: {}, pairings: [] })).toEqual({
+        colors: {},
+        adjustments: [],
+      });
+    });
+
+    it('should return null for an invalid color or an unknown role', () => {
+      expect(deriveDarkTheme({ colors: { page: 'nope' }, pairings: [] })).toBe(
+        null
+      );
+      expect(
+        deriveDarkTheme({
+          colors: { page: '#fff', ink: '#000' },
+          pairings: [{ foreground: 'ink', background: 'constructor' }],
+        })
+      ).toBe(null);
+    });
+
+    it('should return null for a translucent color', () => {
+      expect(
+        deriveDarkTheme({
+          colors: { page: '#fff', ink: 'rgba(0,0,0,0.1)' },
+          pairings: [{ foreground: 'ink', background: 'page' }],
+        })
+      ).toBe(null);
+    });
+
+    it('should move a background when no foreground variant can fix a pairing', () => {
+      // White text is AAA on the black page and AA on the grey panel. In the
+      // mirror it must stay dark to keep AAA on the now white page, so the
+      // panel lightens instead.
+      const { colors, adjustments } = deriveDarkTheme({
+        colors: { page: '#000', panel: '#767676', ink: '#fff' },
+        pairings: [
+          { foreground: 'ink', background: 'page' },
+          { foreground: 'ink', background: 'panel' },
+        ],
+      })!;
+      expect(colors).toEqual({
+        page: '#ffffff',
+        panel: '#757474',
+        ink: '#000000',
+      });
+      expect(adjustments).toEqual([
+        {
+          foreground: 'ink',
+          background: 'panel',
+          content: 'normal',
+          required: 'AA',
+          mirrored: 2.646,
+          ratio: 4.507,
+          passes: true,
+        },
+      ]);
+    });
+
+    it('should keep the pairings of a role it has moved', () => {
+      // Text on the panel meets AAA once mirrored. Lightening the panel to
+      // reach 3:1 on the page would take it to 1.08:1, so the page darkens.
+      const dark = deriveDarkTheme({
+        colors: { page: '#992dd4', panel: '#28fc41', text: '#3b1a38' },
+        pairings: [
+          { foreground: 'panel', background: 'page', content: 'non-text' },
+          { foreground: 'text', background: 'panel' },
+        ],
+      })!;
+      expect(dark).toEqual({
+        colors: { page: '#8d23c5', panel: '#000d00', text: '#bf96ba' },
+        adjustments: [
+          {
+            foreground: 'panel',
+            background: 'page',
+            content: 'non-text',
+            required: 'AA',
+            mirrored: 2.408,
+            ratio: 3.006,
+            passes: true,
+          },
+        ],
+      });
+      expect(getContrastLevel(dark.colors.text!, dark.colors.panel!)).toBe(
+        'AAA'
+      );
+    });
+
+    it('should move a background no text color can reach AAA on', () => {
+      const dark = deriveDarkTheme({
+        colors: { page: '#a72abe', panel: '#280ca9', text: '#1ff27b' },
+        pairings: [
+          { foreground: 'panel', background: 'page', content: 'non-text' },
+          { foreground: 'text', background: 'panel' },
+        ],
+      })!;
+      // The mirrored text is as dark as its hue goes, 5.607:1 on the panel.
+      expect(dark).toEqual({
+        colors: { page: '#88009e', panel: '#8094ff', text: '#001104' },
+        adjustments: [
+          {
+            foreground: 'text',
+            background: 'panel',
+            content: 'normal',
+            required: 'AAA',
+            mirrored: 5.607,
+            ratio: 7.022,
+            passes: true,
+          },
+        ],
+      });
+    });
+
+    it('should invert luminance where moving one role at a time stalls', () => {
+      // Each role owes a ratio to the other two, and none has room to move
+      // alone in the mirror.
+      const dark = deriveDarkTheme({
+        colors: { light: '#c8f498', dark: '#322c2c', red: '#f23225' },
+        pairings: [
+          { foreground: 'dark', background: 'light' },
+          { foreground: 'red', background: 'dark', content: 'large' },
+          { foreground: 'light', background: 'red', content: 'large' },
+        ],
+      })!;
+      expect(dark.colors).toEqual({
+        light: '#132200',
+        dark: '#d7cfcf',
+        red: '#da0402',
+      });
+      expect(
+        dark.adjustments.map(({ mirrored, ratio, passes }) => [
+          mirrored,
+          ratio,
+          passes,
+        ])
+      ).toEqual([
+        [7.704, 10.916, true],
+        [4.074, 3.429, true],
+        [1.891, 3.183, true],
+      ]);
+    });
+  });
+
+  describe('validateTheme', () => {
+    const theme = {
+      text: '#111827',
+      textMuted: '#9CA3AF',
+      link: '#2563EB',
+      heading: '#6B7280',
+      surface: '#FFFFFF',
+      card: '#F3F4F6',
+      border: '#D1D5DB',
+      focusRing: '#2563EB',
+    };
+    const verdicts = (checks: ReturnType<typeof validateTheme>) =>
+      checks!.map(({ foreground, background, level, passes }) => [
+        `${foreground} on ${background}`,
+        level,
+        passes,
+      ]);
+
+    it('should check every foreground role on every background role', () => {
+      expect(
+        verdicts(
+          validateTheme(theme, [
+            {
+              foreground: ['text', 'textMuted', 'link'],
+              background: ['surface', 'card'],
+            },
+          ])
+        )
+      ).toEqual([
+        ['text on surface', 'AAA', true],
+        ['text on card', 'AAA', true],
+        ['textMuted on surface', 'fail', false],
+        ['textMuted on card', 'fail', false],
+        ['link on surface', 'AA', true],
+        ['link on card', 'AA', true],
+      ]);
+    });
+
+    it('should report each pair in full', () => {
+      expect(
+        validateTheme(theme, [{ foreground: 'link', background: 'card' }])
+      ).toEqual([
+        {
+          foreground: 'link',
+          background: 'card',
+          content: 'normal',
+          required: 'AA',
+          level: 'AA',
+          passes: true,
+          report: getContrastReport('#2563EB', '#F3F4F6'),
+        },
+      ]);
+    });
+
+    it('should judge each rule by its content type and level', () => {
+      expect(
+        verdicts(
+          validateTheme(theme, [
+            { foreground: 'heading', background: 'surface', content: 'large' },
+            {
+              foreground: ['border', 'focusRing'],
+              background: 'surface',
+              content: 'non-text',
+            },
+            { foreground: 'link', background: 'surface', level: 'AAA' },
+            {
+              foreground: 'focusRing',
+              background: 'surface',
+              content: 'non-text',
+              level: 'AAA',
+            },
+          ])
+        )
+      ).toEqual([
+        ['heading on surface', 'AAA', true],
+        ['border on surface', 'fail', false],
+        ['focusRing on surface', 'AA', true],
+        ['link on surface', 'AA', false],
+        ['focusRing on surface', 'AA', false],
+      ]);
+    });
+
+    it('should return null for an invalid color or an unknown role', () => {
+      expect(
+        validateTheme({ ...theme, text: 'nope' }, [
+          { foreground: 'text', background: 'surface' },
+        ])
+      ).toBe(null);
+      expect(
+        validateTheme(theme, [
+          { foreground: 'text', background: ['surface', 'toString'] },
+        ])
+      ).toBe(null);
+      expect(validateTheme(theme, [])).toEqual([]);
+    });
+
+    it('should return null for a translucent role rather than pass it', () => {
+      const rules = [{ foreground: 'text', background: 'surface' }];
+      expect(
+        validateTheme({ text: 'rgba(0,0,0,0.1)', surface: '#fff' }, rules)
+      ).toBe(null);
+      expect(validateTheme({ text: '#000', surface: '#ffffff80' }, rules)).toBe(
+        null
+      );
+      expect(
+        validateTheme({ text: '#000', surface: 'transparent' }, rules)
+      ).toBe(null);
+    });
+  });
+});
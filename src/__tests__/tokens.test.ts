@@ -0,0 +1,189 @@
+import { auditDesignTokens, getContrastLevel } from '..';
+
+const document = {
+  color: {
+    $type: 'color',
+    brand: { primary: { $value: '#0b7bc0' } },
+    neutral: {
+      white: { $value: '#ffffff' },
+      grey: { $value: '#767676' },
+      muted: { $value: '#949494' },
+    },
+    text: {
+      primary: { $value: '{color.brand.primary}' },
+      link: { $value: '{color.text.primary}' },
+    },
+    surface: { $value: '{color.neutral.white}' },
+    p3: { $value: { colorSpace: 'display-p3', hex: '#767676' } },
+  },
+  spacing: { small: { $type: 'dimension', $value: '4px' } },
+  loop: {
+    $type: 'color',
+    a: { $value: '{loop.b}' },
+    b: { $value: '{loop.a}' },
+  },
+  broken: { $type: 'color', $value: 'not-a-color' },
+  overlay: {
+    $type: 'color',
+    scrim: { $value: '#00000010' },
+    tint: { $value: 'rgb(0 0 0 / 50%)' },
+    glass: { $value: { colorSpace: 'srgb', hex: '#000000', alpha: 0.5 } },
+    faint: { $value: { colorSpace: 'srgb', hex: '#00000080', alpha: 1 } },
+  },
+};
+
+describe('tokens', () => {
+  describe('auditDesignTokens', () => {
+    it('should resolve aliases through groups and chains', () => {
+      const [result] = auditDesignTokens(document, [
+        { foreground: 'color.text.link', background: 'color.surface' },
+      ])!;
+      expect(result).toEqual({
+        foreground: 'color.text.link',
+        background: 'color.surface',
+        content: 'normal',
+        required: 'AA',
+        foregroundColor: '#0b7bc0',
+        backgroundColor: '#ffffff',
+        ratio: 4.557,
+        level: 'AA',
+        passes: true,
+        suggestion: null,
+        error: null,
+      });
+    });
+
+    it('should accept JSON text and braced pairing paths', () => {
+      const [result] = auditDesignTokens(JSON.stringify(document), [
+        { foreground: '{color.neutral.muted}', background: '{color.surface}' },
+      ])!;
+      expect(result!.foreground).toBe('color.neutral.muted');
+      expect(result!.background).toBe('color.surface');
+      expect(result!.ratio).toBe(3.033);
+    });
+
+    it('should suggest a passing foreground for a failing pair', () => {
+      const [normal, aaa] = auditDesignTokens(document, [
+        { foreground: 'color.neutral.muted', background: 'color.surface' },
+        {
+          foreground: 'color.neutral.grey',
+          background: 'color.surface',
+          level: 'AAA',
+        },
+      ])!;
+      expect(normal).toMatchObject({ level: 'fail', passes: false });
+      expect(normal!.suggestion).toBe('#767676');
+      expect(aaa).toMatchObject({ level: 'AA', passes: false });
+      expect(getContrastLevel(aaa!.suggestion!, '#ffffff')).toBe('AAA');
+    });
+
+    it('should judge each pair by its content type', () => {
+      const [large, nonText] = auditDesignTokens(document, [
+        {
+          foreground: 'color.neutral.grey',
+          background: 'color.surface',
+          content: 'large',
+          level: 'AAA',
+        },
+        {
+          foreground: 'color.neutral.muted',
+          background: 'color.surface',
+          content: 'non-text',
+        },
+      ])!;
+      expect(large).toMatchObject({ content: 'large', passes: true });
+      expect(nonText).toMatchObject({ content: 'non-text', passes: true });
+    });
+
+    it('should never pass or fix non-text content required at AAA', () => {
+      const [result] = auditDesignTokens(document, [
+        {
+          foreground: 'color.neutral.muted',
+          background: 'color.surface',
+          content: 'non-text',
+          level: 'AAA',
+        },
+      ])!;
+      expect(result).toMatchObject({
+        level: 'AA',
+        passes: false,
+        suggestion: null,
+      });
+    });
+
+    it('should read the hex fallback of an object value', () => {
+      const [result] = auditDesignTokens(document, [
+        { foreground: 'color.p3', background: 'color.surface' },
+      ])!;
+      expect(result!.foregroundColor).toBe('#767676');
+      expect(result!.passes).toBe(true);
+    });
+
+    it('should fail unresolvable tokens with an error naming the path', () => {
+      const results = auditDesignTokens(document, [
+        { foreground: 'color.text.missing', background: 'color.surface' },
+        { foreground: 'color.text.primary', background: 'spacing.small' },
+        { foreground: 'loop.a', background: 'color.surface' },
+        { foreground: 'broken', background: 'color.surface' },
+      ])!;
+      expect(results.map(({ error }) => error)).toEqual([
+        'Token "color.text.missing" does not exist',
+        'Token "spacing.small" is not a color',
+        'Alias cycle: loop.a → loop.b → loop.a',
+        'Token "broken" has no valid color value',
+      ]);
+      for (const result of results) {
+        expect(result).toMatchObject({
+          ratio: null,
+          level: null,
+          passes: false,
+          suggestion: null,
+        });
+      }
+      expect(results[1]!.foregroundColor).toBe('#0b7bc0');
+    });
+
+    it('should never pass a translucent token', () => {
+      const paths = ['scrim', 'tint', 'glass', 'faint'];
+      const results = auditDesignTokens(
+        document,
+        paths.map((path) => ({
+          foreground: `overlay.${path}`,
+          background: 'color.surface',
+        }))
+      )!;
+      results.forEach((result, i) => {
+        expect(result).toMatchObject({
+          ratio: null,
+          level: null,
+          passes: false,
+          suggestion: null,
+          error: `Token "overlay.${paths[i]}" is translucent; its contrast depends on what is beneath it`,
+        });
+      });
+    });
+
+    it('should treat a token without any $type as a possible color', () => {
+      const [result] = auditDesignTokens(
+        { fg: { $value: '#000' }, bg: { $value: '#fff' } },
+        [{ foreground: 'fg', background: 'bg' }]
+      )!;
+      expect(result!.level).toBe('AAA');
+    });
+
+    it('should not mistake group properties for tokens', () => {
+      const [result] = auditDesignTokens(
+        { $description: { $value: '#000' }, bg: { $value: '#fff' } },
+        [{ foreground: '$description', background: 'bg' }]
+      )!;
+      expect(result!.error).toBe('Token "$description" does not exist');
+    });
+
+    it('should return null for a document that is not a JSON object', () => {
+      expect(auditDesignTokens('{', [])).toBe(null);
+      expect(auditDesignTokens('[]', [])).toBe(null);
+      expect(auditDesignTokens('"#fff"', [])).toBe(null);
+      expect(auditDesignTokens([], [])).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  classifyText,
+  getContrastLevel,
+  getRandomAAAColor,
+  getRandomAAColor,
+  isAAAContrast,
+  isAAContrast,
+  suggestAAAColorVariant,
+  suggestAAColorVariant,
+  suggestColorPair,
+  suggestColorVariant,
+  suggestColorVariantDetailed,
+  suggestColorVariantForAll,
+  type TextStyle,
+} from '..';
+
+// 3.033:1 on white: enough for large text at AA, not for normal text.
+const grey = '#949494';
+
+describe('typography', () => {
+  describe('classifyText', () => {
+    it('should count 18pt text as large at any weight', () => {
+      expect(classifyText({ fontSize: 24 })).toBe('large');
+      expect(classifyText({ fontSize: 23.9 })).toBe('normal');
+      expect(classifyText({ fontSize: 18, unit: 'pt' })).toBe('large');
+      expect(classifyText({ fontSize: 1.5, unit: 'rem' })).toBe('large');
+      expect(classifyText({ fontSize: 32, fontWeight: 100 })).toBe('large');
+    });
+
+    it('should count 14pt text as large only when bold', () => {
+      expect(classifyText({ fontSize: 14, unit: 'pt', fontWeight: 700 })).toBe(
+        'large'
+      );
+      expect(classifyText({ fontSize: 56 / 3, fontWeight: 'bold' })).toBe(
+        'large'
+      );
+      expect(classifyText({ fontSize: 20, fontWeight: 900 })).toBe('large');
+      // Semibold is not bold.
+      expect(classifyText({ fontSize: 19, fontWeight: 600 })).toBe('normal');
+      expect(classifyText({ fontSize: 19, fontWeight: 'normal' })).toBe(
+        'normal'
+      );
+      expect(classifyText({ fontSize: 13, unit: 'pt', fontWeight: 700 })).toBe(
+        'normal'
+      );
+    });
+
+    it('should compare exact sizes, not the rounded 18.66px', () => {
+      expect(classifyText({ fontSize: 18.66, fontWeight: 'bold' })).toBe(
+        'normal'
+      );
+      expect(classifyText({ fontSize: 18.67, fontWeight: 'bold' })).toBe(
+        'large'
+      );
+    });
+
+    it('should resolve rem against the root font size', () => {
+      const rem = { fontSize: 1.5, unit: 'rem' } as const;
+      expect(classifyText({ ...rem, rootFontSize: 12 })).toBe('normal');
+      expect(classifyText({ ...rem, rootFontSize: 12, fontWeight: 700 })).toBe(
+        'normal'
+      );
+      expect(classifyText({ ...rem, rootFontSize: 13, fontWeight: 700 })).toBe(
+        'large'
+      );
+      // The root font size only applies to rem.
+      expect(classifyText({ fontSize: 24, rootFontSize: 0 })).toBe('large');
+    });
+
+    it('should return null for a size or weight it cannot classify', () => {
+      for (const style of [
+        { fontSize: 0 },
+        { fontSize: -24 },
+        { fontSize: NaN },
+        { fontSize: Infinity },
+        { fontSize: 1.5, unit: 'rem', rootFontSize: 0 },
+        { fontSize: 1.5, unit: 'em' },
+        { fontSize: 24, fontWeight: 0 },
+        { fontSize: 24, fontWeight: 1001 },
+        { fontSize: 24, fontWeight: NaN },
+        { fontSize: 24, fontWeight: 'bolder' },
+      ]) {
+        expect(classifyText(style as TextStyle)).toBe(null);
+      }
+    });
+  });
+
+  describe('in place of a large flag or content type', () => {
+    const heading = { fontSize: 1.5, unit: 'rem' } as const;
+    const body = { fontSize: 16 };
+    const invalid = { fontSize: 0 };
+
+    it('should judge contrast by the text style', () => {
+      expect(isAAContrast(grey, '#fff', heading)).toBe(true);
+      expect(isAAContrast(grey, '#fff', body)).toBe(false);
+      expect(isAAContrast(grey, '#fff', invalid)).toBe(null);
+      expect(isAAAContrast('#767676', '#fff', heading)).toBe(true);
+      expect(isAAAContrast('#767676', '#fff', body)).toBe(false);
+      expect(isAAAContrast('#767676', '#fff', invalid)).toBe(null);
+      expect(getContrastLevel(grey, '#fff', heading)).toBe('AA');
+      expect(getContrastLevel(grey, '#fff', body)).toBe('fail');
+      expect(getContrastLevel(grey, '#fff', invalid)).toBe(null);
+    });
+
+    it('should suggest as the matching large flag would', () => {
+      for (const [style, large] of [
+        [heading, true],
+        [body, false],
+      ] as const) {
+        expect(suggestAAColorVariant(grey, '#fff', style)).toBe(
+          suggestAAColorVariant(grey, '#fff', large)
+        );
+        expect(suggestAAAColorVariant(grey, '#fff', style)).toBe(
+          suggestAAAColorVariant(grey, '#fff', large)
+        );
+        expect(suggestColorVariant(grey, '#fff', { content: style })).toBe(
+          suggestColorVariant(grey, '#fff', {
+            content: large ? 'large' : 'normal',
+          })
+        );
+        expect(
+          suggestColorVariantDetailed(grey, '#fff', { large: style })
+        ).toEqual(suggestColorVariantDetailed(grey, '#fff', { large }));
+        expect(
+          suggestColorVariantForAll(grey, ['#fff', '#eee'], 'AA', style)
+        ).toEqual(
+          suggestColorVariantForAll(grey, ['#fff', '#eee'], 'AA', large)
+        );
+        expect(suggestColorPair(grey, '#eee', 'AA', { large: style })).toEqual(
+          suggestColorPair(grey, '#eee', 'AA', { large })
+        );
+      }
+      expect(suggestAAColorVariant(grey, '#fff', heading)).toBe(grey);
+    });
+
+    it('should generate colors for the text style', () => {
+      const aa = getRandomAAColor('#fff', heading)!;
+      expect(isAAContrast(aa, '#fff', true)).toBe(true);
+      const aaa = getRandomAAAColor('#fff', heading)!;
+      expect(isAAAContrast(aaa, '#fff', true)).toBe(true);
+      expect(getRandomAAColor('#fff', invalid)).toBe(null);
+      expect(getRandomAAAColor('#fff', invalid)).toBe(null);
+    });
+
+    it('should suggest nothing for a style it cannot classify', () => {
+      expect(suggestAAColorVariant(grey, '#fff', invalid)).toBe(null);
+      expect(suggestAAAColorVariant(grey, '#fff', invalid)).toBe(null);
+      expect(suggestColorVariant(grey, '#fff', { content: invalid })).toBe(
+        null
+      );
+      expect(
+        suggestColorVariantDetailed(grey, '#fff', { large: invalid })
+      ).toBe(null);
+      expect(suggestColorVariantForAll(grey, ['#fff'], 'AA', invalid)).toBe(
+        null
+      );
+      expect(suggestColorPair(grey, '#fff', 'AA', { large: invalid })).toBe(
+        null
+      );
+    });
+  });
+});
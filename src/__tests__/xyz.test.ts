@@ -0,0 +1,98 @@
+import {
+  colorSpaceToXyz,
+  d50ToD65,
+  labToXyzD50,
+  lchToLab,
+  xyzToLinearRgb,
+} from '../xyz';
+
+describe('xyz', () => {
+  describe('labToXyzD50', () => {
+    it('should map lab white to the D50 white point', () => {
+      const { x, y, z } = labToXyzD50({ L: 100, a: 0, b: 0 });
+      expect(x).toBeCloseTo(0.9643, 4);
+      expect(y).toBeCloseTo(1, 10);
+      expect(z).toBeCloseTo(0.8251, 4);
+    });
+
+    it('should use the linear segment near black', () => {
+      // Below L = 8 the cube-root curve gives way to a straight line.
+      const { y } = labToXyzD50({ L: 4, a: 0, b: 0 });
+      expect(y).toBeCloseTo(4 / (24389 / 27), 10);
+      const { x, z } = labToXyzD50({ L: 1, a: -10, b: 10 });
+      expect(x).toBeLessThan(0.01);
+      expect(z).toBeLessThan(0.01);
+    });
+  });
+
+  describe('lchToLab', () => {
+    it('should convert polar coordinates with hue as a turn fraction', () => {
+      const lab = lchToLab(50, 40, 0.25);
+      expect(lab.L).toBe(50);
+      expect(lab.a).toBeCloseTo(0, 10);
+      expect(lab.b).toBeCloseTo(40, 10);
+    });
+  });
+
+  describe('d50ToD65 / xyzToLinearRgb', () => {
+    it('should carry the D50 white to sRGB white', () => {
+      const rgb = xyzToLinearRgb(d50ToD65(labToXyzD50({ L: 100, a: 0, b: 0 })));
+      expect(rgb.r).toBeCloseTo(1, 3);
+      expect(rgb.g).toBeCloseTo(1, 3);
+      expect(rgb.b).toBeCloseTo(1, 3);
+    });
+
+    it('should leave out-of-gamut channels unclamped', () => {
+      const rgb = xyzToLinearRgb(
+        d50ToD65(labToXyzD50({ L: 50, a: 0, b: -150 }))
+      );
+      expect(rgb.b).toBeGreaterThan(1);
+      expect(Math.min(rgb.r, rgb.g)).toBeLessThan(0);
+    });
+  });
+
+  describe('colorSpaceToXyz', () => {
+    const SPACES = [
+      'srgb',
+      'srgb-linear',
+      'display-p3',
+      'a98-rgb',
+      'prophoto-rgb',
+      'rec2020',
+    ];
+
+    it('should carry white in every space to the D65 white point', () => {
+      for (const space of SPACES) {
+        const { x, y, z } = colorSpaceToXyz(space, [1, 1, 1])!;
+        expect(x).toBeCloseTo(0.9505, 3);
+        expect(y).toBeCloseTo(1, 3);
+        expect(z).toBeCloseTo(1.089, 3);
+      }
+    });
+
+    it('should extend each transfer function to negative values by symmetry', () => {
+      for (const space of SPACES) {
+        for (const c of [0.01, 0.5]) {
+          const positive = colorSpaceToXyz(space, [c, c, c])!;
+          const negative = colorSpaceToXyz(space, [-c, -c, -c])!;
+          expect(negative.y).toBeCloseTo(-positive.y, 10);
+        }
+      }
+    });
+
+    it('should use the linear toe of ProPhoto and Rec. 2020', () => {
+      expect(
+        colorSpaceToXyz('prophoto-rgb', [0.01, 0.01, 0.01])!.y
+      ).toBeCloseTo(0.01 / 16, 3);
+      expect(colorSpaceToXyz('rec2020', [0.01, 0.01, 0.01])!.y).toBeCloseTo(
+        0.01 / 4.5,
+        6
+      );
+    });
+
+    it('should return null for an unknown space', () => {
+      expect(colorSpaceToXyz('display-p4', [1, 1, 1])).toBe(null);
+      expect(colorSpaceToXyz('constructor', [1, 1, 1])).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { parseOpaque } from './composite';
+import type { ContentType, RGB } from './types';
+
+/**
+ * APCA — the Accessible Perceptual Contrast Algorithm proposed for WCAG 3 —
+ * following the APCA-W3 0.0.98G-4g reference constants
+ * (https://github.com/Myndex/apca-w3).
+ *
+ * WCAG 2's ratio treats contrast as symmetric and is known to overrate pairs
+ * near black: dark grey on black can pass AA while being barely legible. APCA
+ * models the two polarities separately and returns a signed lightness contrast
+ * (Lc) — positive for dark text on a light background, negative for light text
+ * on a dark one — roughly spanning -108 to 106.
+ *
+ * APCA is still a draft and not a conformance requirement; it is offered
+ * alongside the WCAG 2 ratio, never instead of it. Its luminance model is its
+ * own: a plain 2.4 exponent with no linear segment and slightly different
+ * coefficients. It deliberately shares nothing with `getLuminance`, so neither
+ * calculation can drift by a change made for the other.
+ */
+
+/** Estimated screen luminance per APCA — not WCAG relative luminance. */
+const screenLuminance = ({ r, g, b }: RGB): number =>
+  0.2126729 * (r / 255) ** 2.4 +
+  0.7151522 * (g / 255) ** 2.4 +
+  0.072175 * (b / 255) ** 2.4;
+
+/** Soft-clamp near-black luminance, modelling flare on a real display. */
+const softClampBlack = (y: number): number =>
+  y > 0.022 ? y : y + (0.022 - y) ** 1.414;
+
+/**
+ * The exact, unrounded Lc for a text/background pair. Threshold comparisons
+ * use this rather than the rounded value, for the same reason `rawContrast`
+ * exists for the WCAG 2 ratio.
+ *
+ * Polarity is returned alongside rather than read off the sign, because a
+ * low-contrast pair clips to exactly 0 in either direction.
+ *
+ * @returns the signed Lc and polarity, or `null` if either color is invalid
+ *   or translucent — APCA, like WCAG 2, is defined between opaque colors
+ */
+const rawApcaContrast = (
+  text: string,
+  background: string
+): { lc: number; polarity: ApcaReport['polarity'] } | null => {
+  const textRgb = parseOpaque(text);
+  const backgroundRgb = parseOpaque(background);
+  if (textRgb === null || backgroundRgb === null) {
+    return null;
+  }
+
+  const yText = softClampBlack(screenLuminance(textRgb));
+  const yBackground = softClampBlack(screenLuminance(backgroundRgb));
+  const polarity = yBackground > yText ? 'dark-on-light' : 'light-on-dark';
+  if (Math.abs(yBackground - yText) < 0.0005) {
+    return { lc: 0, polarity };
+  }
+
+  // Normal polarity (dark on light) and reverse polarity (light on dark) use
+  // different exponents, which is the asymmetry WCAG 2 cannot express.
+  if (polarity === 'dark-on-light') {
+    const sapc = (yBackground ** 0.56 - yText ** 0.57) * 1.14;
+    return { lc: sapc < 0.1 ? 0 : (sapc - 0.027) * 100, polarity };
+  }
+  const sapc = (yBackground ** 0.65 - yText ** 0.62) * 1.14;
+  return { lc: sapc > -0.1 ? 0 : (sapc + 0.027) * 100, polarity };
+};
+
+/**
+ * getApcaContrast returns the APCA lightness contrast (Lc) of text on a
+ * background. Unlike the WCAG 2 ratio the result depends on which color is the
+ * text, so the argument order matters.
+ *
+ * @link https://github.com/Myndex/apca-w3
+ * @param text - the text (foreground) color
+ * @param background - the background color
+ * @param precision - number of decimal places to round to
+ * @returns the signed Lc — positive for dark text on light, negative for light
+ *   text on dark — or `null` if either color is invalid or translucent
+ */
+export const getApcaContrast = (
+  text: string,
+  background: string,
+  precision = 1
+): number | null => {
+  const raw = rawApcaContrast(text, background);
+  if (raw === null) {
+    return null;
+  }
+  return Math.round(raw.lc * 10 ** precision) / 10 ** precision;
+};
+
+/**
+ * Minimum |Lc| by content type, per the APCA Bronze simple mode.
+ *
+ * - `normal` — Lc 75, body text at 18px/400 or 14px/700 and above. Smaller
+ *   body text needs Lc 90; use `getApcaMinimumLc` for an exact lookup.
+ * - `large` — Lc 60, content text at 24px/400 or 16px/700 and above.
+ * - `non-text` — Lc 45, pictograms and outline icons with fine detail.
+ */
+const APCA_THRESHOLDS: Record<ContentType, number> = {
+  normal: 75,
+  large: 60,
+  'non-text': 45,
+};
+
+/**
+ * isApcaContrast returns true if an Lc value is acceptable for the given kind
+ * of content. Polarity does not matter here: the sign of `lc` is ignored.
+ *
+ * @param lc - an Lc value, as returned by `getApcaContrast`
+ * @param content - the kind of content the pair is used for, defaulting to `normal`
+ * @returns true if `|lc|` meets the Bronze minimum for `content`
+ */
+export const isApcaContrast = (
+  lc: number,
+  content: ContentType = 'normal'
+): boolean => {
+  return Math.abs(lc) >= APCA_THRESHOLDS[content];
+};
+
+/**
+ * The smallest font size, in px, at which each weight may use an Lc level,
+ * per the APCA Bronze simple mode. Weights between listed entries use the
+ * next lighter entry, which always asks for the larger size.
+ */
+const FONT_TIERS: Array<
+  [lc: number, sizes: Array<[weight: number, px: number]>]
+> = [
+  [
+    45,
+    [
+      [400, 36],
+      [700, 24],
+    ],
+  ],
+  [
+    60,
+    [
+      [200, 48],
+      [300, 36],
+      [400, 24],
+      [500, 21],
+      [600, 18],
+      [700, 16],
+    ],
+  ],
+  [
+    75,
+    [
+      [300, 24],
+      [400, 18],
+      [500, 16],
+      [700, 14],
+    ],
+  ],
+  [
+    90,
+    [
+      [300, 18],
+      [400, 14],
+    ],
+  ],
+];
+
+/**
+ * getApcaMinimumLc looks up the minimum |Lc| APCA asks of text at a given font
+ * size and weight, per the Bronze simple mode.
+ *
+ * @link https://readtech.org/ARC/tests/bronze-simple-mode/
+ * @param fontSize - the font size in CSS px
+ * @param fontWeight - the numeric font weight, defaulting to 400
+ * @returns the minimum Lc, or `null` if the text is too small or thin to be
+ *   acceptable for fluent reading at any contrast
+ */
+export const getApcaMinimumLc = (
+  fontSize: number,
+  fontWeight = 400
+): number | null => {
+  for (const [lc, sizes] of FONT_TIERS) {
+    let required: number | null = null;
+    for (const [weight, px] of sizes) {
+      if (fontWeight >= weight) required = px;
+    }
+    if (required !== null && fontSize >= required) {
+      return lc;
+    }
+  }
+  return null;
+};
+
+/**
+ * An APCA verdict for a text/background pair, shaped like `ContrastReport` so
+ * dashboards can show both standards side by side.
+ */
+export interface ApcaReport {
+  /** The signed Lc, rounded to the requested precision. */
+  lc: number;
+  /** Which way round the pair is; APCA scores the two differently. */
+  polarity: 'dark-on-light' | 'light-on-dark';
+  /** Body text — Lc 75. */
+  normal: { passes: boolean };
+  /** Large content text — Lc 60. */
+  large: { passes: boolean };
+  /** Fine-detail pictograms and icons — Lc 45. */
+  nonText: { passes: boolean };
+}
+
+/**
+ * getApcaReport returns every APCA Bronze verdict for a text/background pair
+ * in one call.
+ *
+ * @param text - the text (foreground) color
+ * @param background - the background color
+ * @param precision - number of decimal places to round the reported Lc to
+ * @returns a full report, or `null` if either color is invalid or translucent
+ */
+export const getApcaReport = (
+  text: string,
+  background: string,
+  precision = 1
+): ApcaReport | null => {
+  const raw = rawApcaContrast(text, background);
+  if (raw === null) {
+    return null;
+  }
+  const { lc, polarity } = raw;
+
+  return {
+    lc: Math.round(lc * 10 ** precision) / 10 ** precision,
+    polarity,
+    normal: { passes: isApcaContrast(lc, 'normal') },
+    large: { passes: isApcaContrast(lc, 'large') },
+    nonText: { passes: isApcaContrast(lc, 'non-text') },
+  };
+};
@@ -0,0 +1,67 @@
+import { luminanceOf, luminanceRatio } from './contrast';
+import type { ColorInput } from './types';
+
+/**
+ * Batch contrast: many pairs checked in one call, for audits that measure a
+ * whole page's worth of element pairs — hundreds of thousands at a time.
+ *
+ * Results are written into typed arrays, one slot per pair, rather than into
+ * an object per pair, so a batch allocates its two result arrays and little
+ * else. A page repeats the same few colors across most of its elements, so
+ * each distinct color string is parsed once per batch, however many pairs it
+ * appears in.
+ */
+
+/** The outcome of `checkPairs`, one slot per pair, in the order given. */
+export interface PairChecks {
+  /**
+   * Each pair's contrast ratio, rounded to 3 places, or `NaN` where either
+   * color is invalid.
+   */
+  ratios: Float64Array;
+  /**
+   * `1` where the pair meets the required ratio, judged on the exact ratio, and
+   * `0` where it falls short or either color is invalid.
+   */
+  passes: Uint8Array;
+}
+
+/**
+ * measurePairs checks every pair against one ratio — the implementation behind
+ * `checkPairs`.
+ *
+ * @param pairs - the pairs to check, each two colors in either order
+ * @param threshold - the ratio each pair must meet
+ * @returns each pair's ratio and verdict
+ */
+export const measurePairs = (
+  pairs: ReadonlyArray<readonly [ColorInput, ColorInput]>,
+  threshold: number
+): PairChecks => {
+  const ratios = new Float64Array(pairs.length);
+  const passes = new Uint8Array(pairs.length);
+
+  const parsed = new Map<string, number | null>();
+  const luminance = (color: ColorInput) => {
+    if (typeof color !== 'string') return luminanceOf(color);
+    let value = parsed.get(color);
+    if (value === undefined) {
+      value = luminanceOf(color);
+      parsed.set(color, value);
+    }
+    return value;
+  };
+
+  pairs.forEach(([color1, color2], i) => {
+    const luminance1 = luminance(color1);
+    const luminance2 = luminance(color2);
+    if (luminance1 === null || luminance2 === null) {
+      ratios[i] = NaN;
+      return;
+    }
+    const exact = luminanceRatio(luminance1, luminance2);
+    ratios[i] = Math.round(exact * 1000) / 1000;
+    passes[i] = exact >= threshold ? 1 : 0;
+  });
+  return { ratios, passes };
+};
@@ -0,0 +1,386 @@
+import { readFileSync } from 'node:fs';
+import {
+  auditDesignTokens,
+  getContrast,
+  getContrastLevel,
+  getContrastReport,
+  getRandomAAAColor,
+  getRandomAAColor,
+  namedColors,
+  parseColor,
+  parseColorWithAlpha,
+  randomColor,
+  registerColorParsers,
+  suggestColorVariant,
+  type TokenPairing,
+} from '.';
+import type { ContentType } from './types';
+
+/**
+ * The `accessible-colors` command: the checks teams kept wrapping in one-off
+ * Node scripts, with exit codes a CI job can gate on.
+ *
+ * Exit codes are 0 when every requirement is met, 1 when a contrast
+ * requirement fails (or nothing can meet it), and 2 for invalid usage or
+ * input. An unreadable color is never reported as a pass.
+ *
+ * Everything here goes through the public API, so the command agrees with the
+ * library by construction. It is built to `dist/cli.js` on its own and never
+ * enters the library bundle.
+ */
+
+/** Where the command reads and writes, injectable for tests. */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readFile: (path: string) => string;
+  random: () => number;
+}
+
+const nodeIO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+  readFile: (path) => readFileSync(path, 'utf8'),
+  random: Math.random,
+};
+
+export const USAGE = `Usage: accessible-colors <command> [options]
+
+Commands:
+  check <foreground> <background>      Report WCAG 2.1 contrast for a pair
+  suggest <change> <keep>              Nearest variant of <change> that passes
+  random [background]                  A random color, passing if given one
+  audit <tokens.json> [pairings.json]  Check design token pairings
+
+Options:
+  --content <normal|large|non-text>    Content type (default: normal)
+  --level <AA|AAA>                     Required level (default: AA)
+  --exact                              Print the unrounded contrast ratio
+  --backdrop <color>                   check: the opaque color beneath a
+                                       translucent pair
+  --json                               Print JSON instead of text
+  -h, --help                           Show this help
+
+Colors may be in any format parseColor accepts, and named colors. Translucent
+colors are measured only against a --backdrop, and are otherwise invalid input.
+Audit pairings come from pairings.json, or from
+$extensions["accessible-colors"].pairings in the token file. Exit codes: 0 pass, 1 contrast failure, 2 invalid usage or input.`;
+
+interface Options {
+  content: ContentType;
+  level: 'AA' | 'AAA';
+  exact: boolean;
+  json: boolean;
+  backdrop?: string;
+}
+
+const CONTENT_TYPES: readonly string[] = ['normal', 'large', 'non-text'];
+const LEVELS: readonly string[] = ['AA', 'AAA'];
+
+/** Thrown for anything that should exit 2 with a message. */
+class UsageError extends Error {}
+
+/** Split arguments into positionals and options, rejecting unknown flags. */
+const parseArgs = (
+  args: readonly string[]
+): { positionals: string[]; options: Options } => {
+  const positionals: string[] = [];
+  const options: Options = {
+    content: 'normal',
+    level: 'AA',
+    exact: false,
+    json: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+    const [flag, inline] = arg.startsWith('--') ? arg.split(/=(.*)/) : [arg];
+    const value = () => {
+      const next = inline ?? args[++i];
+      if (next === undefined) throw new UsageError(`${flag} needs a value`);
+      return next;
+    };
+
+    if (flag === '--json') options.json = true;
+    else if (flag === '--exact') options.exact = true;
+    else if (flag === '--backdrop') options.backdrop = value();
+    else if (flag === '--content') {
+      const content = value();
+      if (!CONTENT_TYPES.includes(content)) {
+        throw new UsageError(`Unknown content type "${content}"`);
+      }
+      options.content = content as ContentType;
+    } else if (flag === '--level') {
+      const level = value().toUpperCase();
+      if (!LEVELS.includes(level)) {
+        throw new UsageError(`Unknown level "${level}"`);
+      }
+      options.level = level as Options['level'];
+    } else if (arg.startsWith('-') && arg !== '-') {
+      throw new UsageError(`Unknown option "${arg}"`);
+    } else positionals.push(arg);
+  }
+
+  if (options.content === 'non-text' && options.level === 'AAA') {
+    throw new UsageError('Non-text content has no AAA level');
+  }
+  return { positionals, options };
+};
+
+/** Exactly the named positionals, or a usage error naming them. */
+const take = (positionals: string[], names: string[]): string[] => {
+  if (positionals.length !== names.length) {
+    throw new UsageError(`Expected ${names.map((n) => `<${n}>`).join(' ')}`);
+  }
+  return positionals;
+};
+
+/** The ratio as requested: exact, or rounded as everywhere else. */
+const ratioOf = (a: string, b: string, { exact, backdrop }: Options) =>
+  getContrast(a, b, exact ? Infinity : 3, backdrop) as number;
+
+/**
+ * Reject a translucent color. Its contrast depends on what is beneath it, and
+ * measuring it opaque would pass text that is barely visible.
+ */
+const requireOpaque = (...colors: string[]) => {
+  for (const color of colors) {
+    if ((parseColorWithAlpha(color)?.a ?? 1) < 1) {
+      throw new UsageError(
+        `Translucent color ${color}: give the opaque color beneath it with --backdrop`
+      );
+    }
+  }
+};
+
+const verdict = (pass: boolean) => (pass ? 'pass' : 'fail');
+
+/** Find a passing random color at the options' level. */
+const atLevel = (options: Options) => ({
+  large: options.content !== 'normal',
+  random: options.level === 'AAA' ? getRandomAAAColor : getRandomAAColor,
+});
+
+const check = (positionals: string[], options: Options, io: CliIO): number => {
+  const [foreground, background] = take(positionals, [
+    'foreground',
+    'background',
+  ]) as [string, string];
+  const { content, level: required, backdrop } = options;
+  if (backdrop === undefined) {
+    requireOpaque(foreground, background);
+  }
+  const report = getContrastReport(foreground, background, 3, backdrop);
+  if (report === null) {
+    throw new UsageError(
+      backdrop === undefined
+        ? `Invalid color pair: ${foreground} on ${background}`
+        : `Invalid color pair: ${foreground} on ${background} on ${backdrop}`
+    );
+  }
+  const level = getContrastLevel(foreground, background, content, backdrop);
+  const pass = level === 'AAA' || level === required;
+  const ratio = ratioOf(foreground, background, options);
+
+  if (options.json) {
+    // `level` is for the requested content type, not always body text.
+    io.stdout(
+      JSON.stringify({
+        foreground,
+        background,
+        ...(backdrop === undefined ? {} : { backdrop }),
+        ...report,
+        ratio,
+        content,
+        required,
+        level,
+        passes: pass,
+      })
+    );
+  } else {
+    const { normal, large, nonText } = report;
+    const on = backdrop === undefined ? '' : ` on ${backdrop}`;
+    io.stdout(`${ratio}:1  ${foreground} on ${background}${on}`);
+    io.stdout(
+      `  normal text  AA ${verdict(normal.aa)}  AAA ${verdict(normal.aaa)}`
+    );
+    io.stdout(
+      `  large text   AA ${verdict(large.aa)}  AAA ${verdict(large.aaa)}`
+    );
+    io.stdout(`  non-text     AA ${verdict(nonText.passes)}`);
+    io.stdout(`${verdict(pass)}: ${required} required for ${content} content`);
+  }
+  return pass ? 0 : 1;
+};
+
+const suggest = (
+  positionals: string[],
+  options: Options,
+  io: CliIO
+): number => {
+  const [change, keep] = take(positionals, ['change', 'keep']) as [
+    string,
+    string,
+  ];
+  if (parseColor(change) === null || parseColor(keep) === null) {
+    throw new UsageError(`Invalid color pair: ${change} on ${keep}`);
+  }
+  requireOpaque(change, keep);
+  const { content, level } = options;
+  const suggestion = suggestColorVariant(change, keep, { level, content });
+  const ratio = suggestion === null ? null : ratioOf(suggestion, keep, options);
+
+  if (options.json) {
+    io.stdout(JSON.stringify({ change, keep, suggestion, ratio }));
+  } else if (suggestion === null) {
+    io.stderr(`No ${options.level} variant of ${change} exists on ${keep}`);
+  } else {
+    io.stdout(`${suggestion}  ${ratio}:1 on ${keep}`);
+  }
+  return suggestion === null ? 1 : 0;
+};
+
+const random = (positionals: string[], options: Options, io: CliIO): number => {
+  if (positionals.length === 0) {
+    const color = randomColor(io.random);
+    io.stdout(options.json ? JSON.stringify({ color }) : color);
+    return 0;
+  }
+  const [background] = take(positionals, ['background']) as [string];
+  if (parseColor(background) === null) {
+    throw new UsageError(`Invalid color: ${background}`);
+  }
+  requireOpaque(background);
+  const { large, random: find } = atLevel(options);
+  const color = find(background, large, { random: io.random });
+  const ratio = color === null ? null : ratioOf(color, background, options);
+
+  if (options.json) {
+    io.stdout(JSON.stringify({ background, color, ratio }));
+  } else if (color === null) {
+    io.stderr(`No color can meet ${options.level} on ${background}`);
+  } else {
+    io.stdout(`${color}  ${ratio}:1 on ${background}`);
+  }
+  return color === null ? 1 : 0;
+};
+
+/** Parse a JSON file, turning read and syntax errors into usage errors. */
+const readJson = (path: string, io: CliIO): unknown => {
+  let text: string;
+  try {
+    text = io.readFile(path);
+  } catch {
+    throw new UsageError(`Cannot read ${path}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError(`${path} is not valid JSON`);
+  }
+};
+
+const isPairing = (value: unknown): value is TokenPairing => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { foreground, background, content, level } = value as TokenPairing;
+  return (
+    typeof foreground === 'string' &&
+    typeof background === 'string' &&
+    (content === undefined || CONTENT_TYPES.includes(content)) &&
+    (level === undefined || LEVELS.includes(level))
+  );
+};
+
+const audit = (positionals: string[], options: Options, io: CliIO): number => {
+  if (positionals.length !== 1 && positionals.length !== 2) {
+    throw new UsageError('Expected <tokens.json> [pairings.json]');
+  }
+  const [tokensPath, pairingsPath] = positionals as [string, string?];
+  const document = readJson(tokensPath, io);
+
+  // Without a pairings file, DTCG's vendor extension point holds them.
+  const pairings =
+    pairingsPath === undefined
+      ? (document as { $extensions?: Record<string, { pairings?: unknown }> })
+          ?.$extensions?.['accessible-colors']?.pairings
+      : readJson(pairingsPath, io);
+  if (!Array.isArray(pairings) || !pairings.every(isPairing)) {
+    throw new UsageError(
+      'Pairings must be an array of { foreground, background, content?, level? }'
+    );
+  }
+
+  const results = auditDesignTokens(document as object, pairings);
+  if (results === null) {
+    throw new UsageError(`${tokensPath} is not a design token document`);
+  }
+  if (options.exact) {
+    for (const result of results) {
+      const { foregroundColor: fg, backgroundColor: bg } = result;
+      if (fg !== null && bg !== null) result.ratio = ratioOf(fg, bg, options);
+    }
+  }
+
+  const failed = results.filter((result) => !result.passes).length;
+  if (options.json) {
+    io.stdout(JSON.stringify(results));
+  } else {
+    for (const result of results) {
+      const pair = `${result.foreground} on ${result.background}`;
+      if (result.error !== null) {
+        io.stdout(`error  ${pair}  ${result.error}`);
+        continue;
+      }
+      const need = `${result.required} for ${result.content}`;
+      const fix =
+        result.suggestion === null ? '' : `  suggest ${result.suggestion}`;
+      io.stdout(
+        `${verdict(result.passes)}   ${pair}  ${result.ratio}:1  ${need}${fix}`
+      );
+    }
+    io.stdout(
+      `${results.length} pairings: ${results.length - failed} passed, ` +
+        `${failed} failed`
+    );
+  }
+  return failed === 0 ? 0 : 1;
+};
+
+const COMMANDS: Record<
+  string,
+  (positionals: string[], options: Options, io: CliIO) => number
+> = { check, suggest, random, audit };
+
+/**
+ * runCli runs the `accessible-colors` command.
+ *
+ * @param args - the arguments after the executable, e.g. `['check', '#777',
+ *   '#fff']`
+ * @param io - where to read and write, defaulting to the process
+ * @returns the exit code
+ */
+export const runCli = (args: readonly string[], io: CliIO = nodeIO): number => {
+  // The command reads whatever a stylesheet or token file may hold.
+  registerColorParsers(namedColors);
+  const [command, ...rest] = args;
+  if (command === undefined) {
+    io.stderr(USAGE);
+    return 2;
+  }
+  if (args.includes('-h') || args.includes('--help')) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  // `hasOwn` so that `constructor` and friends are not mistaken for commands.
+  const run = Object.hasOwn(COMMANDS, command) ? COMMANDS[command] : undefined;
+  try {
+    if (run === undefined) throw new UsageError(`Unknown command "${command}"`);
+    const { positionals, options } = parseArgs(rest);
+    return run(positionals, options, io);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    io.stderr(`accessible-colors: ${error.message}`);
+    io.stderr('Run accessible-colors --help for usage.');
+    return 2;
+  }
+};
@@ -0,0 +1,111 @@
+import { rgbToHex } from './helpers';
+import { parseColorWithAlpha } from './parse';
+import type { RGB, RGBA } from './types';
+
+/**
+ * Alpha compositing: flattening a translucent color onto what sits beneath it,
+ * so that its contrast can be measured at all.
+ *
+ * WCAG contrast is defined between two opaque colors. `rgba(0 0 0 / 50%)` text
+ * has no contrast ratio of its own — it has one against whatever it is drawn
+ * over. Rather than guess that backdrop, the contrast functions only honour
+ * alpha when the caller names it.
+ *
+ * Blending is Porter-Duff source-over on gamma-encoded sRGB channels, which is
+ * what browsers do for CSS colors. Blending in linear light would be more
+ * physically correct, but it would measure a color the user never sees.
+ */
+
+/**
+ * Source-over: `foreground` drawn on top of `backdrop`, rounded to 8-bit
+ * channels the way a rendered pixel is.
+ */
+export const blend = (foreground: RGBA, backdrop: RGBA): RGBA => {
+  const a = foreground.a + backdrop.a * (1 - foreground.a);
+  if (a === 0) {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const channel = (f: number, b: number) =>
+    Math.round((f * foreground.a + b * backdrop.a * (1 - foreground.a)) / a);
+
+  return {
+    r: channel(foreground.r, backdrop.r),
+    g: channel(foreground.g, backdrop.g),
+    b: channel(foreground.b, backdrop.b),
+    a,
+  };
+};
+
+/**
+ * compositeOver blends a possibly translucent color onto a backdrop, as a
+ * browser would when painting one over the other.
+ *
+ * @param foreground - the color on top, in any supported format
+ * @param backdrop - the color beneath it, in any supported format
+ * @returns the blended color in hex format — `#rrggbb` when the result is
+ *   opaque, `#rrggbbaa` when the backdrop was itself translucent — or `null`
+ *   if either color is invalid
+ */
+export const compositeOver = (
+  foreground: string,
+  backdrop: string
+): string | null => {
+  const top = parseColorWithAlpha(foreground);
+  const bottom = parseColorWithAlpha(backdrop);
+  if (top === null || bottom === null) {
+    return null;
+  }
+
+  const { a, ...rgb } = blend(top, bottom);
+  if (a >= 1) {
+    return rgbToHex(rgb);
+  }
+  const alpha = Math.round(a * 255).toString(16);
+  return `${rgbToHex(rgb)}${alpha.padStart(2, '0')}`;
+};
+
+/**
+ * An opaque color's channels, or `null` for an invalid or translucent one. A
+ * translucent color has no contrast of its own, so measuring it without a
+ * backdrop would report one for a color nobody sees.
+ */
+export const parseOpaque = (color: string): RGB | null => {
+  const rgba = parseColorWithAlpha(color);
+  if (rgba === null || rgba.a < 1) {
+    return null;
+  }
+  const { r, g, b } = rgba;
+  return { r, g, b };
+};
+
+/**
+ * Resolves a foreground/background pair to the two opaque colors a viewer
+ * actually sees: `background` flattened onto `backdrop`, then `foreground`
+ * flattened onto the result.
+ *
+ * @param foreground - the color on top, in any supported format
+ * @param background - the color it sits on, in any supported format
+ * @param backdrop - the opaque color beneath both
+ * @returns the opaque pair, or `null` if any color is invalid or `backdrop`
+ *   is itself translucent — there is then nothing known to measure against
+ */
+export const flattenPair = (
+  foreground: string,
+  background: string,
+  backdrop: string
+): [RGB, RGB] | null => {
+  const top = parseColorWithAlpha(foreground);
+  const middle = parseColorWithAlpha(background);
+  const bottom = parseColorWithAlpha(backdrop);
+  if (top === null || middle === null || bottom === null || bottom.a < 1) {
+    return null;
+  }
+
+  const surface = blend(middle, bottom);
+  const { r, g, b } = blend(top, surface);
+  return [
+    { r, g, b },
+    { r: surface.r, g: surface.g, b: surface.b },
+  ];
+};
@@ -0,0 +1,341 @@
+import { flattenPair, parseOpaque } from './composite';
+import { simulateRgb, type ColorVisionDeficiency } from './cvd';
+import { classifyText, type TextStyle } from './typography';
+import type { ColorInput, ContentType, RGB } from './types';
+
+/**
+ * The WCAG 2 contrast core: relative luminance, the contrast ratio, and the
+ * ratios each content type requires at each level.
+ *
+ * Every feature that judges a pair imports its measurements from here, so all
+ * of them agree on what a ratio is and on which side of a threshold it falls.
+ */
+
+/**
+ * Original luminance function (used here, WCAG2.0 standard):
+ * @link https://www.w3.org/TR/WCAG20/#relativeluminancedef
+ * L = 0.2126 * R + 0.7152 * G + 0.0722 * B
+ * @param color (r, g, b) color, as a string or as `RGB` channels (0-255)
+ * @returns a number between 0 and 1 representing the linear luminance of the
+ *   color, or `null` if the color is invalid or translucent
+ */
+export const getLuminance = (color: string | RGB): number | null => {
+  return luminanceOf(color);
+};
+
+/** An sRGB channel, 0-255, in linear light. */
+const linearise = (v: number): number => {
+  const value = v / 255;
+  return value <= 0.03928
+    ? value / 12.92
+    : Math.pow((value + 0.055) / 1.055, 2.4);
+};
+
+/**
+ * `linearise` for every 8-bit channel, so that luminance is three lookups
+ * rather than three `Math.pow` calls. Each entry is `linearise`'s own result,
+ * so a lookup is exact; fractional channels fall through to the formula. Built
+ * on first use, so that a bundle that never measures luminance does not carry
+ * it.
+ */
+let LINEAR: Float64Array | undefined;
+
+const linear = (v: number): number =>
+  (LINEAR ??= Float64Array.from({ length: 256 }, (_, i) => linearise(i)))[v] ??
+  linearise(v);
+
+/** WCAG relative luminance of already-parsed channels. */
+export const relativeLuminance = ({ r, g, b }: RGB): number =>
+  0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+
+/**
+ * The relative luminance of any `ColorInput`, or `null` for an invalid one: a
+ * string that does not parse or is translucent, a channel outside 0-255 or a
+ * luminance outside 0-1.
+ */
+export const luminanceOf = (color: ColorInput): number | null => {
+  if (typeof color === 'string') {
+    const rgb = parseOpaque(color);
+    return rgb === null ? null : relativeLuminance(rgb);
+  }
+  if ('luminance' in color) {
+    const { luminance } = color;
+    return luminance >= 0 && luminance <= 1 ? luminance : null;
+  }
+  const { r, g, b } = color;
+  if (![r, g, b].every((v) => v >= 0 && v <= 255)) {
+    return null;
+  }
+  return relativeLuminance(color);
+};
+
+/**
+ * The exact, unrounded contrast ratio between two colors. Kept internal so that
+ * threshold comparisons never operate on a rounded value — a pair at 4.4996
+ * rounds to 4.5 and would otherwise be reported as meeting AA when it does not.
+ * @param color1 - first color to compare in hex format (e.g. #000000)
+ * @param color2 - second color to compare in hex format (e.g. #ffffff)
+ * @param backdrop - the opaque color beneath the pair; when given, `color1` is
+ *   composited over `color2`, and `color2` over `backdrop`, before measuring
+ * @returns the contrast ratio between 1 and 21, or `null` if either color is
+ *   invalid, or translucent without a backdrop, or a backdrop is given with a
+ *   color that is not a string
+ */
+export const rawContrast = (
+  color1: ColorInput | null,
+  color2: ColorInput | null,
+  backdrop?: string
+): number | null => {
+  if (typeof color1 !== 'string' || typeof color2 !== 'string') {
+    // Objects carry no alpha, so there is nothing to composite them with.
+    if (color1 === null || color2 === null || backdrop !== undefined) {
+      return null;
+    }
+    const luminance1 = luminanceOf(color1);
+    const luminance2 = luminanceOf(color2);
+    if (luminance1 === null || luminance2 === null) {
+      return null;
+    }
+    return luminanceRatio(luminance1, luminance2);
+  }
+  const pair = resolvePair(color1, color2, backdrop);
+  if (pair === null) {
+    return null;
+  }
+  return rgbRatio(...pair);
+};
+
+/**
+ * The two opaque colors a pair is measured as — see `rawContrast`.
+ * @returns both colors' channels, or `null` if either color is invalid, or
+ *   translucent with no backdrop to composite it over
+ */
+export const resolvePair = (
+  color1: string,
+  color2: string,
+  backdrop?: string
+): [RGB, RGB] | null => {
+  const [rgb1, rgb2] =
+    backdrop === undefined
+      ? [parseOpaque(color1), parseOpaque(color2)]
+      : (flattenPair(color1, color2, backdrop) ?? [null, null]);
+  if (rgb1 === null || rgb2 === null) {
+    return null;
+  }
+  return [rgb1, rgb2];
+};
+
+/** The WCAG contrast ratio between two already-parsed colors. */
+export const rgbRatio = (rgb1: RGB, rgb2: RGB): number =>
+  luminanceRatio(relativeLuminance(rgb1), relativeLuminance(rgb2));
+
+/** The WCAG contrast ratio between two relative luminances, in either order. */
+export const luminanceRatio = (
+  luminance1: number,
+  luminance2: number
+): number => {
+  const light = luminance1 > luminance2 ? luminance1 : luminance2;
+  const dark = luminance1 > luminance2 ? luminance2 : luminance1;
+
+  return (light + 0.05) / (dark + 0.05);
+};
+
+/**
+ * @link https://www.w3.org/TR/WCAG20/#contrast-ratiodef
+ * Produces a contrast ratio between two colors between 1 and 21. This
+ * is expressed as 1:1 - 21:1, where contrast of 4.5:1 is considered
+ * to be the minimum for normal text and 3:1 for large text.
+ * @param color1 - first color to compare in hex format (e.g. #000000)
+ * @param color2 - second color to compare in hex format (e.g. #ffffff)
+ * @param precision - number of decimal places to round to, or `Infinity` for
+ *   the exact, unrounded ratio
+ * @param backdrop - the opaque color beneath the pair, to honour alpha: `color1`
+ *   is composited over `color2`, and `color2` over `backdrop`. Without it, a
+ *   translucent color has no contrast to measure. Both colors must then be
+ *   strings, as only a string carries alpha.
+ * @returns the contrast ratio, or `null` if either color is invalid, or
+ *   translucent without a backdrop
+ */
+export const getContrast = (
+  color1: ColorInput | null,
+  color2: ColorInput | null,
+  precision = 3,
+  backdrop?: string
+): number | null => {
+  const ratio = rawContrast(color1, color2, backdrop);
+  if (ratio === null || precision === Infinity) {
+    return ratio;
+  }
+  return Math.round(ratio * 10 ** precision) / 10 ** precision;
+};
+
+/**
+ * isContrasting returns true if the constrast ratio between two specified colors is at least the specified ratio.
+ * @param color1 - first color to compare in hex format (e.g. #000000)
+ * @param color2 - second color to compare in hex format (e.g. #ffffff)
+ * @param ratio - the contrast ratio to compare against. Should be between 1 and 21
+ * @returns - true if the contrast ratio is at least the specified ratio
+ */
+export const isContrasting = (
+  color1: ColorInput,
+  color2: ColorInput,
+  ratio: number
+): boolean | null => {
+  const contrast = rawContrast(color1, color2);
+  if (contrast === null) {
+    return null;
+  }
+  return contrast >= ratio;
+};
+
+/**
+ * The content type a `large` flag or a text style stands for, or `null` for a
+ * style `classifyText` cannot classify.
+ */
+export const contentOf = (
+  text: boolean | ContentType | TextStyle
+): ContentType | null => {
+  if (typeof text === 'boolean') return text ? 'large' : 'normal';
+  return typeof text === 'string' ? text : classifyText(text);
+};
+
+/**
+ * The highest WCAG 2.1 conformance level a color pair achieves.
+ * SC 1.4.11 defines no enhanced level, so `non-text` content returns
+ * `'AA'` or `'fail'` only.
+ */
+export type ContrastLevel = 'AAA' | 'AA' | 'fail';
+
+/** Required contrast ratios by content type and conformance level. */
+export const THRESHOLDS: Record<ContentType, { AA: number; AAA: number }> = {
+  normal: { AA: 4.5, AAA: 7 },
+  large: { AA: 3, AAA: 4.5 },
+  'non-text': { AA: 3, AAA: Infinity },
+};
+
+/**
+ * getContrastLevel returns the highest WCAG 2.1 level a color pair achieves for
+ * the given content type, rather than a bare pass/fail against one threshold.
+ *
+ * @param color1 - first color to compare in hex format (e.g. #000000)
+ * @param color2 - second color to compare in hex format (e.g. #ffffff)
+ * @param content - the kind of content the pair is used for, defaulting to
+ *   `normal`, or the text's `TextStyle` for `classifyText` to decide
+ * @param backdrop - the opaque color beneath the pair, to honour alpha — see
+ *   `getContrast`
+ * @returns `'AAA'`, `'AA'`, or `'fail'`, or `null` if either color or the text
+ *   style is invalid, or a color is translucent without a backdrop
+ */
+export const getContrastLevel = (
+  color1: ColorInput,
+  color2: ColorInput,
+  content: ContentType | TextStyle = 'normal',
+  backdrop?: string
+): ContrastLevel | null => {
+  const ratio = rawContrast(color1, color2, backdrop);
+  const type = contentOf(content);
+  if (ratio === null || type === null) {
+    return null;
+  }
+  const { AA, AAA } = THRESHOLDS[type];
+  if (ratio >= AAA) return 'AAA';
+  if (ratio >= AA) return 'AA';
+  return 'fail';
+};
+
+/**
+ * A complete account of how a color pair performs against WCAG 2.1, suitable
+ * for audit tooling, linters, CI gates and design-system dashboards that would
+ * otherwise call several predicates and reassemble the result themselves.
+ */
+export interface ContrastReport {
+  /** The exact contrast ratio, rounded to the requested precision. */
+  ratio: number;
+  /** Body text — SC 1.4.3 (AA, 4.5:1) and SC 1.4.6 (AAA, 7:1). */
+  normal: { aa: boolean; aaa: boolean };
+  /** Large text — at least 14pt bold (18.67px) or 18pt (24px) regular. */
+  large: { aa: boolean; aaa: boolean };
+  /** UI components and graphical objects — SC 1.4.11 (3:1). */
+  nonText: { passes: boolean };
+  /** Highest level achieved for body text, the most common question. */
+  level: ContrastLevel;
+  /**
+   * The ratio as seen with each deficiency requested through
+   * `ContrastReportOptions`, rounded like `ratio`. Informational only: the
+   * verdicts above are always for the colors as authored.
+   */
+  colorVision?: Partial<Record<ColorVisionDeficiency, number>>;
+}
+
+/** Options accepted by `getContrastReport`. */
+export interface ContrastReportOptions {
+  /**
+   * Also report the ratio as seen with each of these color vision
+   * deficiencies — see `simulateColorVision`.
+   */
+  colorVision?: readonly ColorVisionDeficiency[];
+  /** Severity of the simulated deficiencies, 0-1, defaulting to 1. */
+  colorVisionSeverity?: number;
+}
+
+/**
+ * getContrastReport returns every WCAG 2.1 verdict for a color pair in one
+ * call.
+ *
+ * @param color1 - first color to compare in hex format (e.g. #000000)
+ * @param color2 - second color to compare in hex format (e.g. #ffffff)
+ * @param precision - number of decimal places to round the reported ratio to
+ * @param backdrop - the opaque color beneath the pair, to honour alpha — see
+ *   `getContrast`
+ * @param options - color vision deficiencies to also report the ratio for
+ * @returns a full report, or `null` if either color is invalid, or translucent
+ *   without a backdrop, or a requested deficiency or its severity is invalid
+ */
+export const getContrastReport = (
+  color1: string,
+  color2: string,
+  precision = 3,
+  backdrop?: string,
+  { colorVision, colorVisionSeverity = 1 }: ContrastReportOptions = {}
+): ContrastReport | null => {
+  const pair = resolvePair(color1, color2, backdrop);
+  if (pair === null) {
+    return null;
+  }
+  const report = reportForRatio(rgbRatio(...pair), precision);
+  if (colorVision === undefined) {
+    return report;
+  }
+
+  const simulated: ContrastReport['colorVision'] = {};
+  for (const type of colorVision) {
+    const rgb1 = simulateRgb(pair[0], type, colorVisionSeverity);
+    const rgb2 = simulateRgb(pair[1], type, colorVisionSeverity);
+    if (rgb1 === null || rgb2 === null) {
+      return null;
+    }
+    const ratio = rgbRatio(rgb1, rgb2);
+    simulated[type] = Math.round(ratio * 10 ** precision) / 10 ** precision;
+  }
+  return { ...report, colorVision: simulated };
+};
+
+/** Every verdict for an exact ratio, which is rounded only for display. */
+export const reportForRatio = (
+  ratio: number,
+  precision: number
+): ContrastReport => ({
+  ratio: Math.round(ratio * 10 ** precision) / 10 ** precision,
+  normal: { aa: ratio >= 4.5, aaa: ratio >= 7 },
+  large: { aa: ratio >= 3, aaa: ratio >= 4.5 },
+  nonText: { passes: ratio >= 3 },
+  level: ratio >= 7 ? 'AAA' : ratio >= 4.5 ? 'AA' : 'fail',
+});
+
+/** A contrast ratio and whether it meets the ratio required of it. */
+export interface RatioVerdict {
+  /** The contrast ratio, rounded to 3 places. */
+  ratio: number;
+  /** Whether the exact ratio meets the requirement. */
+  passes: boolean;
+}
@@ -0,0 +1,105 @@
+import { rgbToHex } from './helpers';
+import { linearRgbToRgb, rgbToLinearRgb } from './oklch';
+import { parseColor } from './parse';
+import type { RGB } from './types';
+
+/**
+ * Color vision deficiency (CVD) simulation: how a color appears to someone
+ * with a missing or anomalous cone type, or with no cone vision at all.
+ *
+ * Dichromacies use the full-severity matrices of Machado, Oliveira and
+ * Fernandes (2009), applied to linear-light sRGB. Achromatopsia is modelled as
+ * seeing relative luminance alone, so it moves a WCAG contrast ratio only by
+ * 8-bit rounding: luminance contrast survives total color blindness.
+ *
+ * A severity below 1 blends linearly between normal vision and the dichromat
+ * simulation. That is the usual approximation for anomalous trichromacy and
+ * is milder at mid severities than Machado's per-severity matrices, so treat
+ * partial-severity output as indicative. WCAG conformance itself is defined
+ * on the colors as authored; these results never change a verdict.
+ */
+
+/** The kinds of color vision deficiency `simulateColorVision` models. */
+export type ColorVisionDeficiency =
+  'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+type Row = readonly [number, number, number];
+
+/** Linear RGB to simulated linear RGB, per deficiency, at full severity. */
+const MATRICES: Record<ColorVisionDeficiency, readonly [Row, Row, Row]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+  // Every channel becomes the WCAG relative luminance.
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+};
+
+/**
+ * Simulate a deficiency on already-parsed channels.
+ *
+ * @param rgb - 8-bit sRGB channels
+ * @param type - the deficiency to simulate
+ * @param severity - 0 (normal vision) to 1 (complete); clamped
+ * @returns the simulated 8-bit channels, or `null` if `type` is unknown or
+ *   `severity` is not a number
+ */
+export const simulateRgb = (
+  rgb: RGB,
+  type: ColorVisionDeficiency,
+  severity: number
+): RGB | null => {
+  // `hasOwn` so that `constructor` and friends are not mistaken for types.
+  if (!Object.hasOwn(MATRICES, type) || Number.isNaN(severity)) {
+    return null;
+  }
+  const amount = Math.min(1, Math.max(0, severity));
+
+  const { r, g, b } = rgbToLinearRgb(rgb);
+  const simulate = ([mr, mg, mb]: Row, original: number) =>
+    (1 - amount) * original + amount * (mr * r + mg * g + mb * b);
+
+  const [rowR, rowG, rowB] = MATRICES[type];
+  return linearRgbToRgb({
+    r: simulate(rowR, r),
+    g: simulate(rowG, g),
+    b: simulate(rowB, b),
+  });
+};
+
+/**
+ * simulateColorVision returns a color as it appears to someone with a color
+ * vision deficiency.
+ *
+ * @link https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html
+ * @param color - the color to simulate, in any supported format
+ * @param type - `protanopia`, `deuteranopia`, `tritanopia` or `achromatopsia`
+ * @param severity - 0 (normal vision) to 1 (complete deficiency), defaulting
+ *   to 1; values outside that range are clamped
+ * @returns the simulated color in hex format (e.g. `'#000000'`), or `null` if
+ *   the color or `type` is invalid or `severity` is not a number
+ */
+export const simulateColorVision = (
+  color: string,
+  type: ColorVisionDeficiency,
+  severity = 1
+): string | null => {
+  const rgb = parseColor(color);
+  const simulated = rgb === null ? null : simulateRgb(rgb, type, severity);
+  return simulated === null ? null : rgbToHex(simulated);
+};
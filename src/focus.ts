@@ -0,0 +1,108 @@
+import { rawContrast, type RatioVerdict } from './contrast';
+
+/**
+ * Focus appearance: whether a keyboard focus indicator meets WCAG 2.2
+ * SC 2.4.13 Focus Appearance (AAA), and SC 1.4.11 Non-text Contrast for the
+ * indicator against what surrounds it.
+ *
+ * SC 2.4.13 asks two things of an area of the indicator: that its pixels
+ * change by at least 3:1 between the unfocused and focused states, and that it
+ * is at least as large as a 2 CSS pixel thick perimeter of the unfocused
+ * component — `4 × (width + height)` for a rectangle. The indicator is taken
+ * to be a solid outline of one color, as `outline` draws it, so its area
+ * follows from its thickness, its offset and the component's size.
+ *
+ * Rounded corners are not modelled: the area is that of a square-cornered
+ * outline, which a rounded one slightly undershoots.
+ */
+
+/** The size of a focus outline and the component it surrounds, in CSS px. */
+export interface FocusIndicatorGeometry {
+  /** The outline's thickness, as `outline-width`. */
+  thickness: number;
+  /** The unfocused component's width. */
+  width: number;
+  /** The unfocused component's height. */
+  height: number;
+  /**
+   * The gap between the component's edge and the outline, as `outline-offset`,
+   * defaulting to 0. Negative offsets draw the outline inside the component.
+   */
+  offset?: number;
+}
+
+/** Every focus appearance verdict for an indicator. */
+export interface FocusAppearanceReport {
+  /**
+   * SC 2.4.13: the indicator against the color its pixels had while
+   * unfocused.
+   */
+  change: RatioVerdict;
+  /**
+   * SC 2.4.13: the indicator's area, and the area of a 2 CSS pixel thick
+   * perimeter of the unfocused component it must be at least as large as, in
+   * square CSS px.
+   */
+  area: { area: number; required: number; passes: boolean };
+  /** SC 1.4.11: the indicator against the color next to it. */
+  adjacent: RatioVerdict;
+  /** Whether every verdict above passes. */
+  passes: boolean;
+}
+
+/** The minimum ratio both contrast requirements share. */
+const FOCUS_RATIO = 3;
+
+/**
+ * assessFocusAppearance checks a focus indicator — the implementation behind
+ * `checkFocusAppearance`.
+ *
+ * @param indicator - the indicator's color
+ * @param unfocused - the color its pixels have while the component is unfocused
+ * @param adjacent - the color next to the indicator
+ * @param geometry - the outline's thickness and offset, and the component's size
+ * @returns the verdicts, or `null` if a color is invalid or the geometry does
+ *   not describe an outline
+ */
+export const assessFocusAppearance = (
+  indicator: string,
+  unfocused: string,
+  adjacent: string,
+  { thickness, width, height, offset = 0 }: FocusIndicatorGeometry
+): FocusAppearanceReport | null => {
+  // The rectangle the outline is drawn around, which an inset outline shrinks.
+  const innerWidth = width + 2 * offset;
+  const innerHeight = height + 2 * offset;
+  if (
+    !(thickness > 0 && width > 0 && height > 0) ||
+    !(innerWidth >= 0 && innerHeight >= 0) ||
+    !Number.isFinite(thickness + width + height + offset)
+  ) {
+    return null;
+  }
+
+  const verdict = (color: string): RatioVerdict | null => {
+    const ratio = rawContrast(indicator, color);
+    if (ratio === null) return null;
+    return {
+      ratio: Math.round(ratio * 1000) / 1000,
+      passes: ratio >= FOCUS_RATIO,
+    };
+  };
+  const change = verdict(unfocused);
+  const beside = verdict(adjacent);
+  if (change === null || beside === null) {
+    return null;
+  }
+
+  const area =
+    (innerWidth + 2 * thickness) * (innerHeight + 2 * thickness) -
+    innerWidth * innerHeight;
+  const required = 4 * (width + height);
+  return {
+    change,
+    area: { area, required, passes: area >= required },
+    adjacent: beside,
+    passes: change.passes && area >= required && beside.passes,
+  };
+};
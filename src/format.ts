@@ -0,0 +1,187 @@
+import { hexToRgba, rgbToHex, rgbToHsl } from './helpers';
+import { oklabToOklch, rgbToOklab } from './oklch';
+import { parseOpaque } from './composite';
+import { parseColorWithAlpha } from './parse';
+import type { RGB, RGBA } from './types';
+
+/**
+ * Serialisation: writing a color back out as CSS, in a format the caller
+ * chooses or in the one an input color was written in, so that a palette
+ * authored in `hsl()` stays in `hsl()` after a suggestion fixes it.
+ *
+ * Hex and `rgb()` are exact for 8-bit channels. `hsl()` and `oklch()` are
+ * written with as few decimal places as still parse back to the same channels:
+ * a suggestion is chosen for the contrast of those channels, and a rounding
+ * that moved one would describe a color that was never checked.
+ */
+
+/** A CSS color format `formatColor` can write. */
+export type ColorFormat = 'hex' | 'hex8' | 'rgb' | 'hsl' | 'oklch';
+
+/** Options accepted by `formatColor`. */
+export interface FormatColorOptions {
+  /**
+   * Write `rgb()` and `hsl()` in the legacy comma syntax — `rgba(0, 0, 0,
+   * 0.5)` — rather than the modern space syntax. `oklch()` and hex have no
+   * legacy syntax, so they ignore it.
+   */
+  legacy?: boolean;
+}
+
+/** Options for returning a color the way its input was written. */
+export interface PreserveFormatOptions {
+  /**
+   * Write the result in the format and syntax of the input color — `hsl()` in,
+   * `hsl()` out — rather than as hex. Formats `formatColor` cannot write, such
+   * as named colors or `lab()`, come back as hex.
+   *
+   * A translucent input returns `null` rather than an opaque suggestion: its
+   * contrast depends on what it is painted over, so no color at its alpha can
+   * be said to pass. Composite it with `compositeOver` first.
+   */
+  preserveFormat?: boolean;
+}
+
+/** The most decimal places a component of `hsl()` or `oklch()` is given. */
+const MAX_DIGITS = 6;
+
+/** A number to at most `digits` decimal places, without trailing zeros. */
+const fixed = (value: number, digits: number) =>
+  String(Number(value.toFixed(digits)));
+
+/** A CSS color function of components, with alpha only when translucent. */
+const cssFunction = (
+  name: string,
+  components: string[],
+  alpha: number,
+  legacy: boolean
+) => {
+  if (legacy) {
+    return alpha < 1
+      ? `${name}a(${[...components, fixed(alpha, 3)].join(', ')})`
+      : `${name}(${components.join(', ')})`;
+  }
+  const body = components.join(' ');
+  return alpha < 1
+    ? `${name}(${body} / ${fixed(alpha, 3)})`
+    : `${name}(${body})`;
+};
+
+/** `hsl()` or `oklch()` components, each to `digits` decimal places. */
+const polarComponents = (
+  rgb: RGB,
+  format: 'hsl' | 'oklch',
+  digits: number
+): string[] => {
+  if (format === 'hsl') {
+    const { h, s, l } = rgbToHsl(rgb);
+    return [
+      fixed(h * 360, digits),
+      `${fixed(s * 100, digits)}%`,
+      `${fixed(l * 100, digits)}%`,
+    ];
+  }
+  const { L, C, H } = oklabToOklch(rgbToOklab(rgb));
+  return [
+    `${fixed(L * 100, digits)}%`,
+    fixed(C, digits + 2),
+    fixed(H * 360, digits),
+  ];
+};
+
+/**
+ * formatColor writes RGB channels, and optionally alpha, as a CSS color.
+ *
+ * @param rgb - the channels, 0-255, with an optional alpha, 0-1, which hex8
+ *   always writes, the function formats write when below 1 and plain hex
+ *   drops
+ * @param format - `hex`, `hex8`, `rgb`, `hsl` or `oklch`
+ * @param options - whether to write `rgb()` and `hsl()` in legacy syntax
+ * @returns the color, which `parseColor` reads back to the same channels
+ *   rounded to integers, or `null` if a channel or the alpha is out of range
+ */
+export const formatColor = (
+  rgb: RGB | RGBA,
+  format: ColorFormat,
+  { legacy = false }: FormatColorOptions = {}
+): string | null => {
+  const alpha = 'a' in rgb ? rgb.a : 1;
+  if (
+    ![rgb.r, rgb.g, rgb.b].every((v) => v >= 0 && v <= 255) ||
+    !(alpha >= 0 && alpha <= 1)
+  ) {
+    return null;
+  }
+  const r = Math.round(rgb.r);
+  const g = Math.round(rgb.g);
+  const b = Math.round(rgb.b);
+
+  switch (format) {
+    case 'hex':
+      return rgbToHex({ r, g, b });
+    case 'hex8':
+      return (
+        rgbToHex({ r, g, b }) +
+        Math.round(alpha * 255)
+          .toString(16)
+          .padStart(2, '0')
+      );
+    case 'rgb':
+      return cssFunction('rgb', [r, g, b].map(String), alpha, legacy);
+    case 'hsl':
+    case 'oklch': {
+      for (let digits = 0; digits <= MAX_DIGITS; digits++) {
+        const components = polarComponents({ r, g, b }, format, digits);
+        const css = cssFunction(
+          format,
+          components,
+          alpha,
+          legacy && format === 'hsl'
+        );
+        const parsed = parseColorWithAlpha(css);
+        if (parsed?.r === r && parsed.g === g && parsed.b === b) {
+          return css;
+        }
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+/** Matches the color functions `formatColor` writes, capturing the name. */
+const FORMAT_FUNCTION = /^(rgb|hsl|oklch)a?\(/i;
+
+/**
+ * The format and syntax a color string is written in, or `null` for one
+ * `formatColor` cannot write.
+ */
+const formatOf = (color: string): [ColorFormat, FormatColorOptions] | null => {
+  const trimmed = color.trim();
+  if (hexToRgba(trimmed) !== null) {
+    const digits = trimmed.replace('#', '').length;
+    return [digits === 4 || digits === 8 ? 'hex8' : 'hex', {}];
+  }
+  const name = FORMAT_FUNCTION.exec(trimmed)?.[1];
+  if (name === undefined) return null;
+  return [name.toLowerCase() as ColorFormat, { legacy: trimmed.includes(',') }];
+};
+
+/**
+ * formatLike writes an opaque color the way another opaque color was written —
+ * for returning a suggestion in its input's format.
+ *
+ * @param color - the color to write, in any supported format
+ * @param like - the color whose format and syntax to follow
+ * @returns `color` in `like`'s format — hex if `formatColor` cannot write that
+ *   format — or `null` if either is invalid or translucent
+ */
+export const formatLike = (color: string, like: string): string | null => {
+  const rgb = parseOpaque(color);
+  if (rgb === null || parseOpaque(like) === null) {
+    return null;
+  }
+  const [format, options] = formatOf(like) ?? ['hex', {}];
+  return formatColor(rgb, format, options);
+};
@@ -0,0 +1,600 @@
+import { hslToRgb, rgbToHex, rgbToHsl } from './helpers';
+import { mapToSrgb, parseColorWithAlpha } from './parse';
+import {
+  linearRgbToOklab,
+  linearRgbToRgb,
+  oklabToOklch,
+  oklchToOklab,
+  rgbToLinearRgb,
+  rgbToOklab,
+} from './oklch';
+import {
+  d50ToD65,
+  d65ToD50,
+  labToXyzD50,
+  lchToLab,
+  linearRgbToXyz,
+  xyzD50ToLab,
+  xyzToLinearRgb,
+} from './xyz';
+import { suggestForAll } from './suggest';
+import { getLuminance, isContrasting, rawContrast } from './contrast';
+import type { ContentType, RGB } from './types';
+
+/**
+ * Gradient contrast: whether text stays legible across every color of a CSS
+ * `linear-gradient()` or `radial-gradient()`.
+ *
+ * Text over a gradient is only as legible as its worst point, so a gradient is
+ * judged by sampling it end to end — finely enough that neighbouring samples
+ * differ by about one 8-bit step — and keeping the lowest ratio. Only the
+ * color stops matter: the direction, shape and size of a gradient change where
+ * its colors fall, not which colors it holds.
+ *
+ * Stops are interpolated in the gradient's color space, as a browser would:
+ * the one declared with `in`, otherwise gamma-encoded sRGB when every stop is
+ * written in a legacy syntax and OKLab when any is not (CSS Images 4). Stops
+ * are gamut-mapped into sRGB before interpolation.
+ *
+ * A gradient that cannot be measured is `null`, never a pass: translucent
+ * stops, whose contrast depends on what lies beneath, positions in lengths
+ * rather than percentages, which depend on the element's size, and color
+ * spaces outside those in `GradientColorSpace`.
+ */
+
+/** The color spaces a gradient may be interpolated in. */
+export type GradientColorSpace =
+  | 'srgb'
+  | 'srgb-linear'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'hsl'
+  | 'xyz'
+  | 'xyz-d50'
+  | 'xyz-d65';
+
+/** How a polar color space interpolates hue, per CSS Color 4. */
+export type HueInterpolation =
+  'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+/** A color stop, with its position resolved. */
+export interface GradientStop {
+  /** The color as written. */
+  color: string;
+  /** Position along the gradient line or ray, 0-1 from start to end. */
+  position: number;
+}
+
+/** A CSS gradient, read down to what determines its colors. */
+export interface Gradient {
+  type: 'linear' | 'radial';
+  repeating: boolean;
+  /** The color space stops are interpolated in. */
+  space: GradientColorSpace;
+  /** How hue is interpolated, for `lch`, `oklch` and `hsl`. */
+  hue: HueInterpolation;
+  /** At least two stops, in order, with any omitted positions filled in. */
+  stops: GradientStop[];
+  /**
+   * For each gap between neighbouring stops, the position of its
+   * interpolation hint — where the two colors mix half and half — or `null`
+   * for the midpoint.
+   */
+  hints: (number | null)[];
+}
+
+/** Options accepted by `getGradientContrast`. */
+export interface GradientContrastOptions {
+  /** The kind of content over the gradient, defaulting to `normal`. */
+  content?: ContentType;
+  /**
+   * The level the text must meet, defaulting to `AA`. Non-text content has no
+   * AAA level, so requiring one never passes.
+   */
+  level?: 'AA' | 'AAA';
+}
+
+/** The contrast of a color across a gradient. */
+export interface GradientContrast {
+  /** The lowest ratio anywhere on the gradient, rounded to 3 places. */
+  min: number;
+  /** The highest ratio anywhere on the gradient, rounded to 3 places. */
+  max: number;
+  /**
+   * Where the lowest ratio falls, 0-1 along the gradient line or ray; within
+   * the first repetition for a repeating gradient.
+   */
+  position: number;
+  /** The gradient's color at `position`, in hex format. */
+  color: string;
+  /** Whether the ratio meets the level everywhere on the gradient. */
+  passes: boolean;
+  /**
+   * The nearest variant of the text color passing across the whole gradient —
+   * the text color unmodified if it already does — or `null` if none does.
+   */
+  suggestion: string | null;
+}
+
+type Coords = [number, number, number];
+
+/** A color space: to and from its coordinates, and which is hue, if any. */
+interface Space {
+  to: (rgb: RGB) => Coords;
+  from: (coords: Coords) => RGB;
+  /** For a polar space, the index of hue (in turns) and chroma. */
+  polar?: { hue: 0 | 2; chroma: 1 };
+}
+
+const values = ({ r, g, b }: RGB): Coords => [r, g, b];
+const rgb = ([r, g, b]: Coords): RGB => ({ r, g, b });
+const lab = ([L, a, b]: Coords) => ({ L, a, b });
+
+const toLch = ([L, a, b]: Coords): Coords => {
+  const turns = Math.atan2(b, a) / (2 * Math.PI);
+  return [L, Math.sqrt(a * a + b * b), turns - Math.floor(turns)];
+};
+
+const labToRgb = (coords: Coords) =>
+  mapToSrgb(
+    linearRgbToOklab(xyzToLinearRgb(d50ToD65(labToXyzD50(lab(coords)))))
+  );
+const rgbToLab = (color: RGB): Coords => {
+  const { L, a, b } = xyzD50ToLab(
+    d65ToD50(linearRgbToXyz(rgbToLinearRgb(color)))
+  );
+  return [L, a, b];
+};
+
+// Interpolating in any linear transform of linear-light sRGB, as the XYZ
+// spaces are, gives the same colors as interpolating in linear-light sRGB.
+const LINEAR: Space = {
+  to: (color) => values(rgbToLinearRgb(color)),
+  from: (coords) => linearRgbToRgb(rgb(coords)),
+};
+
+const SPACES: Record<GradientColorSpace, Space> = {
+  srgb: {
+    to: values,
+    from: (coords) => rgb(coords.map(Math.round) as Coords),
+  },
+  'srgb-linear': LINEAR,
+  xyz: LINEAR,
+  'xyz-d50': LINEAR,
+  'xyz-d65': LINEAR,
+  oklab: {
+    to: (color) => {
+      const { L, a, b } = rgbToOklab(color);
+      return [L, a, b];
+    },
+    from: (coords) => mapToSrgb(lab(coords)),
+  },
+  oklch: {
+    to: (color) => {
+      const { L, C, H } = oklabToOklch(rgbToOklab(color));
+      return [L, C, H];
+    },
+    from: ([L, C, H]) => mapToSrgb(oklchToOklab({ L, C, H })),
+    polar: { hue: 2, chroma: 1 },
+  },
+  lab: { to: rgbToLab, from: labToRgb },
+  lch: {
+    to: (color) => toLch(rgbToLab(color)),
+    from: ([L, C, H]) => {
+      const { a, b } = lchToLab(L, C, H);
+      return labToRgb([L, a, b]);
+    },
+    polar: { hue: 2, chroma: 1 },
+  },
+  hsl: {
+    to: (color) => {
+      const { h, s, l } = rgbToHsl(color);
+      return [h, s, l];
+    },
+    from: ([h, s, l]) => hslToRgb({ h, s, l }),
+    polar: { hue: 0, chroma: 1 },
+  },
+};
+
+const HUE_METHODS: readonly string[] = [
+  'shorter',
+  'longer',
+  'increasing',
+  'decreasing',
+];
+
+/** Chroma below which a hue is powerless: a grey has no hue to keep. */
+const ACHROMATIC = 1e-4;
+
+/** Neighbouring stops are sampled this many times over, end to end. */
+const SEGMENT_SAMPLES = 256;
+
+/** Matches the gradient functions, capturing `repeating-`, type and body. */
+const GRADIENT_PATTERN = /^(repeating-)?(linear|radial)-gradient\((.*)\)$/is;
+
+/** Colors whose presence keeps the default interpolation in sRGB. */
+const LEGACY_COLOR = /^(#|rgba?\(|hsla?\(|[a-z]+$)/i;
+
+/**
+ * Split on a separator — `,` or whitespace — outside parentheses, so that
+ * `rgb(0 0 0 / 50%) 10%` splits into its color and position.
+ */
+const splitTopLevel = (text: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] as string;
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (depth === 0 && separator.test(char)) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim());
+};
+
+/** A position as a 0-1 fraction: a percentage, or a bare `0`. */
+const parsePosition = (token: string): number | null => {
+  if (token === '0') return 0;
+  if (!token.endsWith('%')) return null;
+  const value = Number(token.slice(0, -1));
+  return token.length > 1 && Number.isFinite(value) ? value / 100 : null;
+};
+
+/** Matches a CSS `<angle>`, or the unitless zero an angle may be. */
+const ANGLE = /^(-?(\d+\.?\d*|\.\d+)(deg|grad|rad|turn)|0)$/;
+
+/** Matches a `<length-percentage>`: a number with a unit, or zero. */
+const LENGTH = /^(-?(\d+\.?\d*|\.\d+)([a-z]+|%)|0)$/;
+
+const SIDES: readonly string[] = ['left', 'right', 'top', 'bottom'];
+
+/** The `<radial-shape>` and `<radial-size>` keywords. */
+const RADIAL_KEYWORDS: readonly string[] = [
+  'circle',
+  'ellipse',
+  'closest-side',
+  'closest-corner',
+  'farthest-side',
+  'farthest-corner',
+];
+
+const POSITION_KEYWORDS: readonly string[] = [...SIDES, 'center'];
+
+/**
+ * Whether tokens are a gradient's direction or angle, for a linear gradient,
+ * or its shape, size and `at <position>`, for a radial one. Their values are
+ * not needed — they move colors, they do not change them — but they must be
+ * recognised, or an unreadable first stop would be mistaken for them.
+ */
+const isGeometry = (tokens: string[], type: Gradient['type']): boolean => {
+  if (tokens.length === 0) return true;
+  if (type === 'linear') {
+    const [first, ...sides] = tokens;
+    return tokens.length === 1
+      ? ANGLE.test(first as string)
+      : first === 'to' &&
+          sides.length <= 2 &&
+          sides.every((side) => SIDES.includes(side));
+  }
+  const at = tokens.indexOf('at');
+  const shape = at === -1 ? tokens : tokens.slice(0, at);
+  const position = at === -1 ? [] : tokens.slice(at + 1);
+  return (
+    shape.length <= 3 &&
+    shape.every(
+      (token) => RADIAL_KEYWORDS.includes(token) || LENGTH.test(token)
+    ) &&
+    (at === -1 || (position.length > 0 && position.length <= 4)) &&
+    position.every(
+      (token) => POSITION_KEYWORDS.includes(token) || LENGTH.test(token)
+    )
+  );
+};
+
+/**
+ * Read a gradient's first argument when it sets the gradient up rather than
+ * starting its stops: its geometry, and an `in <space> [<method> hue]` clause
+ * before or after it.
+ *
+ * @returns the declared interpolation, `{}` if none is declared, or `null` if
+ *   the argument is not a recognised setup or declares an unsupported space
+ */
+const parseSetup = (
+  tokens: string[],
+  type: Gradient['type']
+): { space?: GradientColorSpace; hue?: HueInterpolation } | null => {
+  const at = tokens.indexOf('in');
+  if (at === -1) return isGeometry(tokens, type) ? {} : null;
+
+  const end = tokens[at + 3] === 'hue' ? at + 4 : at + 2;
+  const [space, method] = tokens.slice(at + 1, end);
+  const geometry = [...tokens.slice(0, at), ...tokens.slice(end)];
+  if (
+    (at !== 0 && end !== tokens.length) ||
+    !isGeometry(geometry, type) ||
+    space === undefined ||
+    !Object.hasOwn(SPACES, space)
+  ) {
+    return null;
+  }
+  if (method === undefined) return { space: space as GradientColorSpace };
+  if (
+    !HUE_METHODS.includes(method) ||
+    SPACES[space as GradientColorSpace].polar === undefined
+  ) {
+    return null;
+  }
+  return {
+    space: space as GradientColorSpace,
+    hue: method as HueInterpolation,
+  };
+};
+
+/**
+ * Fill in omitted positions per CSS Images 3: the first stop defaults to 0 and
+ * the last to 1, a position before an earlier one is raised to it, and runs
+ * without positions are spread evenly between their neighbours.
+ */
+const resolvePositions = (positions: (number | null)[]): number[] => {
+  const resolved = [...positions];
+  if (resolved[0] === null) resolved[0] = 0;
+  if (resolved[resolved.length - 1] === null) resolved[resolved.length - 1] = 1;
+
+  let highest = -Infinity;
+  for (let i = 0; i < resolved.length; i++) {
+    const position = resolved[i];
+    if (position == null) continue;
+    highest = Math.max(highest, position);
+    resolved[i] = highest;
+  }
+
+  for (let i = 1; i < resolved.length; i++) {
+    if (resolved[i] !== null) continue;
+    let end = i;
+    while (resolved[end] === null) end++;
+    const from = resolved[i - 1] as number;
+    const to = resolved[end] as number;
+    for (let j = i; j < end; j++) {
+      resolved[j] = from + ((to - from) * (j - i + 1)) / (end - i + 1);
+    }
+  }
+  return resolved as number[];
+};
+
+/**
+ * parseGradient reads a CSS `linear-gradient()` or `radial-gradient()`, or
+ * their `repeating-` forms, down to its color stops and how it interpolates
+ * between them.
+ *
+ * @param gradient - the gradient as written in CSS
+ * @returns the gradient, or `null` if it is not a linear or radial gradient,
+ *   a stop is not a valid color, the first argument is neither a color nor a
+ *   recognised direction, shape or position, a position or hint is not a
+ *   percentage, or its interpolation space is not supported
+ */
+export const parseGradient = (gradient: string): Gradient | null => {
+  if (typeof gradient !== 'string') return null;
+  const match = GRADIENT_PATTERN.exec(gradient.trim());
+  const body = match?.[3];
+  if (match === null || body === undefined) return null;
+
+  const args = splitTopLevel(body, /,/).map((arg) =>
+    splitTopLevel(arg, /\s/).filter(Boolean)
+  );
+  // A first argument that does not start with a color must set up the
+  // gradient; anything else is a stop that cannot be read.
+  const type = (match[2] as string).toLowerCase() as Gradient['type'];
+  const first = args[0] as string[];
+  const isSetup = parseColorWithAlpha(first[0] ?? '') === null;
+  const setup = isSetup
+    ? parseSetup(
+        first.map((token) => token.toLowerCase()),
+        type
+      )
+    : {};
+  if (setup === null) return null;
+
+  const colors: string[] = [];
+  const positions: (number | null)[] = [];
+  const hintAt: (number | null)[] = [];
+  let hint: number | null = null;
+  for (const tokens of args.slice(isSetup ? 1 : 0)) {
+    const [color, ...at] = tokens;
+    if (color === undefined) return null;
+
+    // A lone position between two stops is an interpolation hint.
+    const lone = at.length === 0 ? parsePosition(color) : null;
+    if (lone !== null) {
+      if (hint !== null || colors.length === 0) return null;
+      hint = lone;
+      continue;
+    }
+    const stopAt = at.map(parsePosition);
+    if (parseColorWithAlpha(color) === null || stopAt.includes(null)) {
+      return null;
+    }
+    if (stopAt.length > 2) return null;
+
+    // `red 10% 20%` is two stops of the same color.
+    for (const position of stopAt.length === 0 ? [null] : stopAt) {
+      if (colors.length > 0) hintAt.push(hint);
+      hint = null;
+      colors.push(color);
+      positions.push(position);
+    }
+  }
+  if (hint !== null || colors.length < 2) return null;
+
+  const resolved = resolvePositions(positions);
+  const legacy = colors.every((color) => LEGACY_COLOR.test(color));
+  return {
+    type,
+    repeating: match[1] !== undefined,
+    space: setup.space ?? (legacy ? 'srgb' : 'oklab'),
+    hue: setup.hue ?? 'shorter',
+    stops: colors.map((color, i) => ({
+      color,
+      position: resolved[i] as number,
+    })),
+    // A hint may not fall outside the stops it sits between.
+    hints: hintAt.map((at, i) =>
+      at === null
+        ? null
+        : Math.min(
+            Math.max(at, resolved[i] as number),
+            resolved[i + 1] as number
+          )
+    ),
+  };
+};
+
+/** One point of a sampled gradient. */
+interface Sample {
+  position: number;
+  color: string;
+}
+
+/** Interpolate one coordinate, taking hue the way `method` asks. */
+const mixHue = (
+  from: number,
+  to: number,
+  t: number,
+  method: HueInterpolation
+): number => {
+  let delta = to - from;
+  if (method === 'shorter' && Math.abs(delta) > 0.5) delta -= Math.sign(delta);
+  if (method === 'longer' && delta !== 0 && Math.abs(delta) < 0.5) {
+    delta -= Math.sign(delta);
+  }
+  if (method === 'increasing' && delta < 0) delta += 1;
+  if (method === 'decreasing' && delta > 0) delta -= 1;
+  const hue = from + delta * t;
+  return hue - Math.floor(hue);
+};
+
+/**
+ * sampleGradient lists the colors of a gradient, end to end: every stop, and
+ * `SEGMENT_SAMPLES` points between each pair of neighbouring stops.
+ *
+ * @param gradient - a parsed gradient
+ * @returns the samples with their positions, or `null` if a stop is
+ *   translucent
+ */
+export const sampleGradient = (gradient: Gradient): Sample[] | null => {
+  const { stops, hints, repeating, hue: method } = gradient;
+  const space = SPACES[gradient.space];
+  const colors: RGB[] = [];
+  for (const { color } of stops) {
+    const rgba = parseColorWithAlpha(color) as NonNullable<
+      ReturnType<typeof parseColorWithAlpha>
+    >;
+    if (rgba.a < 1) return null;
+    colors.push(rgba);
+  }
+  const coords = colors.map(space.to);
+
+  // What can be seen: 0-1 along the line, or one whole repetition.
+  const first = (stops[0] as GradientStop).position;
+  const last = (stops[stops.length - 1] as GradientStop).position;
+  const [start, end] = repeating ? [first, last] : [0, 1];
+
+  const samples: Sample[] = [];
+  const add = (position: number, color: RGB) => {
+    if (position >= start && position <= end) {
+      samples.push({ position, color: rgbToHex(color) });
+    }
+  };
+  // Beyond the stops, the first and last colors continue to the edges.
+  if (start < first) add(start, colors[0] as RGB);
+  if (end > last) add(end, colors[colors.length - 1] as RGB);
+
+  // Stops come first, so that where 8-bit rounding ties a stop with the
+  // samples beside it, the stop is reported.
+  stops.forEach(({ position }, i) => add(position, colors[i] as RGB));
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    const from = (stops[i] as GradientStop).position;
+    const to = (stops[i + 1] as GradientStop).position;
+    if (to === from) continue;
+    const a = [...(coords[i] as Coords)] as Coords;
+    const b = [...(coords[i + 1] as Coords)] as Coords;
+    const { polar } = space;
+    if (polar !== undefined) {
+      // A grey's hue is powerless; it takes its neighbour's.
+      if (a[polar.chroma] < ACHROMATIC) a[polar.hue] = b[polar.hue];
+      if (b[polar.chroma] < ACHROMATIC) b[polar.hue] = a[polar.hue];
+    }
+    const hint = hints[i] ?? null;
+    const midpoint = hint === null ? 0.5 : (hint - from) / (to - from);
+
+    for (let step = 1; step < SEGMENT_SAMPLES; step++) {
+      const local = step / SEGMENT_SAMPLES;
+      // A hint moves the half-and-half point, per CSS Images 4.
+      const t =
+        midpoint <= 0
+          ? 1
+          : midpoint >= 1
+            ? 0
+            : local ** (Math.log(0.5) / Math.log(midpoint));
+      const mixed = a.map((value, c) =>
+        c === polar?.hue
+          ? mixHue(value, b[c] as number, t, method)
+          : value + ((b[c] as number) - value) * t
+      ) as Coords;
+      add(from + (to - from) * local, space.from(mixed));
+    }
+  }
+  return samples;
+};
+
+/**
+ * measureGradient finds the lowest and highest contrast of a color across a
+ * gradient — the implementation behind `getGradientContrast`.
+ *
+ * @param text - the color over the gradient, which must be opaque
+ * @param gradient - the gradient as written in CSS
+ * @param ratio - the ratio the color must meet everywhere
+ * @returns the measurement, or `null` if either cannot be measured
+ */
+export const measureGradient = (
+  text: string,
+  gradient: string,
+  ratio: number
+): GradientContrast | null => {
+  const rgba = parseColorWithAlpha(text);
+  const parsed = parseGradient(gradient);
+  const samples = parsed === null ? null : sampleGradient(parsed);
+  if (rgba === null || rgba.a < 1 || samples === null) return null;
+
+  let worst = samples[0] as Sample;
+  let min = Infinity;
+  let max = 0;
+  for (const sample of samples) {
+    const contrast = rawContrast(text, sample.color);
+    if (contrast === null) return null;
+    if (contrast < min) {
+      worst = sample;
+      min = contrast;
+    }
+    max = Math.max(max, contrast);
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const backgrounds = [...new Set(samples.map(({ color }) => color))];
+  return {
+    min: round(min),
+    max: round(max),
+    position: worst.position,
+    color: worst.color,
+    passes: min >= ratio,
+    suggestion:
+      suggestForAll(text, backgrounds, ratio, getLuminance, isContrasting)
+        ?.color ?? null,
+  };
+};
@@ -1,4 +1,4 @@
-import type { HSL, RGB } from './types';
+import type { HSL, RGB, RGBA } from './types';
 
 /**
  * hslToHex will return the hex representation of an hsl color.
@@ -43,17 +43,15 @@ export const rgbToHex = (rgb: RGB): string => {
 const HEX_PATTERN = /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
 
 /**
- * hexToRgb will return the red, green, and blue values of a color represented as numbers between 0 and 255.
+ * hexToRgba will return the red, green, blue and alpha channels of a hex color.
  *
- * Accepts shorthand (`#abc`), shorthand with alpha (`#abcd`), full (`#aabbcc`),
- * and full with alpha (`#aabbccdd`). The alpha channel is parsed for validity but
- * discarded — WCAG contrast is undefined for translucent colors without a known
- * backdrop, so callers must composite before measuring.
+ * Accepts the same four forms as `hexToRgb`. Alpha is 0-1, and 1 when the
+ * input carries no alpha digits.
  *
- * @param hex - hex representation of a color (e.g. #000000)
- * @returns red, green, and blue values of a color represented as numbers between 0 and 255 {r, g, b}, or `null` if `hex` is not a valid hex color
+ * @param hex - hex representation of a color (e.g. #00000080)
+ * @returns the channels {r, g, b, a}, or `null` if `hex` is not a valid hex color
  */
-export const hexToRgb = (hex: string): RGB | null => {
+export const hexToRgba = (hex: string): RGBA | null => {
   if (typeof hex !== 'string') {
     return null;
   }
@@ -63,7 +61,7 @@ export const hexToRgb = (hex: string): RGB | null => {
     return null;
   }
 
-  // Expand shorthand (`abc` -> `aabbcc`) before parsing, then drop any alpha.
+  // Expand shorthand (`abc` -> `aabbcc`) before parsing.
   const expanded =
     digits.length <= 4
       ? digits
@@ -76,7 +74,30 @@ export const hexToRgb = (hex: string): RGB | null => {
   const r = (bigint >> 16) & 255;
   const g = (bigint >> 8) & 255;
   const b = bigint & 255;
+  const a = expanded.length === 8 ? parseInt(expanded.slice(6), 16) / 255 : 1;
+
+  return { r, g, b, a };
+};
+
+/**
+ * hexToRgb will return the red, green, and blue values of a color represented as numbers between 0 and 255.
+ *
+ * Accepts shorthand (`#abc`), shorthand with alpha (`#abcd`), full (`#aabbcc`),
+ * and full with alpha (`#aabbccdd`). The alpha channel is parsed for validity but
+ * discarded — WCAG contrast is undefined for translucent colors without a known
+ * backdrop. Use `parseColorWithAlpha` to keep it, and `compositeOver` to blend
+ * it onto a backdrop before measuring.
+ *
+ * @param hex - hex representation of a color (e.g. #000000)
+ * @returns red, green, and blue values of a color represented as numbers between 0 and 255 {r, g, b}, or `null` if `hex` is not a valid hex color
+ */
+export const hexToRgb = (hex: string): RGB | null => {
+  const rgba = hexToRgba(hex);
+  if (rgba === null) {
+    return null;
+  }
 
+  const { r, g, b } = rgba;
   return { r, g, b };
 };
 
@@ -0,0 +1,275 @@
+import { blend, parseOpaque } from './composite';
+import { luminanceRatio, relativeLuminance } from './contrast';
+import type { ContentType, RGB } from './types';
+
+/**
+ * Image contrast: how legible text is over a region of a photo or other
+ * raster image, read from raw RGBA pixels.
+ *
+ * Every pixel in the region is measured against the text, and the region is
+ * summarized three ways: the lowest ratio, a low percentile that discounts a
+ * few stray pixels, and the share of pixels that pass. No one of them is a
+ * WCAG verdict — WCAG does not define contrast over an image — so the caller
+ * chooses which to hold a design to.
+ *
+ * Pixels are plain bytes, as `ImageData.data` in a browser or the raw output
+ * of an image library in Node gives them, so no DOM is needed. A region that
+ * cannot be measured is `null`, never a pass: pixels that are not fully
+ * opaque, whose contrast depends on what lies beneath them, and a region or
+ * pixel buffer that does not match the image's size.
+ *
+ * When text fails, a scrim — a flat overlay of black or white between the
+ * image and the text — is the usual fix. `findScrimOpacity` finds the least
+ * opaque one that makes the region pass, compositing it over each pixel the
+ * way a browser would.
+ */
+
+/** A rectangle of an image, in whole pixels from its top-left corner. */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Options accepted by `getImageRegionContrast`. */
+export interface ImageRegionContrastOptions {
+  /** The kind of content over the image, defaulting to `normal`. */
+  content?: ContentType;
+  /**
+   * The level a pixel must meet to count as passing, defaulting to `AA`.
+   * Non-text content has no AAA level, so requiring one passes no pixel.
+   */
+  level?: 'AA' | 'AAA';
+  /**
+   * Which percentile of the ratios to report, 0-100 from the lowest,
+   * defaulting to 5: the ratio that 5% of the region's pixels fall at or below.
+   */
+  percentile?: number;
+}
+
+/** The contrast of a color over a region of an image. */
+export interface ImageRegionContrast {
+  /** The lowest ratio of any pixel in the region, rounded to 3 places. */
+  min: number;
+  /** The highest ratio of any pixel in the region, rounded to 3 places. */
+  max: number;
+  /** The ratio at the requested percentile, rounded to 3 places. */
+  percentile: number;
+  /** The share of the region's pixels that meet the level, 0-1. */
+  passing: number;
+}
+
+/** Options accepted by `getScrimOpacity`. */
+export interface ScrimOpacityOptions {
+  /** The scrim's color, which must be opaque, defaulting to black. */
+  scrim?: string;
+  /** The kind of content over the image, defaulting to `normal`. */
+  content?: ContentType;
+  /**
+   * The level the text must meet, defaulting to `AA`. Non-text content has no
+   * AAA level, so requiring one finds no scrim.
+   */
+  level?: 'AA' | 'AAA';
+  /**
+   * Which percentile of the ratios must meet the level, 0-100 from the lowest,
+   * defaulting to 0: every pixel. At 5, the lowest 5% may fall short.
+   */
+  percentile?: number;
+}
+
+/** Round a ratio to 3 places, as `getContrast` does by default. */
+const round = (ratio: number) => Math.round(ratio * 1000) / 1000;
+
+/** Whether a value is a whole number of pixels, at least `min`. */
+const isCount = (value: number, min: number) =>
+  Number.isInteger(value) && value >= min;
+
+/**
+ * The offset of each pixel of a region in the pixel buffer, row by row.
+ *
+ * @returns the offsets, or `null` if the region or buffer does not fit the
+ *   image's size or any pixel in the region is translucent
+ */
+const readRegion = (
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  { x, y, ...size }: ImageRegion
+): Uint32Array | null => {
+  if (
+    !isCount(width, 1) ||
+    !isCount(height, 1) ||
+    pixels.length !== width * height * 4 ||
+    !isCount(x, 0) ||
+    !isCount(y, 0) ||
+    !isCount(size.width, 1) ||
+    !isCount(size.height, 1) ||
+    x + size.width > width ||
+    y + size.height > height
+  ) {
+    return null;
+  }
+
+  const offsets = new Uint32Array(size.width * size.height);
+  let count = 0;
+  for (let row = y; row < y + size.height; row++) {
+    const end = (row * width + x + size.width) * 4;
+    for (let i = (row * width + x) * 4; i < end; i += 4) {
+      if (pixels[i + 3] !== 255) return null;
+      offsets[count++] = i;
+    }
+  }
+  return offsets;
+};
+
+/**
+ * A luminance table per channel, indexed by a pixel's byte value. Luminance
+ * is a weighted sum of the channels, so the three entries for a pixel add up
+ * to its luminance exactly, without the transfer function per pixel.
+ *
+ * @param shade - the color a grey pixel of a byte value is rendered as; each
+ *   channel of it may depend only on the same channel of the pixel
+ */
+const luminanceTables = (
+  shade: (v: number) => RGB = (v) => ({ r: v, g: v, b: v })
+): [number[], number[], number[]] => {
+  const tables: [number[], number[], number[]] = [[], [], []];
+  for (let v = 0; v < 256; v++) {
+    const { r, g, b } = shade(v);
+    tables[0].push(relativeLuminance({ r, g: 0, b: 0 }));
+    tables[1].push(relativeLuminance({ r: 0, g, b: 0 }));
+    tables[2].push(relativeLuminance({ r: 0, g: 0, b }));
+  }
+  return tables;
+};
+
+/** The luminance of the pixel at an offset, from `luminanceTables`. */
+const pixelLuminance = (
+  pixels: Uint8Array | Uint8ClampedArray,
+  i: number,
+  [red, green, blue]: [number[], number[], number[]]
+): number =>
+  (red[pixels[i] as number] as number) +
+  (green[pixels[i + 1] as number] as number) +
+  (blue[pixels[i + 2] as number] as number);
+
+/**
+ * The nearest-rank index of a percentile among `count` sorted values: the
+ * lowest value that at least `percentile`% of them fall at or below.
+ */
+const percentileRank = (percentile: number, count: number) =>
+  Math.max(Math.ceil((percentile * count) / 100) - 1, 0);
+
+/** Whether a percentile is one that can be ranked, 0-100. */
+const isPercentile = (percentile: number) =>
+  percentile >= 0 && percentile <= 100;
+
+/**
+ * measureImageRegion measures a color against every pixel of an image region —
+ * the implementation behind `getImageRegionContrast`.
+ *
+ * @param color - the color over the image, in any supported format
+ * @param pixels - the image's pixels, 4 bytes each (RGBA), row by row
+ * @param width - the image's width in pixels
+ * @param height - the image's height in pixels
+ * @param region - the part of the image the color sits over
+ * @param threshold - the ratio a pixel must meet to count as passing
+ * @param percentile - which percentile of the ratios to report, 0-100
+ * @returns the measurement, or `null` if anything cannot be measured exactly
+ */
+export const measureImageRegion = (
+  color: string,
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  region: ImageRegion,
+  threshold: number,
+  percentile: number
+): ImageRegionContrast | null => {
+  const text = parseOpaque(color);
+  const offsets = readRegion(pixels, width, height, region);
+  if (text === null || offsets === null || !isPercentile(percentile)) {
+    return null;
+  }
+
+  const tables = luminanceTables();
+  const textLuminance = relativeLuminance(text);
+  const ratios = Float64Array.from(offsets, (i) =>
+    luminanceRatio(textLuminance, pixelLuminance(pixels, i, tables))
+  ).sort();
+  const passing = ratios.filter((contrast) => contrast >= threshold).length;
+  return {
+    min: round(ratios[0] as number),
+    max: round(ratios[ratios.length - 1] as number),
+    percentile: round(
+      ratios[percentileRank(percentile, ratios.length)] as number
+    ),
+    passing: passing / ratios.length,
+  };
+};
+
+/** The steps a scrim's opacity is searched in: whole percentages. */
+const OPACITY_STEPS = 100;
+
+/**
+ * findScrimOpacity finds the least opaque scrim that makes a color meet a ratio
+ * over an image region — the implementation behind `getScrimOpacity`.
+ *
+ * @param color - the color over the scrim, in any supported format
+ * @param pixels - the image's pixels, 4 bytes each (RGBA), row by row
+ * @param width - the image's width in pixels
+ * @param height - the image's height in pixels
+ * @param region - the part of the image the color sits over
+ * @param scrim - the scrim's opaque color, in any supported format
+ * @param threshold - the ratio to meet
+ * @param percentile - which percentile of the ratios must meet it, 0-100
+ * @returns the opacity, 0-1 in steps of 0.01, or `null` if no opacity is
+ *   enough or anything cannot be measured exactly
+ */
+export const findScrimOpacity = (
+  color: string,
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  region: ImageRegion,
+  scrim: string,
+  threshold: number,
+  percentile: number
+): number | null => {
+  const text = parseOpaque(color);
+  const overlay = parseOpaque(scrim);
+  const offsets = readRegion(pixels, width, height, region);
+  if (
+    text === null ||
+    overlay === null ||
+    offsets === null ||
+    !isPercentile(percentile)
+  ) {
+    return null;
+  }
+
+  const textLuminance = relativeLuminance(text);
+  // The percentile passes while no more pixels than this fall short.
+  const allowed = percentileRank(percentile, offsets.length);
+  // A scrim can take a pixel towards the text's luminance before taking it
+  // past, so contrast need not rise with opacity: try each step upwards.
+  for (let step = 0; step <= OPACITY_STEPS; step++) {
+    const a = step / OPACITY_STEPS;
+    const tables = luminanceTables((v) =>
+      blend({ ...overlay, a }, { r: v, g: v, b: v, a: 1 })
+    );
+    let failing = 0;
+    for (const i of offsets) {
+      const pixel = pixelLuminance(pixels, i, tables);
+      if (
+        luminanceRatio(textLuminance, pixel) < threshold &&
+        ++failing > allowed
+      ) {
+        break;
+      }
+    }
+    if (failing <= allowed) return a;
+  }
+  return null;
+};
@@ -1,19 +1,117 @@
 import { rgbToHex } from './helpers';
-import { parseColor } from './parse';
-import { binarySearchContrast, suggestColorVariant } from './suggest';
-import { MAX_OKLCH_CHROMA, gamutMapChroma, oklabToRgb, type OKLCH } from './oklch';
+import { parseOpaque } from './composite';
+import { parseWideGamut } from './parse';
+import {
+  THRESHOLDS,
+  contentOf,
+  getContrast,
+  getLuminance,
+  isContrasting,
+  luminanceRatio,
+  rawContrast,
+  relativeLuminance,
+  reportForRatio,
+  type ContrastReport,
+  type RatioVerdict,
+} from './contrast';
+import {
+  binarySearchContrast,
+  nearestVariant,
+  suggestForAll,
+  suggestPair,
+  suggestVariants,
+  type ColorPairOptions,
+  type ColorPairSuggestion,
+  type SuggestionForAll,
+  type Variant,
+  type VariantSearchOptions,
+} from './suggest';
+import {
+  buildScale,
+  type AccessibleScaleOptions,
+  type ScaleStep,
+} from './scale';
+import {
+  findStylesheetIssues,
+  type StylesheetAuditOptions,
+  type StylesheetFinding,
+} from './stylesheet';
+import {
+  assessFocusAppearance,
+  type FocusAppearanceReport,
+  type FocusIndicatorGeometry,
+} from './focus';
+import {
+  measureGradient,
+  type GradientContrast,
+  type GradientContrastOptions,
+} from './gradient';
+import {
+  findScrimOpacity,
+  measureImageRegion,
+  type ImageRegion,
+  type ImageRegionContrast,
+  type ImageRegionContrastOptions,
+  type ScrimOpacityOptions,
+} from './image';
+import {
+  checkTheme,
+  darkenTheme,
+  type DarkTheme,
+  type Theme,
+  type ThemeRoleCheck,
+  type ThemeRule,
+} from './theme';
+import type { TextStyle } from './typography';
+import { measurePairs, type PairChecks } from './batch';
+import { formatLike, type PreserveFormatOptions } from './format';
+import {
+  auditTokens,
+  type TokenPairing,
+  type TokenPairingResult,
+} from './tokens';
+import {
+  MAX_OKLCH_CHROMA,
+  gamutMapChroma,
+  oklabToRgb,
+  type OKLCH,
+} from './oklch';
+import type { ColorInput, ContentType } from './types';
 
 /**
  * Color shape types. Note that `HSL` uses the 0-1 range for all three channels,
  * not the CSS convention of 0-360 for hue and 0-100% for saturation/lightness.
  */
-export type { RGB, HSL } from './types';
+export type { RGB, RGBA, HSL } from './types';
+
+/**
+ * Color inputs. `getContrast`, `getContrastLevel`, `checkPairs` and the
+ * contrast predicates also accept a color's `RGB` channels or its
+ * `RelativeLuminance`, skipping the parse.
+ */
+export type { ColorInput, RelativeLuminance } from './types';
+
+/**
+ * The kind of content a color pair is being used for — `normal`, `large` or
+ * `non-text` — which determines the required contrast ratio.
+ */
+export type { ContentType } from './types';
 
 /**
  * Conversion helpers. `hexToRgb` and `hexToHsl` return `null` for input that is
  * not a valid hex color rather than throwing or producing a garbage result.
  */
-export { parseColor } from './parse';
+export { parseColor, parseColorWithAlpha } from './parse';
+export type { ParseOptions } from './parse';
+
+/**
+ * Opt-in color keywords. The CSS named colors parse as `null` until
+ * `namedColors` is registered, so a bundle that never reads them does not
+ * carry their table.
+ */
+export { registerColorParsers } from './parse';
+export type { ColorParser } from './parse';
+export { namedColors } from './named';
 export {
   hexToRgb,
   rgbToHex,
@@ -24,107 +122,148 @@ export {
 } from './helpers';
 
 /**
- * Original luminance function (used here, WCAG2.0 standard):
- * @link https://www.w3.org/TR/WCAG20/#relativeluminancedef
- * L = 0.2126 * R + 0.7152 * G + 0.0722 * B
- * @param color (r, g, b) color
- * @returns a number between 0 and 1 representing the linear luminance of the color
+ * WCAG 2 contrast: relative luminance, the ratio between two colors, the
+ * highest level a pair achieves and every verdict for it at once.
  */
-export const getLuminance = (color: string): number | null => {
-  const rgb = parseColor(color);
-  if (rgb === null) {
-    return null;
-  }
+export {
+  getLuminance,
+  getContrast,
+  isContrasting,
+  getContrastLevel,
+  getContrastReport,
+} from './contrast';
+export type {
+  ContrastLevel,
+  ContrastReport,
+  ContrastReportOptions,
+  RatioVerdict,
+} from './contrast';
 
-  const channel = (v: number) => {
-    const value = v / 255;
-    return value <= 0.03928
-      ? value / 12.92
-      : Math.pow((value + 0.055) / 1.055, 2.4);
-  };
+/**
+ * APCA (WCAG 3 draft) lightness contrast, offered alongside the WCAG 2 ratio
+ * rather than replacing it. Argument order matters: text first, then
+ * background.
+ */
+export {
+  getApcaContrast,
+  getApcaMinimumLc,
+  getApcaReport,
+  isApcaContrast,
+} from './apca';
+export type { ApcaReport } from './apca';
 
-  return (
-    0.2126 * channel(rgb.r) + 0.7152 * channel(rgb.g) + 0.0722 * channel(rgb.b)
-  );
-};
+/**
+ * Alpha compositing. `getContrast`, `getContrastLevel` and `getContrastReport`
+ * honour alpha only when given the opaque backdrop beneath a pair; without one
+ * a translucent color has no contrast, and they return `null`.
+ */
+export { compositeOver } from './composite';
 
 /**
- * The exact, unrounded contrast ratio between two colors. Kept internal so that
- * threshold comparisons never operate on a rounded value — a pair at 4.4996
- * rounds to 4.5 and would otherwise be reported as meeting AA when it does not.
- * @param color1 - first color to compare in hex format (e.g. #000000)
- * @param color2 - second color to compare in hex format (e.g. #ffffff)
- * @returns the contrast ratio between 1 and 21, or `null` if either color is invalid
+ * Color vision deficiency simulation. `getContrastReport` can also report the
+ * ratio each simulated viewer would see; WCAG verdicts are never affected.
  */
-const rawContrast = (
-  color1: string | null,
-  color2: string | null
-): number | null => {
-  if (color1 === null || color2 === null) {
-    return null;
-  }
-  const luminance1 = getLuminance(color1);
-  const luminance2 = getLuminance(color2);
-  if (luminance1 === null || luminance2 === null) {
-    return null;
-  }
-  const light = luminance1 > luminance2 ? luminance1 : luminance2;
-  const dark = luminance1 > luminance2 ? luminance2 : luminance1;
+export { simulateColorVision } from './cvd';
+export type { ColorVisionDeficiency } from './cvd';
 
-  return (light + 0.05) / (dark + 0.05);
-};
+/** Shapes for `generateAccessibleScale`. */
+export type {
+  AccessibleScaleOptions,
+  ScaleGuarantee,
+  ScaleStep,
+} from './scale';
+
+/** Shapes for `checkFocusAppearance`. */
+export type { FocusAppearanceReport, FocusIndicatorGeometry } from './focus';
 
 /**
- * @link https://www.w3.org/TR/WCAG20/#contrast-ratiodef
- * Produces a contrast ratio between two colors between 1 and 21. This
- * is expressed as 1:1 - 21:1, where contrast of 4.5:1 is considered
- * to be the minimum for normal text and 3:1 for large text.
- * @param color1 - first color to compare in hex format (e.g. #000000)
- * @param color2 - second color to compare in hex format (e.g. #ffffff)
- * @param precision - number of decimal places to round to
- * @returns
+ * Gradient parsing. `parseGradient` reads a `linear-gradient()` or
+ * `radial-gradient()` down to its stops and interpolation; see
+ * `getGradientContrast` for the contrast of text across one.
  */
-export const getContrast = (
-  color1: string | null,
-  color2: string | null,
-  precision = 3
-): number | null => {
-  const ratio = rawContrast(color1, color2);
-  if (ratio === null) {
-    return null;
-  }
-  return Math.round(ratio * 10 ** precision) / 10 ** precision;
-};
+export { parseGradient } from './gradient';
+export type {
+  Gradient,
+  GradientColorSpace,
+  GradientContrast,
+  GradientContrastOptions,
+  GradientStop,
+  HueInterpolation,
+} from './gradient';
+
+/** Shapes for `getImageRegionContrast` and `getScrimOpacity`. */
+export type {
+  ImageRegion,
+  ImageRegionContrast,
+  ImageRegionContrastOptions,
+  ScrimOpacityOptions,
+} from './image';
+
+/** Shapes for `deriveDarkTheme` and `validateTheme`. */
+export type {
+  DarkTheme,
+  DarkThemeAdjustment,
+  Theme,
+  ThemePairing,
+  ThemeRoleCheck,
+  ThemeRule,
+} from './theme';
 
 /**
- * isContrasting returns true if the constrast ratio between two specified colors is at least the specified ratio.
- * @param color1 - first color to compare in hex format (e.g. #000000)
- * @param color2 - second color to compare in hex format (e.g. #ffffff)
- * @param ratio - the contrast ratio to compare against. Should be between 1 and 21
- * @returns - true if the contrast ratio is at least the specified ratio
+ * Text classification. `classifyText` decides whether text is large from its
+ * font size and weight, and every function taking a `large` flag or a
+ * `ContentType` for text also accepts the `TextStyle` itself.
  */
-export const isContrasting = (
-  color1: string,
-  color2: string,
-  ratio: number
-): boolean | null => {
-  const contrast = rawContrast(color1, color2);
-  if (contrast === null) {
-    return null;
-  }
-  return contrast >= ratio;
-};
+export { classifyText } from './typography';
+export type { FontWeight, TextStyle } from './typography';
+
+/** Shapes for `suggestColorVariantForAll` and `suggestColorPair`. */
+export type {
+  ColorPairOptions,
+  ColorPairSuggestion,
+  SuggestionForAll,
+} from './suggest';
+
+/**
+ * Serialisation. `formatColor` writes channels as hex, hex8, `rgb()`, `hsl()`
+ * or `oklch()`; the suggestion and random color functions take
+ * `preserveFormat` to answer in the format their input was written in.
+ */
+export { formatColor } from './format';
+export type {
+  ColorFormat,
+  FormatColorOptions,
+  PreserveFormatOptions,
+} from './format';
+
+/** Shapes for `checkPairs`. */
+export type { PairChecks } from './batch';
+
+/** Shapes for `auditDesignTokens`. */
+export type { TokenPairing, TokenPairingResult } from './tokens';
+
+/** Shapes for `auditStylesheet`. */
+export type { StylesheetAuditOptions, StylesheetFinding } from './stylesheet';
 
 /**
  * isAAContrast returns true if the constrast ratio between two specified colors satisfies the WCAG 2.0 AA standard
  * @link https://www.w3.org/WAI/GL/UNDERSTANDING-WCAG20/visual-audio-contrast7.html
  * @param color1 - first color to compare in hex format (e.g. #000000)
  * @param color2 - second color to compare in hex format (e.g. #ffffff)
- * @param large Large text is defined as at least 14 point (18.66px) + bold, or 18 point (24px) without bold. @link https://www.w3.org/WAI/GL/UNDERSTANDING-WCAG20/visual-audio-contrast7.html#larger-scaledef
- * @returns - true if the contrast ratio is at least 4.5:1 (normal text) or 3:1 (large text)
+ * @param large Large text is defined as at least 14 point (18.67px, exactly 56/3px) + bold, or 18 point (24px) without bold; 18.66px bold falls short. @link https://www.w3.org/WAI/GL/UNDERSTANDING-WCAG20/visual-audio-contrast7.html#larger-scaledef
+ *   Pass the text's `TextStyle` to have `classifyText` decide.
+ * @returns - true if the contrast ratio is at least 4.5:1 (normal text) or 3:1 (large text), or `null` if a color or the text style is invalid
  */
-export const isAAContrast = (color1: string, color2: string, large = false) => {
-  return isContrasting(color1, color2, large ? 3 : 4.5);
+export const isAAContrast = (
+  color1: ColorInput,
+  color2: ColorInput,
+  large: boolean | TextStyle = false
+) => {
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  return isContrasting(color1, color2, content === 'large' ? 3 : 4.5);
 };
 
 /**
@@ -132,15 +271,20 @@ export const isAAContrast = (color1: string, color2: string, large = false) => {
  * @link https://www.w3.org/WAI/GL/UNDERSTANDING-WCAG20/visual-audio-contrast7.html
  * @param color1 - first color to compare in hex format (e.g. #000000)
  * @param color2 - second color to compare in hex format (e.g. #ffffff)
- * @param large Large text is defined as at least 14 point (18.66px) + bold, or 18 point (24px) without bold. @link https://www.w3.org/WAI/GL/UNDERSTANDING-WCAG20/visual-audio-contrast7.html#larger-scaledef
- * @returns - true if the contrast ratio is at least 7:1 (normal text) or 4.5:1 (large text)
+ * @param large Large text is defined as at least 14 point (18.67px, exactly 56/3px) + bold, or 18 point (24px) without bold; 18.66px bold falls short. @link https://www.w3.org/WAI/GL/UNDERSTANDING-WCAG20/visual-audio-contrast7.html#larger-scaledef
+ *   Pass the text's `TextStyle` to have `classifyText` decide.
+ * @returns - true if the contrast ratio is at least 7:1 (normal text) or 4.5:1 (large text), or `null` if a color or the text style is invalid
  */
 export const isAAAContrast = (
-  color1: string,
-  color2: string,
-  large = false
+  color1: ColorInput,
+  color2: ColorInput,
+  large: boolean | TextStyle = false
 ) => {
-  return isContrasting(color1, color2, large ? 4.5 : 7);
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  return isContrasting(color1, color2, content === 'large' ? 4.5 : 7);
 };
 
 /**
@@ -159,112 +303,417 @@ export const isAAAContrast = (
  * @returns true if the contrast ratio is at least 3:1, or `null` if either color is invalid
  */
 export const isNonTextContrast = (
-  color1: string,
-  color2: string
+  color1: ColorInput,
+  color2: ColorInput
 ): boolean | null => {
   return isContrasting(color1, color2, 3);
 };
 
 /**
- * The kind of content a color pair is being used for, which determines the
- * required contrast ratio.
- *
- * - `normal` — body text: 4.5:1 for AA, 7:1 for AAA (SC 1.4.3, 1.4.6)
- * - `large` — at least 18.66px bold or 24px regular: 3:1 for AA, 4.5:1 for AAA
- * - `non-text` — UI boundaries, focus indicators, graphics: 3:1 (SC 1.4.11)
+ * Relative luminance two ways: of the color as authored, and of the sRGB color
+ * it is gamut-mapped to. The two differ only for a color outside sRGB.
  */
-export type ContentType = 'normal' | 'large' | 'non-text';
+export interface WideGamutLuminance {
+  /** Luminance of the authored color — what a wide-gamut display shows. */
+  wideGamut: number;
+  /** Luminance of the sRGB fallback — what `getLuminance` returns. */
+  srgb: number;
+}
 
 /**
- * The highest WCAG 2.1 conformance level a color pair achieves.
- * SC 1.4.11 defines no enhanced level, so `non-text` content returns
- * `'AA'` or `'fail'` only.
+ * getWideGamutLuminance returns the WCAG relative luminance of a color both as
+ * authored and after gamut mapping into sRGB.
+ *
+ * A `color(display-p3 ...)` or `oklch()` value outside sRGB is shown as written
+ * on a wide-gamut display but gamut-mapped on an sRGB one, and the two can
+ * differ in luminance. The wide-gamut value is CIE Y, the quantity the WCAG
+ * formula computes for sRGB, clamped to [0, 1] as a display would.
+ *
+ * @param color - a color in any supported format
+ * @returns both luminances, or `null` if the color is invalid
  */
-export type ContrastLevel = 'AAA' | 'AA' | 'fail';
+export const getWideGamutLuminance = (
+  color: string
+): WideGamutLuminance | null => {
+  const srgb = getLuminance(color);
+  if (srgb === null) {
+    return null;
+  }
 
-/** Required contrast ratios by content type and conformance level. */
-const THRESHOLDS: Record<ContentType, { AA: number; AAA: number }> = {
-  normal: { AA: 4.5, AAA: 7 },
-  large: { AA: 3, AAA: 4.5 },
-  'non-text': { AA: 3, AAA: Infinity },
+  const linear = parseWideGamut(color);
+  if (linear === null) {
+    return { wideGamut: srgb, srgb };
+  }
+  const { r, g, b } = linear;
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return { wideGamut: Math.min(1, Math.max(0, y)), srgb };
 };
 
 /**
- * getContrastLevel returns the highest WCAG 2.1 level a color pair achieves for
- * the given content type, rather than a bare pass/fail against one threshold.
+ * A color pair's WCAG verdicts on a wide-gamut display and on an sRGB one.
+ */
+export interface WideGamutContrastReport {
+  /** Measured on the colors as authored. */
+  wideGamut: ContrastReport;
+  /** Measured on their sRGB fallbacks — the same as `getContrastReport`. */
+  srgb: ContrastReport;
+  /**
+   * False when any pass/fail verdict differs between the two, meaning the
+   * pair conforms on some displays and not on others.
+   */
+  agree: boolean;
+}
+
+/**
+ * getWideGamutContrastReport returns every WCAG 2.1 verdict for a color pair
+ * twice — for the colors as authored and for their sRGB gamut-mapped
+ * fallbacks — and says whether the two agree.
  *
- * @param color1 - first color to compare in hex format (e.g. #000000)
- * @param color2 - second color to compare in hex format (e.g. #ffffff)
- * @param content - the kind of content the pair is used for, defaulting to `normal`
- * @returns `'AAA'`, `'AA'`, or `'fail'`, or `null` if either color is invalid
+ * @param color1 - first color to compare, in any supported format
+ * @param color2 - second color to compare, in any supported format
+ * @param precision - number of decimal places to round the reported ratios to
+ * @returns both reports, or `null` if either color is invalid
  */
-export const getContrastLevel = (
+export const getWideGamutContrastReport = (
   color1: string,
   color2: string,
-  content: ContentType = 'normal'
-): ContrastLevel | null => {
-  const ratio = rawContrast(color1, color2);
-  if (ratio === null) {
+  precision = 3
+): WideGamutContrastReport | null => {
+  const luminance1 = getWideGamutLuminance(color1);
+  const luminance2 = getWideGamutLuminance(color2);
+  if (luminance1 === null || luminance2 === null) {
     return null;
   }
-  const { AA, AAA } = THRESHOLDS[content];
-  if (ratio >= AAA) return 'AAA';
-  if (ratio >= AA) return 'AA';
-  return 'fail';
+
+  const wideGamut = reportForRatio(
+    luminanceRatio(luminance1.wideGamut, luminance2.wideGamut),
+    precision
+  );
+  const srgb = reportForRatio(
+    luminanceRatio(luminance1.srgb, luminance2.srgb),
+    precision
+  );
+  const verdicts = ({ normal, large, nonText }: ContrastReport) =>
+    [normal.aa, normal.aaa, large.aa, large.aaa, nonText.passes].join();
+
+  return { wideGamut, srgb, agree: verdicts(wideGamut) === verdicts(srgb) };
 };
 
+/** Options accepted by `getContrastMatrix`. */
+export interface ContrastMatrixOptions {
+  /** Number of decimal places to round each reported ratio to. */
+  precision?: number;
+  /** The kind of content `only` judges a pair by, defaulting to `normal`. */
+  content?: ContentType;
+  /**
+   * Keep only the pairs that meet AA for `content`, or only those that do not.
+   * Cells filtered out are `null`. By default every pair is kept.
+   */
+  only?: 'passing' | 'failing';
+}
+
+/** Every palette color against every other. */
+export interface ContrastMatrix {
+  /** The palette, in the order rows and columns follow. */
+  colors: string[];
+  /**
+   * `cells[i][j]` is `colors[i]` against `colors[j]`. The diagonal — a color
+   * against itself — is always `null`, as is any pair the filter removed.
+   */
+  cells: Array<Array<ContrastReport | null>>;
+  /** Each pair kept, once per pair rather than once per cell. */
+  pairs: Array<{ color1: string; color2: string; report: ContrastReport }>;
+}
+
 /**
- * A complete account of how a color pair performs against WCAG 2.1, suitable
- * for audit tooling, linters, CI gates and design-system dashboards that would
- * otherwise call several predicates and reassemble the result themselves.
+ * getContrastMatrix compares every color in a palette against every other —
+ * the contrast grid design-system documentation publishes.
+ *
+ * Each color is parsed, and its luminance computed, once, rather than once per
+ * pair as calling `getContrastReport` for every cell would.
+ *
+ * @param colors - the palette, in any supported formats
+ * @param options - precision, and which pairs to keep
+ * @returns the matrix, or `null` if any color is invalid or translucent
  */
-export interface ContrastReport {
-  /** The exact contrast ratio, rounded to the requested precision. */
-  ratio: number;
-  /** Body text — SC 1.4.3 (AA, 4.5:1) and SC 1.4.6 (AAA, 7:1). */
-  normal: { aa: boolean; aaa: boolean };
-  /** Large text — at least 18.66px bold or 24px regular. */
-  large: { aa: boolean; aaa: boolean };
-  /** UI components and graphical objects — SC 1.4.11 (3:1). */
-  nonText: { passes: boolean };
-  /** Highest level achieved for body text, the most common question. */
-  level: ContrastLevel;
-}
+export const getContrastMatrix = (
+  colors: readonly string[],
+  { precision = 3, content = 'normal', only }: ContrastMatrixOptions = {}
+): ContrastMatrix | null => {
+  const luminances: number[] = [];
+  for (const color of colors) {
+    const rgb = parseOpaque(color);
+    if (rgb === null) {
+      return null;
+    }
+    luminances.push(relativeLuminance(rgb));
+  }
+
+  const { AA } = THRESHOLDS[content];
+  const pairs: ContrastMatrix['pairs'] = [];
+  const cells = luminances.map((luminance1, i) =>
+    luminances.map((luminance2, j) => {
+      if (i === j) return null;
+      const ratio = luminanceRatio(luminance1, luminance2);
+      const passes = ratio >= AA;
+      if (only !== undefined && passes !== (only === 'passing')) {
+        return null;
+      }
+
+      const report = reportForRatio(ratio, precision);
+      if (i < j) {
+        pairs.push({
+          color1: colors[i] as string,
+          color2: colors[j] as string,
+          report,
+        });
+      }
+      return report;
+    })
+  );
+  return { colors: [...colors], cells, pairs };
+};
 
 /**
- * getContrastReport returns every WCAG 2.1 verdict for a color pair in one
- * call.
+ * checkPairs checks many color pairs against one WCAG level in a single call —
+ * the fast path for audits of a whole page or site, where reports for every
+ * pair would cost more to allocate than to compute.
  *
- * @param color1 - first color to compare in hex format (e.g. #000000)
- * @param color2 - second color to compare in hex format (e.g. #ffffff)
- * @param precision - number of decimal places to round the reported ratio to
- * @returns a full report, or `null` if either color is invalid
+ * Results come back as typed arrays indexed like `pairs`. Each distinct color
+ * string is parsed once per call, and colors given as `RGB` channels or a
+ * `RelativeLuminance` are not parsed at all.
+ *
+ * @param pairs - the pairs to check, each two colors in either order
+ * @param level - `AA` or `AAA`, defaulting to `AA`
+ * @param content - the kind of content the pairs are used for, defaulting to
+ *   `normal`, or the text's `TextStyle`
+ * @returns each pair's ratio, rounded to 3 places, and whether it passes — an
+ *   invalid color gives a `NaN` ratio and a fail — or `null` if the text style
+ *   is invalid
  */
-export const getContrastReport = (
-  color1: string,
-  color2: string,
-  precision = 3
-): ContrastReport | null => {
-  const ratio = rawContrast(color1, color2);
-  if (ratio === null) {
+export const checkPairs = (
+  pairs: ReadonlyArray<readonly [ColorInput, ColorInput]>,
+  level: 'AA' | 'AAA' = 'AA',
+  content: ContentType | TextStyle = 'normal'
+): PairChecks | null => {
+  const type = contentOf(content);
+  if (type === null) {
     return null;
   }
+  return measurePairs(pairs, THRESHOLDS[type][level]);
+};
 
+/**
+ * checkFocusAppearance checks a keyboard focus indicator against WCAG 2.2
+ * SC 2.4.13 Focus Appearance (AAA), and against SC 1.4.11 for the color next
+ * to it.
+ *
+ * SC 2.4.13 requires the indicator's pixels to change by at least 3:1 from the
+ * unfocused state, over an area at least as large as a 2 CSS pixel thick
+ * perimeter of the component. The indicator is taken to be a solid outline, so
+ * its area follows from its geometry.
+ *
+ * @param indicator - the indicator's color, in any supported format
+ * @param unfocused - the color the same pixels have while unfocused: the
+ *   background for an outline outside the component, the component's own color
+ *   for one inside it
+ * @param adjacent - the color next to the indicator, such as the background
+ *   beyond an inset outline
+ * @param geometry - the outline's `thickness` and `offset`, and the unfocused
+ *   component's `width` and `height`, in CSS px
+ * @returns a verdict per requirement, or `null` if a color is invalid or the
+ *   geometry does not describe an outline
+ */
+export const checkFocusAppearance = (
+  indicator: string,
+  unfocused: string,
+  adjacent: string,
+  geometry: FocusIndicatorGeometry
+): FocusAppearanceReport | null => {
+  return assessFocusAppearance(indicator, unfocused, adjacent, geometry);
+};
+
+/** Every verdict WCAG technique G183 needs for a link in body text. */
+export interface LinkContrastReport {
+  /** The link against the text around it, which must reach 3:1. */
+  linkToText: RatioVerdict;
+  /** The link against the background, which must reach 4.5:1. */
+  link: RatioVerdict;
+  /** The text against the background, which must reach 4.5:1. */
+  text: RatioVerdict;
+  /** Whether all three pass. */
+  passes: boolean;
+}
+
+/** The ratios G183 requires, between a link, its text and their background. */
+const LINK_TO_TEXT = 3;
+const ON_BACKGROUND = THRESHOLDS.normal.AA;
+
+/**
+ * getLinkContrastReport checks a link that is set apart from the body text
+ * around it by color alone, per WCAG technique G183 for SC 1.4.1 Use of Color.
+ *
+ * G183 lets color alone identify a link only if the link reaches 3:1 against
+ * the surrounding text and both reach 4.5:1 against the background. The link
+ * must also gain a non-color cue, such as an underline, on hover and focus —
+ * which no color check can see.
+ *
+ * @param link - the link color, in any supported format
+ * @param text - the surrounding body text color
+ * @param background - the background behind both
+ * @returns the three verdicts, or `null` if any color is invalid
+ */
+export const getLinkContrastReport = (
+  link: string,
+  text: string,
+  background: string
+): LinkContrastReport | null => {
+  const verdict = (c1: string, c2: string, required: number) => {
+    const ratio = rawContrast(c1, c2);
+    if (ratio === null) return null;
+    return {
+      ratio: Math.round(ratio * 1000) / 1000,
+      passes: ratio >= required,
+    };
+  };
+  const linkToText = verdict(link, text, LINK_TO_TEXT);
+  const onBackground = verdict(link, background, ON_BACKGROUND);
+  const textOnBackground = verdict(text, background, ON_BACKGROUND);
+  if (
+    linkToText === null ||
+    onBackground === null ||
+    textOnBackground === null
+  ) {
+    return null;
+  }
   return {
-    ratio: Math.round(ratio * 10 ** precision) / 10 ** precision,
-    normal: { aa: ratio >= 4.5, aaa: ratio >= 7 },
-    large: { aa: ratio >= 3, aaa: ratio >= 4.5 },
-    nonText: { passes: ratio >= 3 },
-    level: ratio >= 7 ? 'AAA' : ratio >= 4.5 ? 'AA' : 'fail',
+    linkToText,
+    link: onBackground,
+    text: textOnBackground,
+    passes: linkToText.passes && onBackground.passes && textOnBackground.passes,
   };
 };
 
+/**
+ * getGradientContrast measures a color — usually text — across a CSS
+ * `linear-gradient()` or `radial-gradient()`, whose contrast is only as good as
+ * its worst point.
+ *
+ * The gradient is interpolated in its own color space and sampled end to end.
+ * The result gives the lowest and highest ratio, where the lowest falls, and
+ * the nearest variant of the color that passes across the whole gradient.
+ *
+ * @param color - the color over the gradient, in any supported format
+ * @param gradient - the gradient as written in CSS
+ * @param options - the `content` type and `level` to judge against, defaulting
+ *   to AA for normal text
+ * @returns the measurement, or `null` if the color is invalid or translucent,
+ *   or the gradient cannot be measured — see `parseGradient`
+ */
+export const getGradientContrast = (
+  color: string,
+  gradient: string,
+  { content = 'normal', level = 'AA' }: GradientContrastOptions = {}
+): GradientContrast | null => {
+  return measureGradient(color, gradient, THRESHOLDS[content][level]);
+};
+
+/**
+ * getImageRegionContrast measures a color — usually text — against every pixel
+ * of a region of an image, such as the area a caption covers on a photo.
+ *
+ * The pixels are raw RGBA bytes, as `ImageData.data` or an image library's raw
+ * output gives them, so it runs in Node without a DOM. The result gives the
+ * lowest and highest ratio, the ratio at a low percentile, and the share of
+ * pixels that meet the level; which of them to hold a design to is the
+ * caller's choice.
+ *
+ * @param color - the color over the image, in any supported format
+ * @param pixels - the whole image's pixels, 4 bytes each (RGBA), row by row
+ * @param width - the image's width in pixels
+ * @param height - the image's height in pixels
+ * @param region - the rectangle of the image the color sits over
+ * @param options - the `content` type and `level` a pixel must meet, defaulting
+ *   to AA for normal text, and the `percentile` to report, defaulting to 5
+ * @returns the measurement, or `null` if the color is invalid or translucent,
+ *   any pixel in the region is translucent, or the region, dimensions or
+ *   percentile are out of range
+ */
+export const getImageRegionContrast = (
+  color: string,
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  region: ImageRegion,
+  {
+    content = 'normal',
+    level = 'AA',
+    percentile = 5,
+  }: ImageRegionContrastOptions = {}
+): ImageRegionContrast | null => {
+  return measureImageRegion(
+    color,
+    pixels,
+    width,
+    height,
+    region,
+    THRESHOLDS[content][level],
+    percentile
+  );
+};
+
+/**
+ * getScrimOpacity finds the least opaque scrim — a flat overlay between an
+ * image and the text on it — that makes the text meet a level over a region of
+ * the image.
+ *
+ * The scrim is composited over each pixel as a browser would, at whole
+ * percentages of opacity from 0 upwards, and the first that passes is
+ * returned. `0` means the text already passes without one.
+ *
+ * @param color - the color over the scrim, in any supported format
+ * @param pixels - the whole image's pixels, 4 bytes each (RGBA), row by row
+ * @param width - the image's width in pixels
+ * @param height - the image's height in pixels
+ * @param region - the rectangle of the image the color sits over
+ * @param options - the `scrim` color, defaulting to black; the `content` type
+ *   and `level` to meet, defaulting to AA for normal text; and the
+ *   `percentile` of pixels that must meet it, defaulting to 0 for every pixel
+ * @returns the opacity, 0-1, or `null` if even an opaque scrim is not enough,
+ *   or the input cannot be measured — see `getImageRegionContrast`
+ */
+export const getScrimOpacity = (
+  color: string,
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  region: ImageRegion,
+  {
+    scrim = '#000000',
+    content = 'normal',
+    level = 'AA',
+    percentile = 0,
+  }: ScrimOpacityOptions = {}
+): number | null => {
+  return findScrimOpacity(
+    color,
+    pixels,
+    width,
+    height,
+    region,
+    scrim,
+    THRESHOLDS[content][level],
+    percentile
+  );
+};
+
 /**
  * randomColor will return a random color in hex format (e.g. `'#000000'`)
+ * @param random - source of randomness, defaulting to `Math.random`
  * @returns a random color in hex format (e.g. `'#000000'`)
  */
-export const randomColor = () => {
-  const hex = Math.floor(Math.random() * 16777215).toString(16);
+export const randomColor = (random: () => number = Math.random) => {
+  const hex = Math.floor(random() * 16777215).toString(16);
   return `#${hex.padStart(6, '0')}`;
 };
 
@@ -277,6 +726,11 @@ export interface RandomColorOptions {
    * generator to make output reproducible for snapshot tests or SSR.
    */
   random?: () => number;
+  /**
+   * Write the color in the background's format and syntax rather than as hex.
+   * A translucent background has no contrast to meet, so it returns `null`.
+   */
+  preserveFormat?: boolean;
 }
 
 /**
@@ -339,7 +793,7 @@ const randomColorAtRatio = (
     );
     if (found !== null) {
       // Must gamut-map exactly as the search loop did — see the matching
-      // comment in suggest.ts's suggestColorVariant for why.
+      // comment in suggest.ts's suggestVariants for why.
       return rgbToHex(oklabToRgb(gamutMapChroma(found.L, found.C, found.H)));
     }
   }
@@ -351,19 +805,40 @@ const randomColorAtRatio = (
   return meetsRatio(extreme, background) ? extreme : null;
 };
 
+/**
+ * A result written the way its input was, when `preserveFormat` asks for it.
+ * An input returned unchanged keeps its exact text.
+ */
+const writeLike = (
+  color: string | null,
+  input: string,
+  preserveFormat = false
+): string | null =>
+  color === null || !preserveFormat || color === input
+    ? color
+    : formatLike(color, input);
+
 /**
  * getRandomAAColor will return a random color that is accessible based on the
  * WCAG 2.0 AA standard, which requires a contrast ratio of at least 4.5:1.
  * @param background - the background color to use for the contrast ratio calculation.
- * @param large - whether the text should be considered large, adjusting the contrast ratio requirement to 3:1.
- * @returns a random color that is accessible based on the WCAG 2.0 AA standard.
+ * @param large - whether the text should be considered large, adjusting the contrast ratio requirement to 3:1, or the text's `TextStyle`.
+ * @returns a random color that is accessible based on the WCAG 2.0 AA standard, or `null` if the background is invalid or translucent, the text style is invalid, or no color can pass.
  */
 export const getRandomAAColor = (
   background: string,
-  large = false,
+  large: boolean | TextStyle = false,
   options: RandomColorOptions = {}
 ): string | null => {
-  return randomColorAtRatio(background, large ? 3 : 4.5, options);
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  return writeLike(
+    randomColorAtRatio(background, content === 'large' ? 3 : 4.5, options),
+    background,
+    options.preserveFormat
+  );
 };
 
 /**
@@ -371,43 +846,457 @@ export const getRandomAAColor = (
  * WCAG 2.0 AAA standard, which requires a contrast ratio of at least 7:1. It will
  * take into account the luminance of the background color (hash).
  * @param background - the background color to use for the contrast ratio calculation.
- * @param large - whether the text should be considered large, adjusting the contrast ratio requirement to 4.5:1.
- * @returns a random color that is accessible based on the WCAG 2.0 AAA standard.
+ * @param large - whether the text should be considered large, adjusting the contrast ratio requirement to 4.5:1, or the text's `TextStyle`.
+ * @returns a random color that is accessible based on the WCAG 2.0 AAA standard, or `null` if the background is invalid or translucent, the text style is invalid, or no color can pass.
  */
 export const getRandomAAAColor = (
   background: string,
-  large = false,
+  large: boolean | TextStyle = false,
   options: RandomColorOptions = {}
 ): string | null => {
-  return randomColorAtRatio(background, large ? 4.5 : 7, options);
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  return writeLike(
+    randomColorAtRatio(background, content === 'large' ? 4.5 : 7, options),
+    background,
+    options.preserveFormat
+  );
 };
 
 /**
  * suggestAAColor will return a close accessible color to the specified color with WCAG AA compatibility.
  * @param colorToChange - the color we want to find a close accessible color for.
  * @param colorToKeep - the color we want to keep the contrast ratio with.
- * @param large - whether the text should be considered large, adjusting the contrast ratio requirement to 3:1.
- * @returns a close accessible color to the specified `colorToChange` relative to the `colorToKeep`, or `null` if no accessible color can be found.
+ * @param large - whether the text should be considered large, adjusting the contrast ratio requirement to 3:1, or the text's `TextStyle`.
+ * @param options - `preserveFormat` to answer in the format of `colorToChange` rather than hex.
+ * @returns a close accessible color to the specified `colorToChange` relative to the `colorToKeep`, or `null` if no accessible color can be found, a color is translucent or the text style is invalid.
  */
 export const suggestAAColorVariant = (
   colorToChange: string,
   colorToKeep: string,
-  large?: boolean
+  large: boolean | TextStyle = false,
+  { preserveFormat }: PreserveFormatOptions = {}
 ): string | null => {
-  return suggestColorVariant(colorToChange, colorToKeep, isAAContrast, large);
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  const variant = nearestVariant(
+    colorToChange,
+    colorToKeep,
+    isAAContrast,
+    content === 'large'
+  );
+  return writeLike(variant, colorToChange, preserveFormat);
 };
 
 /**
  * suggestAAAColor will return a close accessible color to the specified color with WCAG AAA compatibility.
  * @param colorToChange - the color we want to find a close accessible color for.
  * @param colorToKeep - the color we want to keep the contrast ratio with.
- * @param large - whether the text should be considered large, adjusting the contrast ratio requirement to 4.5:1.
- * @returns a close accessible color to the specified `colorToChange` relative to the `colorToKeep`, or `null` if no accessible color can be found.
+ * @param large - whether the text should be considered large, adjusting the contrast ratio requirement to 4.5:1, or the text's `TextStyle`.
+ * @param options - `preserveFormat` to answer in the format of `colorToChange` rather than hex.
+ * @returns a close accessible color to the specified `colorToChange` relative to the `colorToKeep`, or `null` if no accessible color can be found, a color is translucent or the text style is invalid.
  */
 export const suggestAAAColorVariant = (
   colorToChange: string,
   colorToKeep: string,
-  large?: boolean
+  large: boolean | TextStyle = false,
+  { preserveFormat }: PreserveFormatOptions = {}
 ): string | null => {
-  return suggestColorVariant(colorToChange, colorToKeep, isAAAContrast, large);
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  const variant = nearestVariant(
+    colorToChange,
+    colorToKeep,
+    isAAAContrast,
+    content === 'large'
+  );
+  return writeLike(variant, colorToChange, preserveFormat);
+};
+
+/**
+ * What `suggestColorVariant` must meet: an explicit contrast `ratio`, or a
+ * WCAG `level` for a kind of `content` — or the `TextStyle` of the text —
+ * defaulting to AA for normal text.
+ */
+export type SuggestionTarget =
+  | { ratio: number }
+  | { level?: 'AA' | 'AAA'; content?: ContentType | TextStyle };
+
+/**
+ * suggestColorVariant returns the nearest variant of a color, in OKLCH
+ * lightness, that meets any contrast requirement against a fixed color — the
+ * general form of `suggestAAColorVariant` and `suggestAAAColorVariant`.
+ *
+ * Pass `{ ratio }` for a policy of your own, such as 5:1, or
+ * `{ level, content }` for a WCAG criterion, including SC 1.4.11 for
+ * `non-text` content. Non-text content has no AAA level, so requiring one
+ * finds nothing.
+ *
+ * @param colorToChange - the color we want to find a close accessible color for.
+ * @param colorToKeep - the color we want to keep the contrast ratio with.
+ * @param target - the ratio, or the level and content type, to meet.
+ * @param options - `preserveFormat` to answer in the format of
+ *   `colorToChange` rather than hex.
+ * @returns a close accessible color to `colorToChange` — unmodified if it
+ *   already passes — or `null` if a color or the text style is invalid, a
+ *   color is translucent, or none can pass.
+ */
+export const suggestColorVariant = (
+  colorToChange: string,
+  colorToKeep: string,
+  target: SuggestionTarget = {},
+  { preserveFormat }: PreserveFormatOptions = {}
+): string | null => {
+  let ratio: number;
+  if ('ratio' in target) {
+    ratio = target.ratio;
+  } else {
+    const content = contentOf(target.content ?? 'normal');
+    if (content === null) {
+      return null;
+    }
+    ratio = THRESHOLDS[content][target.level ?? 'AA'];
+  }
+  const variant = nearestVariant(colorToChange, colorToKeep, (c1, c2) =>
+    isContrasting(c1, c2, ratio)
+  );
+  return writeLike(variant, colorToChange, preserveFormat);
+};
+
+/** A candidate reported by `suggestColorVariantDetailed`. */
+export interface ColorVariantCandidate extends Variant {
+  /** The candidate's contrast ratio with `colorToKeep`, rounded to 3 places. */
+  ratio: number;
+}
+
+/** The result of `suggestColorVariantDetailed`. */
+export interface DetailedColorVariant {
+  /** The nearest passing lighter variant, or `null` if none is in range. */
+  lighter: ColorVariantCandidate | null;
+  /** The nearest passing darker variant, or `null` if none is in range. */
+  darker: ColorVariantCandidate | null;
+  /**
+   * The candidate `suggestAAColorVariant` would return, subject to the
+   * options: the original if it already passes, then the preferred direction,
+   * then the nearer. `null` if there is none.
+   */
+  chosen: ColorVariantCandidate | null;
+}
+
+/** Options accepted by `suggestColorVariantDetailed`. */
+export interface DetailedColorVariantOptions
+  extends Omit<VariantSearchOptions, 'large'>, PreserveFormatOptions {
+  /** The level to meet, defaulting to `AA`. */
+  level?: 'AA' | 'AAA';
+  /** Whether the text is large, or the text's `TextStyle`. */
+  large?: boolean | TextStyle;
+}
+
+/**
+ * suggestColorVariantDetailed runs the same search as `suggestAAColorVariant`
+ * and `suggestAAAColorVariant`, but reports both candidates it found — lighter
+ * and darker — with their ratios and ΔE OK, and which one it picked.
+ *
+ * @param colorToChange - the color we want to find a close accessible color for.
+ * @param colorToKeep - the color we want to keep the contrast ratio with.
+ * @param options - the `level`, `large` text, the `maxDeltaE` a candidate may
+ *   move, the direction to `prefer`, and `preserveFormat` to write candidates
+ *   in the format of `colorToChange`.
+ * @returns both candidates and the chosen one, or `null` if either color or
+ *   the text style is invalid, or a color is translucent.
+ */
+export const suggestColorVariantDetailed = (
+  colorToChange: string,
+  colorToKeep: string,
+  {
+    level = 'AA',
+    large = false,
+    preserveFormat,
+    ...options
+  }: DetailedColorVariantOptions = {}
+): DetailedColorVariant | null => {
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  const compareFn = level === 'AAA' ? isAAAContrast : isAAContrast;
+  const result = suggestVariants(colorToChange, colorToKeep, compareFn, {
+    ...options,
+    large: content === 'large',
+  });
+  if (result === null) {
+    return null;
+  }
+  const withRatio = (variant: Variant | null) =>
+    variant && {
+      ...variant,
+      color: writeLike(variant.color, colorToChange, preserveFormat) as string,
+      ratio: getContrast(variant.color, colorToKeep) as number,
+    };
+  return {
+    lighter: withRatio(result.lighter),
+    darker: withRatio(result.darker),
+    chosen: withRatio(result.chosen),
+  };
+};
+
+/**
+ * suggestColorVariantForAll returns the nearest variant of a color that meets
+ * WCAG contrast against every one of several backgrounds at once — a link
+ * color that must pass on the page, a card and a sidebar, say.
+ *
+ * The search walks OKLCH lightness as `suggestAAColorVariant` does. Several
+ * backgrounds can leave more than one window of passing lightness, or none; in
+ * the second case the result names the backgrounds responsible.
+ *
+ * @param color - the color to change, in any supported format
+ * @param backgrounds - the colors it must contrast with
+ * @param level - `AA` (4.5:1) or `AAA` (7:1), defaulting to `AA`
+ * @param large - whether the text is large, lowering the ratios to 3:1 and 4.5:1,
+ *   or the text's `TextStyle`
+ * @param options - `preserveFormat` to answer in the format of `color` rather
+ *   than hex
+ * @returns the nearest passing color, or `null` with the fewest conflicting
+ *   backgrounds — or `null` outright if any color or the text style is
+ *   invalid, or any color is translucent
+ */
+export const suggestColorVariantForAll = (
+  color: string,
+  backgrounds: readonly string[],
+  level: 'AA' | 'AAA' = 'AA',
+  large: boolean | TextStyle = false,
+  { preserveFormat }: PreserveFormatOptions = {}
+): SuggestionForAll | null => {
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  const ratio = THRESHOLDS[content][level];
+  const suggestion = suggestForAll(
+    color,
+    backgrounds,
+    ratio,
+    getLuminance,
+    isContrasting
+  );
+  return (
+    suggestion && {
+      ...suggestion,
+      color: writeLike(suggestion.color, color, preserveFormat),
+    }
+  );
+};
+
+/**
+ * suggestColorPair adjusts a foreground and background together, for when
+ * neither is fixed: nudging both a little can look better than moving one a
+ * lot.
+ *
+ * The two move apart in OKLCH lightness, one lighter and one darker, until the
+ * pair meets the level. Of the passing pairs, the one with the least combined
+ * ΔE OK from the originals is returned, weighted by `weight`.
+ *
+ * @param foreground - the foreground color, in any supported format
+ * @param background - the background color, in any supported format
+ * @param level - `AA` or `AAA`, defaulting to `AA`
+ * @param options - `large` text or the text's `TextStyle`, the `weight` of
+ *   each color's movement, and `preserveFormat` to write each color in the
+ *   format it was given in
+ * @returns both colors in hex format with their ratio and ΔE OK — the pair
+ *   unchanged if it already passes — or `null` if a color or the text style is
+ *   invalid, a color is translucent, `weight` is not a number or no pair can
+ *   pass
+ */
+export const suggestColorPair = (
+  foreground: string,
+  background: string,
+  level: 'AA' | 'AAA' = 'AA',
+  { large = false, weight = 0.5, preserveFormat }: ColorPairOptions = {}
+): ColorPairSuggestion | null => {
+  const content = contentOf(large);
+  if (content === null) {
+    return null;
+  }
+  const ratio = THRESHOLDS[content][level];
+  const pair = suggestPair(
+    foreground,
+    background,
+    (c1, c2) => isContrasting(c1, c2, ratio),
+    weight
+  );
+  if (pair === null) {
+    return null;
+  }
+  return {
+    ...pair,
+    foreground: writeLike(
+      pair.foreground,
+      foreground,
+      preserveFormat
+    ) as string,
+    background: writeLike(
+      pair.background,
+      background,
+      preserveFormat
+    ) as string,
+    ratio: getContrast(pair.foreground, pair.background) as number,
+  };
+};
+
+/**
+ * suggestLinkColor returns the nearest variant of a link color that body text
+ * and its background allow under WCAG technique G183: 3:1 against the text and
+ * 4.5:1 against the background, both at once — see `getLinkContrastReport`.
+ *
+ * The search walks OKLCH lightness as `suggestColorVariantForAll` does, so the
+ * link keeps its hue.
+ *
+ * @param link - the link color to change, in any supported format
+ * @param text - the surrounding body text color, which is kept
+ * @param background - the background behind both, which is kept
+ * @param options - `preserveFormat` to answer in the format of `link` rather
+ *   than hex
+ * @returns the nearest passing link color — `link` itself if it already
+ *   passes — or `null` if a color is invalid or translucent, the text itself
+ *   fails 4.5:1 on the background, or no link color can meet both ratios
+ */
+export const suggestLinkColor = (
+  link: string,
+  text: string,
+  background: string,
+  { preserveFormat }: PreserveFormatOptions = {}
+): string | null => {
+  if (!isContrasting(text, background, ON_BACKGROUND)) {
+    return null;
+  }
+  const suggestion = suggestForAll(
+    link,
+    [text, background],
+    [LINK_TO_TEXT, ON_BACKGROUND],
+    getLuminance,
+    isContrasting
+  );
+  return writeLike(suggestion?.color ?? null, link, preserveFormat);
+};
+
+/**
+ * generateAccessibleScale builds a tonal scale — 50, 100, 200 … 900, 950 by
+ * default — from a single brand color, with chosen steps guaranteed to meet a
+ * contrast ratio against light and dark reference backgrounds.
+ *
+ * Steps share the base color's OKLCH hue and chroma at evenly spaced
+ * lightness, gamut-mapped as `suggestAAColorVariant` does. A step that misses
+ * its guarantee is moved only as far in lightness as it must, so hue holds
+ * steady across the scale.
+ *
+ * @param base - the brand color, in any supported format
+ * @param options - step names, reference backgrounds and guarantees; by
+ *   default 600 and above pass AA on white, and 400 and below pass AA on black
+ * @returns the steps, lightest first, each with its contrast report against
+ *   both backgrounds — or `null` if a color is invalid, a background is
+ *   translucent, or a guarantee cannot be met
+ */
+export const generateAccessibleScale = (
+  base: string,
+  options: AccessibleScaleOptions = {}
+): ScaleStep[] | null => {
+  return buildScale(base, options);
+};
+
+/**
+ * deriveDarkTheme derives a dark counterpart of a light theme, keeping the
+ * contrast of each of its pairings.
+ *
+ * Every role's OKLCH lightness is mirrored, at its own hue and chroma as far
+ * as the sRGB gamut allows. Each pairing must then meet at least the level it
+ * met in the light theme. A role of any that falls short — its foreground
+ * where that is enough, else its background — is moved to the nearest variant
+ * meeting, in each of its pairings, the level that pairing owes, until none
+ * falls short. Where moving one role at a time cannot get there, the roles
+ * involved take their light colors with luminance inverted, which keeps every
+ * ratio.
+ *
+ * @param theme - the light theme: each role's `colors`, and the `pairings` of
+ *   foreground and background roles whose contrast it must keep
+ * @returns the dark colors in hex format, with a report of every pairing that
+ *   needed more than mirroring — or `null` if a color is invalid or
+ *   translucent, or a pairing names a role with no color
+ */
+export const deriveDarkTheme = (theme: Theme): DarkTheme | null => {
+  return darkenTheme(theme);
+};
+
+/**
+ * validateTheme checks a theme role by role: rules say which roles are drawn
+ * on which surfaces, and for what kind of content, and every pair of roles
+ * they cover is checked.
+ *
+ * Each rule takes one role or a list on either side, so that `text`,
+ * `textMuted` and `link` can be checked on `surface` and `card` in one rule,
+ * and `border` and `focusRing` as `non-text` in another.
+ *
+ * @param theme - each role's color, in any supported format
+ * @param rules - the foreground and background roles, `content` type and
+ *   `level` of each rule, defaulting to AA for normal text
+ * @returns each pair's level, verdict and full report, in rule order — or
+ *   `null` if a color is invalid or translucent, or a rule names a role with no
+ *   color
+ */
+export const validateTheme = (
+  theme: Record<string, string>,
+  rules: readonly ThemeRule[]
+): ThemeRoleCheck[] | null => {
+  return checkTheme(theme, rules);
+};
+
+/**
+ * auditDesignTokens checks the foreground/background pairings of a design
+ * token file in the W3C Design Tokens Community Group (DTCG) format.
+ *
+ * Groups and aliases (`{color.brand.primary}`) are resolved, and `$type` is
+ * inherited from enclosing groups as the format specifies. A pairing whose
+ * token is missing, is not a color, or sits in an alias cycle fails with an
+ * `error` rather than being skipped.
+ *
+ * @link https://tr.designtokens.org/format/
+ * @param document - the token document, as JSON text or already parsed
+ * @param pairings - the pairs of token paths to check, each with its content
+ *   type and required level
+ * @returns one result per pairing, in order, naming the token paths involved
+ *   and, for a failure, a passing replacement `$value` for the foreground —
+ *   or `null` if `document` is not a JSON object
+ */
+export const auditDesignTokens = (
+  document: string | object,
+  pairings: readonly TokenPairing[]
+): TokenPairingResult[] | null => {
+  return auditTokens(document, pairings);
+};
+
+/**
+ * auditStylesheet finds the rules in a stylesheet whose `color` fails against
+ * their `background-color`, or `background` if it is a solid color.
+ *
+ * Only rules that declare both are checked, each on its own declarations — the
+ * cascade is not modelled. A value that is not one opaque color, such as
+ * `var(--brand)`, a gradient or `rgba(0 0 0 / 50%)`, is reported as `unknown`
+ * rather than passed.
+ *
+ * @param css - the stylesheet source
+ * @param options - the content type the rules style and the level to require,
+ *   defaulting to `normal` and `AA`
+ * @returns every failing or unknown rule with its selector, position and
+ *   `ContrastReport`, in source order
+ */
+export const auditStylesheet = (
+  css: string,
+  options: StylesheetAuditOptions = {}
+): StylesheetFinding[] => {
+  return findStylesheetIssues(css, options);
 };
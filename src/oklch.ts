@@ -4,10 +4,11 @@ import type { RGB } from './types';
  * OKLab / OKLCH color space conversion, following Björn Ottosson's reference
  * implementation (https://bottosson.github.io/posts/oklab/).
  *
- * Used only by the perceptual suggestion search in `suggest.ts`. WCAG relative
- * luminance (`index.ts`) is a deliberately separate calculation with its own
- * linearization constants — the two are never shared, so a change to one can
- * never silently perturb the other.
+ * Used by the perceptual suggestion search in `suggest.ts`, and by the parser
+ * for `oklch()`/`oklab()` and for gamut-mapping any color that sRGB cannot
+ * show. WCAG relative luminance (`index.ts`) is a deliberately separate
+ * calculation with its own linearization constants — the two are never shared,
+ * so a change to one can never silently perturb the other.
  *
  * OKLab is designed so that equal Euclidean steps correspond to roughly equal
  * perceived differences, which HSL is not: darkening a saturated yellow by a
@@ -45,11 +46,29 @@ const linearToSrgb = (c: number): number =>
 
 const clamp01 = (v: number): number => Math.min(1, Math.max(0, v));
 
-export const rgbToOklab = ({ r, g, b }: RGB): OKLab => {
-  const lr = srgbToLinear(r / 255);
-  const lg = srgbToLinear(g / 255);
-  const lb = srgbToLinear(b / 255);
+/** 8-bit sRGB channels to linear light, 0-1. */
+export const rgbToLinearRgb = ({ r, g, b }: RGB): RGB => ({
+  r: srgbToLinear(r / 255),
+  g: srgbToLinear(g / 255),
+  b: srgbToLinear(b / 255),
+});
 
+/** Linear-light channels to 8-bit sRGB, clamping anything out of gamut. */
+export const linearRgbToRgb = ({ r, g, b }: RGB): RGB => ({
+  r: Math.round(clamp01(linearToSrgb(r)) * 255),
+  g: Math.round(clamp01(linearToSrgb(g)) * 255),
+  b: Math.round(clamp01(linearToSrgb(b)) * 255),
+});
+
+export const rgbToOklab = (rgb: RGB): OKLab =>
+  linearRgbToOklab(rgbToLinearRgb(rgb));
+
+/**
+ * OKLab for linear-light sRGB channels in [0, 1]. Channels outside that range
+ * are accepted — they describe a color beyond the sRGB gamut, such as a
+ * converted `lab()` value, which gamut mapping then brings back in.
+ */
+export const linearRgbToOklab = ({ r: lr, g: lg, b: lb }: RGB): OKLab => {
   const l = 0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb;
   const m = 0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb;
   const s = 0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb;
@@ -71,7 +90,7 @@ export const rgbToOklab = ({ r, g, b }: RGB): OKLab => {
  * the signal `isInGamut` and the chroma-reduction search need, so this stops
  * short of clamping rather than hiding that information.
  */
-const oklabToLinearRgb = ({ L, a, b }: OKLab): RGB => {
+export const oklabToLinearRgb = ({ L, a, b }: OKLab): RGB => {
   const l_ = L + 0.3963377774 * a + 0.2158037573 * b;
   const m_ = L - 0.1055613458 * a - 0.0638541728 * b;
   const s_ = L - 0.0894841775 * a - 1.291485548 * b;
@@ -102,14 +121,8 @@ export const isInGamut = (lab: OKLab): boolean => {
 };
 
 /** Converts an OKLab point to 8-bit sRGB, clamping any residual gamut error. */
-export const oklabToRgb = (lab: OKLab): RGB => {
-  const { r, g, b } = oklabToLinearRgb(lab);
-  return {
-    r: Math.round(clamp01(linearToSrgb(r)) * 255),
-    g: Math.round(clamp01(linearToSrgb(g)) * 255),
-    b: Math.round(clamp01(linearToSrgb(b)) * 255),
-  };
-};
+export const oklabToRgb = (lab: OKLab): RGB =>
+  linearRgbToRgb(oklabToLinearRgb(lab));
 
 export const oklabToOklch = ({ L, a, b }: OKLab): OKLCH => {
   const C = Math.sqrt(a * a + b * b);
@@ -1,5 +1,21 @@
-import type { RGB } from './types';
-import { hexToRgb, hslToRgb } from './helpers';
+import type { RGB, RGBA } from './types';
+import { hexToRgba, hslToRgb } from './helpers';
+import {
+  gamutMapChroma,
+  linearRgbToOklab,
+  oklabToLinearRgb,
+  oklabToOklch,
+  oklabToRgb,
+  oklchToOklab,
+  type OKLab,
+} from './oklch';
+import {
+  colorSpaceToXyz,
+  d50ToD65,
+  labToXyzD50,
+  lchToLab,
+  xyzToLinearRgb,
+} from './xyz';
 
 /**
  * Parsing for the CSS color formats a real codebase actually holds.
@@ -12,6 +28,10 @@ import { hexToRgb, hslToRgb } from './helpers';
  * Every function here returns `null` rather than throwing or guessing. An
  * accessibility library that misreads its input reports false compliance, which
  * is worse than reporting nothing.
+ *
+ * The CSS named colors are the one exception to "built in": their table is
+ * the largest piece of data in the library, so it lives in `named.ts` and is
+ * added with `registerColorParsers` by the callers that need it.
  */
 
 /**
@@ -100,14 +120,14 @@ const splitArguments = (body: string): string[] | null => {
 };
 
 /**
- * Parse `rgb()` / `rgba()` in either syntax.
- *
- * Alpha is validated for well-formedness and then discarded: WCAG contrast is
- * undefined for a translucent color without a known backdrop, so silently
- * treating a 10%-opacity color as opaque would produce a confidently wrong
- * verdict.
+ * Read an optional alpha token as a 0-1 number or percentage, defaulting to
+ * fully opaque when the color carries no alpha at all.
  */
-const parseRgbFunction = (args: string[]): RGB | null => {
+const parseAlpha = (token: string | undefined): number | null =>
+  token === undefined ? 1 : parseNumeric(token, 1);
+
+/** Parse `rgb()` / `rgba()` in either syntax. */
+const parseRgbFunction = (args: string[]): RGBA | null => {
   if (args.length !== 3 && args.length !== 4) return null;
 
   const [rToken, gToken, bToken] = args;
@@ -118,13 +138,14 @@ const parseRgbFunction = (args: string[]): RGB | null => {
   const r = parseNumeric(rToken, 255);
   const g = parseNumeric(gToken, 255);
   const b = parseNumeric(bToken, 255);
-  if (r === null || g === null || b === null) return null;
+  const a = parseAlpha(args[3]);
+  if (r === null || g === null || b === null || a === null) return null;
 
-  return { r: Math.round(r), g: Math.round(g), b: Math.round(b) };
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b), a };
 };
 
 /** Parse `hsl()` / `hsla()` in either syntax, reusing the existing HSL math. */
-const parseHslFunction = (args: string[]): RGB | null => {
+const parseHslFunction = (args: string[]): RGBA | null => {
   if (args.length !== 3 && args.length !== 4) return null;
 
   const [hToken, sToken, lToken] = args;
@@ -135,40 +156,290 @@ const parseHslFunction = (args: string[]): RGB | null => {
   const h = parseHue(hToken);
   const s = parseNumeric(sToken, 1, true);
   const l = parseNumeric(lToken, 1, true);
-  if (h === null || s === null || l === null) return null;
+  const a = parseAlpha(args[3]);
+  if (h === null || s === null || l === null || a === null) return null;
+
+  return { ...hslToRgb({ h, s, l }), a };
+};
+
+/**
+ * Read a component of a Lab-family color: a `<number>`, a `<percentage>` of
+ * `percentScale`, or `none`, which CSS treats as zero here.
+ *
+ * Unlike `parseNumeric` this does not clamp. The `a` and `b` axes are signed,
+ * and a color outside sRGB is gamut-mapped as a whole afterwards rather than
+ * clipped one channel at a time.
+ */
+const parseComponent = (token: string, percentScale: number): number | null => {
+  const trimmed = token.trim().toLowerCase();
+  if (trimmed === 'none') return 0;
+
+  const isPercent = trimmed.endsWith('%');
+  const digits = isPercent ? trimmed.slice(0, -1) : trimmed;
+  if (digits === '') return null;
+
+  const numeric = Number(digits);
+  if (!Number.isFinite(numeric)) return null;
+  return isPercent ? (numeric / 100) * percentScale : numeric;
+};
+
+/** Read a Lab-family hue, which may also be `none`. */
+const parseComponentHue = (token: string): number | null =>
+  token.trim().toLowerCase() === 'none' ? 0 : parseHue(token);
+
+const clamp = (value: number, max: number): number =>
+  Math.min(max, Math.max(0, value));
+
+/**
+ * Bring an OKLab point into sRGB by reducing chroma at constant lightness and
+ * hue, rather than clipping each channel. Clipping shifts lightness, and with
+ * it luminance, so contrast would be measured for a color neither the author
+ * wrote nor the screen shows.
+ */
+export const mapToSrgb = (lab: OKLab): RGB => {
+  const { L, C, H } = oklabToOklch(lab);
+  return oklabToRgb(gamutMapChroma(clamp(L, 1), C, H));
+};
+
+/**
+ * A color from a function that can reach beyond sRGB, held in OKLab before
+ * gamut mapping. OKLab can represent any visible color, so nothing the author
+ * wrote is lost until `mapToSrgb` is applied.
+ */
+interface WideColor {
+  lab: OKLab;
+  alpha: number;
+}
+
+/**
+ * Parse `oklab()` or, when `polar`, `oklch()`. Percentages scale lightness to
+ * 1 and chroma and the `a`/`b` axes to 0.4, per CSS Color 4.
+ */
+const parseOklabFunction = (
+  args: string[],
+  polar: boolean
+): WideColor | null => {
+  if (args.length !== 3 && args.length !== 4) return null;
+
+  const [lToken, token2, token3] = args;
+  if (lToken === undefined || token2 === undefined || token3 === undefined) {
+    return null;
+  }
 
-  return hslToRgb({ h, s, l });
+  const L = parseComponent(lToken, 1);
+  const second = parseComponent(token2, 0.4);
+  const third = polar ? parseComponentHue(token3) : parseComponent(token3, 0.4);
+  const alpha = parseAlpha(args[3]);
+  if (L === null || second === null || third === null || alpha === null) {
+    return null;
+  }
+
+  const lab = polar
+    ? oklchToOklab({ L: clamp(L, 1), C: Math.max(0, second), H: third })
+    : { L, a: second, b: third };
+  return { lab, alpha };
+};
+
+/**
+ * Parse CIE `lab()` or, when `polar`, `lch()`. Percentages scale lightness to
+ * 100, the `a`/`b` axes to 125 and chroma to 150, per CSS Color 4. Converted
+ * through XYZ D50 with Bradford adaptation to D65 — see `xyz.ts`.
+ */
+const parseLabFunction = (args: string[], polar: boolean): WideColor | null => {
+  if (args.length !== 3 && args.length !== 4) return null;
+
+  const [lToken, token2, token3] = args;
+  if (lToken === undefined || token2 === undefined || token3 === undefined) {
+    return null;
+  }
+
+  const L = parseComponent(lToken, 100);
+  const second = parseComponent(token2, polar ? 150 : 125);
+  const third = polar ? parseComponentHue(token3) : parseComponent(token3, 125);
+  const alpha = parseAlpha(args[3]);
+  if (L === null || second === null || third === null || alpha === null) {
+    return null;
+  }
+
+  const lab = polar
+    ? lchToLab(clamp(L, 100), Math.max(0, second), third)
+    : { L: clamp(L, 100), a: second, b: third };
+  const linear = xyzToLinearRgb(d50ToD65(labToXyzD50(lab)));
+  return { lab: linearRgbToOklab(linear), alpha };
+};
+
+/**
+ * Parse `color()` in one of the predefined spaces — `srgb`, `srgb-linear`,
+ * `display-p3`, `a98-rgb`, `prophoto-rgb`, `rec2020` or `xyz`. Channels are
+ * numbers or percentages of 1 and are not clamped: a value outside 0-1
+ * describes a color outside that space, which gamut mapping handles.
+ */
+const parseColorFunction = (args: string[]): WideColor | null => {
+  if (args.length !== 4 && args.length !== 5) return null;
+
+  const [spaceToken, token1, token2, token3] = args;
+  if (
+    spaceToken === undefined ||
+    token1 === undefined ||
+    token2 === undefined ||
+    token3 === undefined
+  ) {
+    return null;
+  }
+
+  const c1 = parseComponent(token1, 1);
+  const c2 = parseComponent(token2, 1);
+  const c3 = parseComponent(token3, 1);
+  const alpha = parseAlpha(args[4]);
+  if (c1 === null || c2 === null || c3 === null || alpha === null) {
+    return null;
+  }
+
+  const xyz = colorSpaceToXyz(spaceToken.toLowerCase(), [c1, c2, c3]);
+  if (xyz === null) return null;
+  return { lab: linearRgbToOklab(xyzToLinearRgb(xyz)), alpha };
 };
 
 /** Matches `name(...)`, capturing the function name and its interior. */
 const FUNCTION_PATTERN = /^([a-z]+)\((.*)\)$/i;
 
+/** Matches a bare CSS keyword, such as a named color. */
+const KEYWORD_PATTERN = /^[a-z]+$/i;
+
+interface FunctionCall {
+  /** The function name, lower-case. */
+  name: string;
+  args: string[];
+  /** Whether the legacy comma syntax was used. */
+  legacy: boolean;
+}
+
+/** Split `name(...)` into its lower-case name and component tokens. */
+const matchFunction = (color: string): FunctionCall | null => {
+  const match = FUNCTION_PATTERN.exec(color);
+  const name = match?.[1]?.toLowerCase();
+  const body = match?.[2];
+  if (name === undefined || body === undefined) return null;
+
+  const args = splitArguments(body);
+  if (args === null) return null;
+
+  return { name, args, legacy: body.includes(',') };
+};
+
+/** Parse one of the functions that can describe a color beyond sRGB. */
+const parseWideFunction = ({
+  name,
+  args,
+  legacy,
+}: FunctionCall): WideColor | null => {
+  // These were all introduced after CSS stopped adding comma syntax.
+  if (legacy) return null;
+
+  switch (name) {
+    case 'oklab':
+      return parseOklabFunction(args, false);
+    case 'oklch':
+      return parseOklabFunction(args, true);
+    case 'lab':
+      return parseLabFunction(args, false);
+    case 'lch':
+      return parseLabFunction(args, true);
+    case 'color':
+      return parseColorFunction(args);
+    default:
+      return null;
+  }
+};
+
+/** Options accepted by `parseColor` and `parseColorWithAlpha`. */
+export interface ParseOptions {
+  /**
+   * The color `currentColor` resolves to — in CSS, the element's `color`
+   * property. Without it `currentColor` cannot be known and parses as `null`.
+   */
+  currentColor?: string;
+}
+
 /**
- * parseColor converts any supported CSS color string into RGB channels.
+ * A parser for color keywords beyond `transparent` and `currentColor`, such as
+ * `namedColors`.
+ */
+export interface ColorParser {
+  /** Parse a bare keyword, given in lower case; `null` if it is not known. */
+  parseKeyword: (keyword: string) => RGBA | null;
+}
+
+/** The parsers `registerColorParsers` has added, in the order added. */
+const registered: ColorParser[] = [];
+
+/**
+ * registerColorParsers adds keywords to every function that reads a color.
+ * Registering a parser that is already registered does nothing.
  *
- * Supported: hex (`#abc`, `#abcd`, `#aabbcc`, `#aabbccdd`), `rgb()`/`rgba()`,
- * and `hsl()`/`hsla()`, each in both legacy comma and modern space syntax.
+ * @param parsers - the parsers to add, such as `namedColors` for the CSS named
+ *   colors
+ */
+export const registerColorParsers = (...parsers: ColorParser[]): void => {
+  for (const parser of parsers) {
+    if (!registered.includes(parser)) registered.push(parser);
+  }
+};
+
+/**
+ * Resolve a bare keyword: `transparent`, `currentColor`, or one a registered
+ * parser knows, such as a named color. `currentColor` may not resolve to
+ * itself, which in CSS would be a cycle.
+ */
+const parseKeyword = (
+  keyword: string,
+  { currentColor }: ParseOptions
+): RGBA | null => {
+  if (keyword === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  if (keyword === 'currentcolor') {
+    return currentColor === undefined
+      ? null
+      : parseColorWithAlpha(currentColor);
+  }
+  for (const parser of registered) {
+    const rgba = parser.parseKeyword(keyword);
+    if (rgba !== null) return rgba;
+  }
+  return null;
+};
+
+/**
+ * parseColorWithAlpha converts any supported CSS color string into RGB
+ * channels plus its alpha, 0-1.
+ *
+ * Accepts everything `parseColor` accepts. Use this rather than `parseColor`
+ * when a color may be translucent and the caller intends to composite it —
+ * see `compositeOver`.
  *
  * @param color - a CSS color string
- * @returns the RGB channels, or `null` if the input is not a supported color
+ * @param options - the context `currentColor` resolves against
+ * @returns the RGBA channels, or `null` if the input is not a supported color
  */
-export const parseColor = (color: string): RGB | null => {
+export const parseColorWithAlpha = (
+  color: string,
+  options: ParseOptions = {}
+): RGBA | null => {
   if (typeof color !== 'string') return null;
 
   const trimmed = color.trim();
   if (trimmed === '') return null;
 
   // Hex is by far the most common input; try it before the function forms.
-  const hex = hexToRgb(trimmed);
+  const hex = hexToRgba(trimmed);
   if (hex !== null) return hex;
 
-  const match = FUNCTION_PATTERN.exec(trimmed);
-  const name = match?.[1]?.toLowerCase();
-  const body = match?.[2];
-  if (name === undefined || body === undefined) return null;
+  if (KEYWORD_PATTERN.test(trimmed)) {
+    return parseKeyword(trimmed.toLowerCase(), options);
+  }
 
-  const args = splitArguments(body);
-  if (args === null) return null;
+  const match = matchFunction(trimmed);
+  if (match === null) return null;
+  const { name, args } = match;
 
   switch (name) {
     case 'rgb':
@@ -177,7 +448,55 @@ export const parseColor = (color: string): RGB | null => {
     case 'hsl':
     case 'hsla':
       return parseHslFunction(args);
-    default:
-      return null;
+    default: {
+      const wide = parseWideFunction(match);
+      return wide === null ? null : { ...mapToSrgb(wide.lab), a: wide.alpha };
+    }
   }
 };
+
+/**
+ * parseColor converts any supported CSS color string into RGB channels.
+ *
+ * Supported: hex (`#abc`, `#abcd`, `#aabbcc`, `#aabbccdd`), `rgb()`/`rgba()`,
+ * and `hsl()`/`hsla()`, each in both legacy comma and modern space syntax;
+ * `oklab()`, `oklch()`, `lab()`, `lch()` and `color()` in its predefined
+ * spaces, all gamut-mapped into sRGB; `transparent`; and `currentColor` when
+ * `options.currentColor` says what it resolves to. The CSS named colors are
+ * read once `namedColors` is registered — see `registerColorParsers`.
+ *
+ * Alpha is validated for well-formedness and then discarded rather than
+ * guessed at: WCAG contrast is undefined for a translucent color without a
+ * known backdrop. Use `parseColorWithAlpha` to keep it.
+ *
+ * @param color - a CSS color string
+ * @param options - the context `currentColor` resolves against
+ * @returns the RGB channels, or `null` if the input is not a supported color
+ */
+export const parseColor = (
+  color: string,
+  options: ParseOptions = {}
+): RGB | null => {
+  const rgba = parseColorWithAlpha(color, options);
+  if (rgba === null) return null;
+
+  const { r, g, b } = rgba;
+  return { r, g, b };
+};
+
+/**
+ * The color a wide-gamut CSS function describes, before gamut mapping, as
+ * linear-light sRGB channels that may lie outside [0, 1].
+ *
+ * @param color - a CSS color string
+ * @returns the unmapped channels, or `null` if the input is invalid or in a
+ *   format that cannot leave sRGB (hex, `rgb()`, `hsl()`, keywords), for which
+ *   `parseColor` is already exact
+ */
+export const parseWideGamut = (color: string): RGB | null => {
+  if (typeof color !== 'string') return null;
+
+  const match = matchFunction(color.trim());
+  const wide = match === null ? null : parseWideFunction(match);
+  return wide === null ? null : oklabToLinearRgb(wide.lab);
+};
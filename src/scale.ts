@@ -0,0 +1,157 @@
+import { parseOpaque } from './composite';
+import { parseColor } from './parse';
+import { rgbToHex } from './helpers';
+import { gamutMapChroma, oklabToOklch, oklabToRgb, rgbToOklab } from './oklch';
+import { binarySearchContrast } from './suggest';
+import {
+  getContrastReport,
+  isContrasting,
+  type ContrastReport,
+} from './contrast';
+
+/**
+ * Tonal scale generation: a 50-950 ramp of one brand color, with chosen steps
+ * guaranteed to meet a contrast ratio against light and dark backgrounds.
+ *
+ * Each step is the base color's OKLCH hue and chroma at a lightness fixed by
+ * the step number, gamut-mapped exactly as the suggestion search does, so hue
+ * stays stable from the palest tint to the deepest shade. A step that misses
+ * its guarantee is then walked in lightness — with the same
+ * `binarySearchContrast` as `suggestAAColorVariant` — only as far as it needs
+ * to go.
+ */
+
+/** The Tailwind-style step names generated when none are given. */
+const DEFAULT_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+/** OKLCH lightness at step 50 and at step 950; other steps interpolate. */
+const LIGHTEST = 0.97;
+const DARKEST = 0.27;
+
+/** A contrast ratio a range of steps must meet against one background. */
+export interface ScaleGuarantee {
+  /** The minimum contrast ratio, between 1 and 21. */
+  ratio: number;
+  /** The steps it applies to: `from` upward, or up to and including `to`. */
+  from?: number;
+  to?: number;
+}
+
+/** Options accepted by `generateAccessibleScale`. */
+export interface AccessibleScaleOptions {
+  /** Step names, 0-1000, lightest first. Defaults to 50, 100, 200 … 900, 950. */
+  steps?: readonly number[];
+  /** The light reference background, defaulting to white. */
+  light?: string;
+  /** The dark reference background, defaulting to black. */
+  dark?: string;
+  /**
+   * What must pass against `light`. Defaults to AA for body text from 600
+   * upward: `{ ratio: 4.5, from: 600 }`. Pass `null` for no guarantee.
+   */
+  onLight?: ScaleGuarantee | null;
+  /**
+   * What must pass against `dark`. Defaults to AA for body text up to 400:
+   * `{ ratio: 4.5, to: 400 }`. Pass `null` for no guarantee.
+   */
+  onDark?: ScaleGuarantee | null;
+}
+
+/** One step of a generated scale. */
+export interface ScaleStep {
+  /** The step name, e.g. `500`. */
+  step: number;
+  /** The color in hex format (e.g. `'#000000'`). */
+  color: string;
+  /** Every WCAG verdict against the light reference background. */
+  onLight: ContrastReport;
+  /** Every WCAG verdict against the dark reference background. */
+  onDark: ContrastReport;
+}
+
+/** Whether `guarantee` covers `step`. */
+const covers = (
+  guarantee: ScaleGuarantee | null,
+  step: number
+): guarantee is ScaleGuarantee =>
+  guarantee !== null &&
+  step >= (guarantee.from ?? -Infinity) &&
+  step <= (guarantee.to ?? Infinity);
+
+/**
+ * buildScale generates the scale behind `generateAccessibleScale`.
+ *
+ * @param base - the brand color, in any supported format
+ * @param options - see `AccessibleScaleOptions`
+ * @returns the steps, lightest first, or `null` if a color is invalid, a
+ *   background is translucent, or a guarantee cannot be met at the base
+ *   color's hue
+ */
+export const buildScale = (
+  base: string,
+  {
+    steps = DEFAULT_STEPS,
+    light = '#ffffff',
+    dark = '#000000',
+    onLight = { ratio: 4.5, from: 600 },
+    onDark = { ratio: 4.5, to: 400 },
+  }: AccessibleScaleOptions
+): ScaleStep[] | null => {
+  const rgb = parseColor(base);
+  if (
+    rgb === null ||
+    parseOpaque(light) === null ||
+    parseOpaque(dark) === null
+  ) {
+    return null;
+  }
+  const { C, H } = oklabToOklch(rgbToOklab(rgb));
+  const toHex = (L: number) => rgbToHex(oklabToRgb(gamutMapChroma(L, C, H)));
+
+  const scale: ScaleStep[] = [];
+  for (const step of steps) {
+    const t = (step - 50) / 900;
+    let L = Math.min(1, Math.max(0, LIGHTEST + (DARKEST - LIGHTEST) * t));
+
+    // Walk away from whichever background the step must contrast with. When
+    // both guarantees cover a step the second walk may undo the first; the
+    // check below catches that.
+    for (const [guarantee, background, direction] of [
+      [onLight, light, 'darken'],
+      [onDark, dark, 'lighten'],
+    ] as const) {
+      if (!covers(guarantee, step)) continue;
+      const meets = (c: string, f: string) =>
+        isContrasting(c, f, guarantee.ratio);
+      if (meets(toHex(L), background)) continue;
+
+      const found = binarySearchContrast(
+        { L, C, H },
+        background,
+        direction,
+        meets
+      );
+      if (found === null) return null;
+      L = found.L;
+    }
+
+    const color = toHex(L);
+    // A step covered by both guarantees may have been walked out of one
+    // while satisfying the other. Never publish a step that fails either.
+    if (
+      (covers(onLight, step) && !isContrasting(color, light, onLight.ratio)) ||
+      (covers(onDark, step) && !isContrasting(color, dark, onDark.ratio))
+    ) {
+      return null;
+    }
+
+    // All three colors are known to parse, so neither report can be null.
+    scale.push({
+      step,
+      color,
+      onLight: getContrastReport(color, light) as ContrastReport,
+      onDark: getContrastReport(color, dark) as ContrastReport,
+    });
+  }
+  return scale;
+};
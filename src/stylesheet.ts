@@ -0,0 +1,238 @@
+import { rgbToHex } from './helpers';
+import { parseColorWithAlpha } from './parse';
+import {
+  getContrastLevel,
+  getContrastReport,
+  type ContrastReport,
+} from './contrast';
+import type { ContentType } from './types';
+
+/**
+ * Stylesheet auditing: finding the rules in raw CSS text that set a text color
+ * and a background color that fail together.
+ *
+ * This is not a CSS parser in the full sense. It reads just enough structure —
+ * comments, strings, blocks and declarations — to find each rule's selector and
+ * its `color`, `background-color` and `background` declarations, with their
+ * positions. It knows nothing of the cascade: a rule is judged only on what it
+ * declares itself.
+ *
+ * A value that cannot be resolved to one opaque color is reported as `unknown`
+ * and never as a pass. That covers `var()`, gradients, images and translucent
+ * colors, whose contrast depends on what lies beneath them.
+ */
+
+/** Options accepted by `auditStylesheet`. */
+export interface StylesheetAuditOptions {
+  /** The kind of content the rules style, defaulting to `normal`. */
+  content?: ContentType;
+  /**
+   * The level each pair must meet, defaulting to `AA`. Non-text content has no
+   * AAA level, so requiring one fails every pair.
+   */
+  level?: 'AA' | 'AAA';
+}
+
+/** A rule whose color pair fails, or cannot be checked. */
+export interface StylesheetFinding {
+  /** The rule's selector, with whitespace collapsed. */
+  selector: string;
+  /** 1-based line of the selector's first character. */
+  line: number;
+  /** 1-based column of the selector's first character. */
+  column: number;
+  /** The `color` value as written, without `!important`. */
+  color: string;
+  /** The `background-color` or `background` value as written. */
+  background: string;
+  /** `fail` for a pair below the required level, `unknown` if unresolvable. */
+  status: 'fail' | 'unknown';
+  /** Every verdict for the pair, or `null` when `status` is `unknown`. */
+  report: ContrastReport | null;
+}
+
+/** A rule's selector and the declarations in its own block. */
+interface Rule {
+  selector: string;
+  /** Offset of the selector in the source. */
+  offset: number;
+  /** `color`, and `background` for whichever background property came last. */
+  declarations: Map<string, string>;
+}
+
+/** At-rules whose blocks hold keyframes or descriptors, not styled rules. */
+const SKIPPED_AT_RULES = /^@(-[a-z]+-)?(keyframes|font-face|page|property)\b/i;
+
+/**
+ * Blank out comments, keeping every other character — and so every offset
+ * and line break — where it was.
+ */
+const blankComments = (css: string): string => {
+  let result = '';
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i] as string;
+    if (char === '"' || char === "'") {
+      // Copy the string whole, honouring backslash escapes.
+      let end = i + 1;
+      while (end < css.length && css[end] !== char) {
+        end += css[end] === '\\' ? 2 : 1;
+      }
+      result += css.slice(i, end + 1);
+      i = end;
+    } else if (char === '/' && css[i + 1] === '*') {
+      const close = css.indexOf('*/', i + 2);
+      const end = close === -1 ? css.length : close + 2;
+      result += css.slice(i, end).replace(/[^\n]/g, ' ');
+      i = end - 1;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+};
+
+/** Record a declaration on a rule, if it is one the audit reads. */
+const declare = (rule: Rule, declaration: string) => {
+  const colon = declaration.indexOf(':');
+  if (colon === -1) return;
+  const property = declaration.slice(0, colon).trim().toLowerCase();
+  const value = declaration
+    .slice(colon + 1)
+    .replace(/!\s*important\s*$/i, '')
+    .trim();
+
+  if (property === 'color') {
+    rule.declarations.set('color', value);
+  } else if (property === 'background' || property === 'background-color') {
+    // The shorthand resets `background-color`, so the last of the two wins.
+    rule.declarations.set('background', value);
+  }
+};
+
+/**
+ * Read the rules out of a stylesheet. Blocks nest to any depth, covering
+ * `@media`, `@supports`, `@layer` and CSS nesting alike; a nested rule's
+ * selector is reported as written.
+ */
+const readRules = (source: string): Rule[] => {
+  const css = blankComments(source);
+  const rules: Rule[] = [];
+  // The open blocks, innermost last: a rule, a group at-rule such as `@media`
+  // (`group`), or a block whose contents are not styled rules (`skip`).
+  const stack: (Rule | 'group' | 'skip')[] = [];
+  let start = 0;
+  let parens = 0; // so that `;` inside `url(a;b)` ends nothing
+
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+    if (char === '"' || char === "'") {
+      while (++i < css.length && css[i] !== char) {
+        if (css[i] === '\\') i++;
+      }
+      continue;
+    }
+    if (char === '(') parens++;
+    if (char === ')') parens = Math.max(0, parens - 1);
+    if (parens > 0 || (char !== '{' && char !== '}' && char !== ';')) {
+      continue;
+    }
+
+    const text = css.slice(start, i);
+    const prelude = text.trim();
+    const block = stack[stack.length - 1];
+    start = i + 1;
+
+    if (char === '{') {
+      if (block === 'skip' || SKIPPED_AT_RULES.test(prelude)) {
+        stack.push('skip');
+      } else if (prelude.startsWith('@')) {
+        stack.push('group');
+      } else {
+        const rule: Rule = {
+          selector: prelude.replace(/\s+/g, ' '),
+          offset: i - text.trimStart().length,
+          declarations: new Map(),
+        };
+        rules.push(rule);
+        stack.push(rule);
+      }
+      continue;
+    }
+
+    if (typeof block === 'object') declare(block, text);
+    if (char === '}') stack.pop();
+  }
+  return rules;
+};
+
+/** The offset of each line's first character, in order. */
+const lineStarts = (css: string): number[] => {
+  const starts = [0];
+  for (let i = css.indexOf('\n'); i !== -1; i = css.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+  return starts;
+};
+
+/**
+ * 1-based line and column of an offset, found by binary search of the line
+ * starts so that a stylesheet of thousands of rules is not rescanned for each.
+ */
+const position = (starts: readonly number[], offset: number) => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if ((starts[mid] as number) <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return { line: low + 1, column: offset - (starts[low] as number) + 1 };
+};
+
+/**
+ * findStylesheetIssues checks every rule in a stylesheet — the implementation
+ * behind `auditStylesheet`.
+ *
+ * @param css - the stylesheet source
+ * @param options - the content type and level to require
+ * @returns a finding for every rule declaring both a color and a background
+ *   that fails or cannot be checked, in source order
+ */
+export const findStylesheetIssues = (
+  css: string,
+  { content = 'normal', level = 'AA' }: StylesheetAuditOptions
+): StylesheetFinding[] => {
+  const findings: StylesheetFinding[] = [];
+  const starts = lineStarts(css);
+
+  for (const { selector, offset, declarations } of readRules(css)) {
+    const color = declarations.get('color');
+    const background = declarations.get('background');
+    if (color === undefined || background === undefined) continue;
+
+    const finding = {
+      selector,
+      ...position(starts, offset),
+      color,
+      background,
+    };
+    const fg = parseColorWithAlpha(color);
+    // `currentColor` in a background is the rule's own `color`.
+    const bg = parseColorWithAlpha(background, { currentColor: color });
+
+    // Translucent colors are unknown too: they show whatever is beneath them.
+    if (fg === null || bg === null || fg.a < 1 || bg.a < 1) {
+      findings.push({ ...finding, status: 'unknown', report: null });
+      continue;
+    }
+
+    const fgHex = rgbToHex(fg);
+    const bgHex = rgbToHex(bg);
+    const achieved = getContrastLevel(fgHex, bgHex, content);
+    if (achieved !== 'AAA' && achieved !== level) {
+      const report = getContrastReport(fgHex, bgHex);
+      findings.push({ ...finding, status: 'fail', report });
+    }
+  }
+  return findings;
+};
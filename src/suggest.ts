@@ -1,13 +1,17 @@
-import { parseColor } from './parse';
-import { rgbToHex } from './helpers';
+import { parseOpaque } from './composite';
+import { hexToRgb, rgbToHex } from './helpers';
 import {
   deltaEOK,
   gamutMapChroma,
   oklabToOklch,
   oklabToRgb,
   rgbToOklab,
+  type OKLab,
   type OKLCH,
 } from './oklch';
+import type { RGB } from './types';
+import type { TextStyle } from './typography';
+import type { PreserveFormatOptions } from './format';
 
 /**
  * Suggestion search: given a color that fails a contrast requirement, find the
@@ -88,16 +92,59 @@ export const binarySearchContrast = (
   return { L: direction === 'lighten' ? max : min, C, H };
 };
 
+/** A passing variant of a color, in one direction of OKLCH lightness. */
+export interface Variant {
+  /** The variant in hex format. */
+  color: string;
+  /** How far the variant is from the original, in ΔE OK. */
+  deltaE: number;
+  /** The direction moved, or `null` for an original returned unmodified. */
+  direction: 'lighter' | 'darker' | null;
+}
+
+/** The outcome of `suggestVariants`. */
+export interface VariantSuggestion {
+  /** The nearest passing variant that is lighter, or `null` if none is. */
+  lighter: Variant | null;
+  /** The nearest passing variant that is darker, or `null` if none is. */
+  darker: Variant | null;
+  /**
+   * The variant picked: the preferred direction if it has one, otherwise the
+   * nearer. For a color that already complies, the color itself, unmodified,
+   * with a `direction` of `null`. `null` if there is no variant to pick.
+   */
+  chosen: Variant | null;
+}
+
+/** Options accepted by `suggestVariants`. */
+export interface VariantSearchOptions {
+  /** Whether the text is large, passed through to the contrast function. */
+  large?: boolean;
+  /**
+   * The farthest a variant may be from the original, in ΔE OK. Farther
+   * variants are dropped, so a search never returns an unrecognisable color.
+   */
+  maxDeltaE?: number;
+  /**
+   * The direction to pick when both exist, rather than the nearer. The other
+   * is still picked when the preferred one does not exist.
+   */
+  prefer?: 'lighter' | 'darker';
+}
+
 /**
- * suggestColorVariant will suggest a color variant that is accessible against a fixed color.
+ * suggestVariants searches both directions of OKLCH lightness for the nearest
+ * variant of a color that is accessible against a fixed color, keeping both
+ * candidates and how far each moved.
  * @param colorToChange - the color to change.
  * @param colorToKeep - the color to keep.
  * @param compareFn - the contrast function to use to determine if a color is accessible.
- * @param large - whether the text should be considered large, adjusting the contrast ratio requirements.
- * @returns the suggested color variant, `colorToChange` unmodified if it already
- *   complies, or `null` if no compliant variant exists in either direction.
+ * @param options - whether the text is large, the farthest a variant may move
+ *   and the direction to prefer.
+ * @returns both candidates and the one picked, or `null` if either color is
+ *   invalid.
  */
-export const suggestColorVariant = (
+export const suggestVariants = (
   colorToChange: string,
   colorToKeep: string,
   compareFn: (
@@ -105,56 +152,364 @@ export const suggestColorVariant = (
     color2: string,
     large?: boolean
   ) => boolean | null,
-  large?: boolean
-): string | null => {
-  const rgbChange = parseColor(colorToChange);
-  const rgbKeep = parseColor(colorToKeep);
+  { large, maxDeltaE = Infinity, prefer }: VariantSearchOptions = {}
+): VariantSuggestion | null => {
+  const rgbChange = parseOpaque(colorToChange);
+  const rgbKeep = parseOpaque(colorToKeep);
   if (rgbChange === null || rgbKeep === null) {
     return null;
   }
   if (compareFn(colorToChange, colorToKeep, large)) {
-    return colorToChange;
+    return {
+      lighter: null,
+      darker: null,
+      chosen: { color: colorToChange, deltaE: 0, direction: null },
+    };
   }
 
   const oklabChange = rgbToOklab(rgbChange);
   const oklchChange = oklabToOklch(oklabChange);
 
-  const darker = binarySearchContrast(
-    oklchChange,
-    colorToKeep,
-    'darken',
-    compareFn,
-    large
-  );
-  const lighter = binarySearchContrast(
-    oklchChange,
-    colorToKeep,
-    'lighten',
-    compareFn,
-    large
-  );
-
-  // Must gamut-map the same way the search loop did (gamutMapChroma), not a
-  // raw OKLCH->OKLab conversion. The loop verifies compliance against
-  // gamut-mapped candidates; converting the un-mapped {L, C, H} here would
-  // return a different, unverified color whenever the original chroma was
-  // out of gamut at the found lightness.
-  const toOklab = (found: OKLCH) => gamutMapChroma(found.L, found.C, found.H);
-  const toHex = (found: OKLCH) => rgbToHex(oklabToRgb(toOklab(found)));
+  const search = (direction: 'lighter' | 'darker'): Variant | null => {
+    const found = binarySearchContrast(
+      oklchChange,
+      colorToKeep,
+      direction === 'lighter' ? 'lighten' : 'darken',
+      compareFn,
+      large
+    );
+    if (found === null) return null;
 
-  if (darker !== null && lighter !== null) {
+    // Must gamut-map the same way the search loop did (gamutMapChroma), not a
+    // raw OKLCH->OKLab conversion. The loop verifies compliance against
+    // gamut-mapped candidates; converting the un-mapped {L, C, H} here would
+    // return a different, unverified color whenever the original chroma was
+    // out of gamut at the found lightness.
+    const oklab = gamutMapChroma(found.L, found.C, found.H);
     // ΔE OK — Euclidean distance in OKLab — approximates perceived difference.
     // Unlike the HSL lightness gap this replaces, it accounts for hue and
     // chroma shift as well as lightness, so "nearest" means "closest looking".
-    const darkerDist = deltaEOK(oklabChange, toOklab(darker));
-    const lighterDist = deltaEOK(oklabChange, toOklab(lighter));
-    return toHex(darkerDist < lighterDist ? darker : lighter);
+    const deltaE = deltaEOK(oklabChange, oklab);
+    if (deltaE > maxDeltaE) return null;
+    return { color: rgbToHex(oklabToRgb(oklab)), deltaE, direction };
+  };
+
+  const darker = search('darker');
+  const lighter = search('lighter');
+  const nearer =
+    darker !== null && (lighter === null || darker.deltaE < lighter.deltaE)
+      ? darker
+      : lighter;
+  const preferred = prefer === undefined ? null : { lighter, darker }[prefer];
+  return { lighter, darker, chosen: preferred ?? nearer };
+};
+
+/**
+ * nearestVariant will suggest a color variant that is accessible against a
+ * fixed color — the search behind the public `suggestColorVariant` and its
+ * AA and AAA shorthands.
+ * @param colorToChange - the color to change.
+ * @param colorToKeep - the color to keep.
+ * @param compareFn - the contrast function to use to determine if a color is accessible.
+ * @param large - whether the text should be considered large, adjusting the contrast ratio requirements.
+ * @returns the suggested color variant, `colorToChange` unmodified if it already
+ *   complies, or `null` if no compliant variant exists in either direction.
+ */
+export const nearestVariant = (
+  colorToChange: string,
+  colorToKeep: string,
+  compareFn: (
+    color1: string,
+    color2: string,
+    large?: boolean
+  ) => boolean | null,
+  large = false
+): string | null =>
+  suggestVariants(colorToChange, colorToKeep, compareFn, { large })?.chosen
+    ?.color ?? null;
+
+/** The outcome of `suggestColorVariantForAll`. */
+export interface SuggestionForAll {
+  /**
+   * The nearest variant passing on every background — the original color,
+   * unmodified, if it already does — or `null` if there is none.
+   */
+  color: string | null;
+  /**
+   * When `color` is `null`, the fewest backgrounds that between them leave no
+   * passing luminance at all; removing any one of them may make the rest
+   * satisfiable. Empty otherwise.
+   */
+  conflicts: string[];
+}
+
+/**
+ * suggestForAll finds the nearest variant of a color that meets a contrast
+ * ratio against every one of several backgrounds — the search behind
+ * `suggestColorVariantForAll` and `suggestLinkColor`.
+ *
+ * Against one background, a ratio rules out an open band of luminance around
+ * the background's own. Against several, the passing luminances are whatever
+ * no band covers, which may be split into disjoint windows. The search finds
+ * the nearest window edge below and above the original luminance, walks OKLCH
+ * lightness to each as `binarySearchContrast` does, and keeps whichever
+ * verified candidate is closer in ΔE OK.
+ *
+ * @param colorToChange - the color to change, in any supported format
+ * @param backgrounds - the colors it must contrast with
+ * @param ratio - the contrast ratio required against each, or one ratio per
+ *   background
+ * @param getLuminance - WCAG relative luminance of a color string
+ * @param isContrasting - whether a pair meets a ratio, on the exact ratio
+ * @returns the suggestion, or `null` if any color is invalid
+ */
+export const suggestForAll = (
+  colorToChange: string,
+  backgrounds: readonly string[],
+  ratio: number | readonly number[],
+  getLuminance: (color: string) => number | null,
+  isContrasting: (c1: string, c2: string, ratio: number) => boolean | null
+): SuggestionForAll | null => {
+  const rgb = parseOpaque(colorToChange);
+  const luminances = backgrounds.map(getLuminance);
+  if (rgb === null || luminances.includes(null)) {
+    return null;
   }
-  if (darker === null && lighter !== null) {
-    return toHex(lighter);
+  const ratios = backgrounds.map((_, i) =>
+    typeof ratio === 'number' ? ratio : (ratio[i] as number)
+  );
+  const passesAll = (color: string) =>
+    backgrounds.every((background, i) =>
+      isContrasting(color, background, ratios[i] as number)
+    );
+  if (passesAll(colorToChange)) {
+    return { color: colorToChange, conflicts: [] };
+  }
+
+  // Each background excludes the luminances strictly between `below` and
+  // `above`: too close to its own to reach the ratio.
+  const bands = (luminances as number[]).map((Y, i) => ({
+    background: backgrounds[i] as string,
+    below: (Y + 0.05) / (ratios[i] as number) - 0.05,
+    above: (ratios[i] as number) * (Y + 0.05) - 0.05,
+  }));
+  const feasible = (Y: number) =>
+    Y >= 0 &&
+    Y <= 1 &&
+    bands.every(({ below, above }) => Y <= below || Y >= above);
+
+  const oklab = rgbToOklab(rgb);
+  const { L, C, H } = oklabToOklch(oklab);
+  const toOklab = (l: number) => gamutMapChroma(l, C, H);
+  const toHex = (l: number) => rgbToHex(oklabToRgb(toOklab(l)));
+  const luminanceAt = (l: number) => getLuminance(toHex(l)) as number;
+  const original = luminanceAt(L);
+
+  // A window's top edge is always some band's `below`, and its bottom edge
+  // some band's `above`.
+  const darkest = Math.max(
+    ...bands
+      .map(({ below }) => below)
+      .filter((Y) => Y < original && feasible(Y))
+  );
+  const lightest = Math.min(
+    ...bands
+      .map(({ above }) => above)
+      .filter((Y) => Y > original && feasible(Y))
+  );
+
+  // Luminance rises with OKLCH lightness, so bisect for the lightness that
+  // lands on the edge, from the passing side.
+  const walk = (target: number, direction: 'lighten' | 'darken') => {
+    if (!Number.isFinite(target)) return null;
+    let min = direction === 'lighten' ? L : 0;
+    let max = direction === 'lighten' ? 1 : L;
+    for (let step = 0; step < 32; step++) {
+      const mid = (min + max) / 2;
+      if (luminanceAt(mid) < target) min = mid;
+      else max = mid;
+    }
+    const found = direction === 'lighten' ? max : min;
+    // A window narrower than an 8-bit step may have been stepped over.
+    return passesAll(toHex(found)) ? found : null;
+  };
+
+  const candidates = [walk(darkest, 'darken'), walk(lightest, 'lighten')]
+    .filter((found): found is number => found !== null)
+    .sort((a, b) => deltaEOK(oklab, toOklab(a)) - deltaEOK(oklab, toOklab(b)));
+  if (candidates[0] !== undefined) {
+    return { color: toHex(candidates[0]), conflicts: [] };
+  }
+
+  // Nothing passes. Name the fewest bands that cover every luminance, greedily
+  // extending coverage upward from black.
+  const conflicts: string[] = [];
+  let covered = 0;
+  while (covered <= 1) {
+    let next: (typeof bands)[number] | undefined;
+    for (const band of bands) {
+      if (band.below < covered && band.above > (next?.above ?? covered)) {
+        next = band;
+      }
+    }
+    // A window wider than zero but narrower than any 8-bit color at this hue.
+    if (next === undefined) {
+      return { color: null, conflicts: [] };
+    }
+    conflicts.push(next.background);
+    covered = next.above;
+  }
+  return { color: null, conflicts };
+};
+
+/** A foreground/background pair adjusted together by `suggestColorPair`. */
+export interface ColorPairSuggestion {
+  /**
+   * The adjusted foreground in hex format, or its input's format with
+   * `preserveFormat`; as given if unchanged.
+   */
+  foreground: string;
+  /**
+   * The adjusted background in hex format, or its input's format with
+   * `preserveFormat`; as given if unchanged.
+   */
+  background: string;
+  /** The contrast ratio of the pair, rounded to 3 places. */
+  ratio: number;
+  /** How far each color moved, in ΔE OK; 0 for an unchanged color. */
+  deltaE: { foreground: number; background: number };
+}
+
+/** Options accepted by `suggestColorPair`. */
+export interface ColorPairOptions extends PreserveFormatOptions {
+  /**
+   * Whether the text is large, lowering the required ratio, or the text's
+   * `TextStyle`.
+   */
+  large?: boolean | TextStyle;
+  /**
+   * The foreground's share of the movement, 0-1, defaulting to 0.5: 1 moves
+   * only the foreground, 0 only the background.
+   */
+  weight?: number;
+}
+
+/** Foreground lightnesses tried along each direction, before refinement. */
+const PAIR_SAMPLES = 32;
+
+/**
+ * suggestPair moves a foreground and background apart in OKLCH lightness —
+ * one lighter, the other darker — until they meet a contrast requirement,
+ * minimising their weighted combined ΔE OK. It is the search behind
+ * `suggestColorPair`.
+ *
+ * For each foreground lightness along its direction, `binarySearchContrast`
+ * finds the least the background must move the other way. The cost of that
+ * pair is sampled along the whole direction and refined around the cheapest
+ * sample, for both orientations; the cheapest pair found wins. The cost is not
+ * smooth — gamut mapping and 8-bit rounding see to that — so sampling is
+ * sturdier here than descending a gradient.
+ *
+ * @param foreground - the foreground color, in any supported format
+ * @param background - the background color, in any supported format
+ * @param meets - whether a pair passes, on the exact ratio
+ * @param weight - the foreground's share of the movement; see
+ *   `ColorPairOptions`. Clamped to 0-1.
+ * @returns the pair without its ratio, or `null` if a color is invalid,
+ *   `weight` is not a number or no pair passes
+ */
+export const suggestPair = (
+  foreground: string,
+  background: string,
+  meets: (color1: string, color2: string) => boolean | null,
+  weight: number
+): Omit<ColorPairSuggestion, 'ratio'> | null => {
+  const rgbFg = parseOpaque(foreground);
+  const rgbBg = parseOpaque(background);
+  if (rgbFg === null || rgbBg === null || Number.isNaN(weight)) {
+    return null;
   }
-  if (lighter === null && darker !== null) {
-    return toHex(darker);
+  if (meets(foreground, background)) {
+    return {
+      foreground,
+      background,
+      deltaE: { foreground: 0, background: 0 },
+    };
+  }
+
+  const share = Math.min(1, Math.max(0, weight));
+  const fgLab = rgbToOklab(rgbFg);
+  const bgLab = rgbToOklab(rgbBg);
+  const fg = oklabToOklch(fgLab);
+  const bg = oklabToOklch(bgLab);
+  const hex = (lab: OKLab) => rgbToHex(oklabToRgb(lab));
+  // ΔE is measured to the 8-bit color returned, so an unmoved color is 0.
+  const moved = (from: OKLab, hexColor: string) =>
+    deltaEOK(from, rgbToOklab(hexToRgb(hexColor) as RGB));
+
+  type Candidate = Omit<ColorPairSuggestion, 'ratio'> & {
+    cost: number;
+    total: number;
+  };
+  const candidates: Candidate[] = [];
+
+  // The pair with the foreground at lightness `L`, the background moved the
+  // least it must go in `direction`.
+  const tryAt = (L: number, direction: 'lighten' | 'darken') => {
+    const fgHex = hex(gamutMapChroma(L, fg.C, fg.H));
+    const found = binarySearchContrast(bg, fgHex, direction, meets);
+    if (found === null) return Infinity;
+
+    const bgHex = hex(gamutMapChroma(found.L, found.C, found.H));
+    const deltaE = {
+      foreground: moved(fgLab, fgHex),
+      background: moved(bgLab, bgHex),
+    };
+    const cost = share * deltaE.background + (1 - share) * deltaE.foreground;
+    const total = deltaE.foreground + deltaE.background;
+    candidates.push({
+      foreground: fgHex,
+      background: bgHex,
+      deltaE,
+      cost,
+      total,
+    });
+    return cost;
+  };
+
+  const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+  for (const [fgDirection, bgDirection] of [
+    ['lighten', 'darken'],
+    ['darken', 'lighten'],
+  ] as const) {
+    const end = fgDirection === 'lighten' ? 1 : 0;
+
+    let cheapest = 0;
+    let cheapestCost = Infinity;
+    for (let i = 0; i <= PAIR_SAMPLES; i++) {
+      const cost = tryAt(lerp(fg.L, end, i / PAIR_SAMPLES), bgDirection);
+      if (cost < cheapestCost) {
+        cheapest = i;
+        cheapestCost = cost;
+      }
+    }
+    // Refine between the neighbours of the cheapest sample.
+    const from = Math.max(0, cheapest - 1) / PAIR_SAMPLES;
+    const to = Math.min(PAIR_SAMPLES, cheapest + 1) / PAIR_SAMPLES;
+    for (let i = 1; i < PAIR_SAMPLES; i++) {
+      tryAt(lerp(fg.L, end, lerp(from, to, i / PAIR_SAMPLES)), bgDirection);
+    }
   }
-  return null;
+
+  // At a weight of 0 or 1 one color moves freely, so costs can tie; prefer
+  // the pair that moves less in total.
+  const [best] = candidates.sort(
+    (a, b) => a.cost - b.cost || a.total - b.total
+  );
+  if (best === undefined) return null;
+  return {
+    foreground: best.foreground,
+    background: best.background,
+    deltaE: best.deltaE,
+  };
 };
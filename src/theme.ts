@@ -0,0 +1,340 @@
+import { parseColor, parseColorWithAlpha } from './parse';
+import { rgbToHex } from './helpers';
+import { gamutMapChroma, oklabToOklch, oklabToRgb, rgbToOklab } from './oklch';
+import { suggestForAll } from './suggest';
+import {
+  THRESHOLDS,
+  getContrast,
+  getContrastLevel,
+  getContrastReport,
+  getLuminance,
+  isContrasting,
+  type ContrastLevel,
+  type ContrastReport,
+} from './contrast';
+import type { ContentType, RGB } from './types';
+
+/**
+ * Theme derivation: a dark counterpart of a light palette that keeps the
+ * contrast relationships the light palette was designed around.
+ *
+ * Each role's color is mirrored in OKLCH lightness — `L` becomes `1 - L` — at
+ * its own hue and chroma, gamut-mapped as the suggestion search does, so a
+ * pale surface becomes a deep one and dark text becomes light, with hue held
+ * steady. Mirroring lightness does not mirror contrast, though: WCAG luminance
+ * is far from linear in `L`, so a pair can lose a level in the mirror. Each
+ * declared pairing is therefore checked against the level it met in the light
+ * theme, and a role of any that fall short — its foreground where that is
+ * enough, else its background — is moved as little as it must to meet, in each
+ * of its pairings, what that pairing owes.
+ *
+ * Validation checks a theme the same way, role by role: rules say which roles
+ * are drawn on which, for what kind of content, and every pair they cover is
+ * reported.
+ *
+ * Roles must be opaque. A translucent role shows whatever is beneath it, which
+ * a palette does not say, so both reject it rather than measure it opaque.
+ */
+
+/** A foreground/background pair of theme roles. */
+export interface ThemePairing {
+  /** The role drawn on top, e.g. `text`. */
+  foreground: string;
+  /** The role it is drawn on, e.g. `surface`. */
+  background: string;
+  /** The kind of content the pair is used for, defaulting to `normal`. */
+  content?: ContentType;
+}
+
+/** A palette of named roles and how they are drawn on one another. */
+export interface Theme {
+  /** Each role's color, in any supported format. */
+  colors: Record<string, string>;
+  /** The pairings whose contrast the palette must keep. */
+  pairings: ThemePairing[];
+}
+
+/** A pairing that needed more than mirrored lightness in the dark theme. */
+export interface DarkThemeAdjustment {
+  foreground: string;
+  background: string;
+  content: ContentType;
+  /** The level the pair met in the light theme, and must meet in the dark. */
+  required: 'AA' | 'AAA';
+  /** The ratio with lightness mirrored alone, rounded to 3 places. */
+  mirrored: number;
+  /** The ratio in the derived theme, rounded to 3 places. */
+  ratio: number;
+  /**
+   * Whether the pair meets `required` in the derived theme. The light theme
+   * meets every pairing it owes, so this is false only if rounding to 8-bit
+   * channels cost a ratio that no variant of either role could make up.
+   */
+  passes: boolean;
+}
+
+/** The outcome of `deriveDarkTheme`. */
+export interface DarkTheme {
+  /** Each role's dark color in hex format, in the order given. */
+  colors: Record<string, string>;
+  /**
+   * The pairings whose colors differ from the mirrored ones, or that still
+   * fall short, in the order given. Empty when mirroring alone was enough.
+   */
+  adjustments: DarkThemeAdjustment[];
+}
+
+/**
+ * Which roles are drawn on which, and what they must meet. Every foreground
+ * role is checked on every background role.
+ */
+export interface ThemeRule {
+  /** The role or roles drawn on top, e.g. `['text', 'textMuted', 'link']`. */
+  foreground: string | readonly string[];
+  /** The role or roles they sit on, e.g. `['surface', 'card']`. */
+  background: string | readonly string[];
+  /**
+   * The kind of content the foregrounds are, defaulting to `normal`: `large`
+   * for headings, `non-text` for borders, icons and focus rings.
+   */
+  content?: ContentType;
+  /**
+   * The level each pair must meet, defaulting to `AA`. Non-text content has no
+   * AAA level, so requiring one always fails.
+   */
+  level?: 'AA' | 'AAA';
+}
+
+/** The outcome of checking one pair of roles under a `ThemeRule`. */
+export interface ThemeRoleCheck {
+  foreground: string;
+  background: string;
+  content: ContentType;
+  /** The level the pair was required to meet. */
+  required: 'AA' | 'AAA';
+  /** The level achieved for `content`. */
+  level: ContrastLevel;
+  /** Whether `level` meets `required`. */
+  passes: boolean;
+  /** Every verdict for the pair. */
+  report: ContrastReport;
+}
+
+/** A pairing with the level it met in the light theme, and so owes. */
+interface Owed {
+  foreground: string;
+  background: string;
+  content: ContentType;
+  required: 'AA' | 'AAA';
+  ratio: number;
+}
+
+/** Whether a color parses and is fully opaque. */
+const isOpaque = (color: string): boolean =>
+  parseColorWithAlpha(color)?.a === 1;
+
+/** A color with its OKLCH lightness mirrored, in hex format. */
+const mirrorLightness = (color: string): string | null => {
+  const rgb = parseColorWithAlpha(color);
+  if (rgb === null || rgb.a < 1) return null;
+  const { L, C, H } = oklabToOklch(rgbToOklab(rgb));
+  return rgbToHex(oklabToRgb(gamutMapChroma(1 - L, C, H)));
+};
+
+/**
+ * A color with its WCAG luminance inverted — `Y + 0.05` becomes
+ * `0.0525 / (Y + 0.05)` — at its own hue and chroma, in hex format. Unlike
+ * mirrored lightness, this keeps every contrast ratio the color had.
+ */
+const invertLuminance = (color: string): string => {
+  const target = 0.0525 / ((getLuminance(color) as number) + 0.05) - 0.05;
+  const { C, H } = oklabToOklch(rgbToOklab(parseColor(color) as RGB));
+  const toHex = (l: number) => rgbToHex(oklabToRgb(gamutMapChroma(l, C, H)));
+  // Luminance rises with OKLCH lightness, so bisect for the target.
+  let min = 0;
+  let max = 1;
+  for (let step = 0; step < 32; step++) {
+    const mid = (min + max) / 2;
+    if ((getLuminance(toHex(mid)) as number) < target) min = mid;
+    else max = mid;
+  }
+  return toHex(max);
+};
+
+/**
+ * darkenTheme derives a dark theme from a light one — the implementation
+ * behind `deriveDarkTheme`.
+ *
+ * @param theme - the light theme's colors and pairings
+ * @returns the dark theme and its adjustments, or `null` if a color is invalid
+ *   or translucent, or a pairing names a role with no color
+ */
+export const darkenTheme = ({ colors, pairings }: Theme): DarkTheme | null => {
+  const light = new Map(Object.entries(colors));
+  const mirrored = new Map<string, string>();
+  for (const [role, color] of light) {
+    const dark = mirrorLightness(color);
+    if (dark === null) return null;
+    mirrored.set(role, dark);
+  }
+  if (
+    !pairings.every((p) => light.has(p.foreground) && light.has(p.background))
+  ) {
+    return null;
+  }
+
+  const levelIn = (
+    palette: Map<string, string>,
+    { foreground, background }: ThemePairing,
+    content: ContentType
+  ) =>
+    getContrastLevel(
+      palette.get(foreground) as string,
+      palette.get(background) as string,
+      content
+    );
+  const meets = (palette: Map<string, string>, owed: Owed) => {
+    const level = levelIn(palette, owed, owed.content);
+    return level === 'AAA' || level === owed.required;
+  };
+
+  // Only a level the light theme met is owed; a failing pair owes nothing.
+  const owed: Owed[] = [];
+  for (const pairing of pairings) {
+    const { foreground, background, content = 'normal' } = pairing;
+    const level = levelIn(light, pairing, content);
+    if (level === 'AA' || level === 'AAA') {
+      const ratio = THRESHOLDS[content][level];
+      owed.push({ foreground, background, content, required: level, ratio });
+    }
+  }
+
+  // A role answers for every pairing it is part of, on either side: contrast
+  // is symmetric, so a background can move against its foregrounds as a
+  // foreground moves against its backgrounds. Each owes its own ratio — a
+  // stricter pairing elsewhere is no reason to move further from this one.
+  const dark = new Map(mirrored);
+  const variantOf = (role: string) => {
+    const pairs = owed.filter(
+      ({ foreground, background }) => foreground === role || background === role
+    );
+    return (
+      suggestForAll(
+        dark.get(role) as string,
+        pairs.map(
+          ({ foreground, background }) =>
+            dark.get(foreground === role ? background : foreground) as string
+        ),
+        pairs.map(({ ratio }) => ratio),
+        getLuminance,
+        isContrasting
+      )?.color ?? null
+    );
+  };
+  // Move one role of a pairing that falls short, its foreground if it can,
+  // to meet all of its pairings at once. That leaves every pairing of the
+  // role passing and no other changed, so fewer fall short after each move;
+  // stop when none does, or when no role of one that does can be moved.
+  const moveOne = () => {
+    for (const pair of owed) {
+      if (meets(dark, pair)) continue;
+      for (const role of [pair.foreground, pair.background]) {
+        const variant = variantOf(role);
+        if (variant !== null) {
+          dark.set(role, variant);
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+  while (moveOne());
+
+  // One role at a time can stall: three roles that each owe a ratio to the
+  // other two may leave none room to move alone. The light theme meets all it
+  // owes, and inverting its luminance keeps every ratio, so every role joined
+  // by pairings to one still short takes its inverted light color instead —
+  // then moves settle what rounding to 8 bits left short.
+  const stalled = new Set(
+    owed.filter((pair) => !meets(dark, pair)).map((pair) => pair.foreground)
+  );
+  for (const role of stalled) {
+    for (const { foreground, background } of owed) {
+      if (foreground === role) stalled.add(background);
+      if (background === role) stalled.add(foreground);
+    }
+    dark.set(role, invertLuminance(light.get(role) as string));
+  }
+  while (moveOne());
+
+  const ratioIn = (palette: Map<string, string>, pairing: ThemePairing) =>
+    getContrast(
+      palette.get(pairing.foreground) as string,
+      palette.get(pairing.background) as string
+    ) as number;
+  const adjustments: DarkThemeAdjustment[] = [];
+  for (const pair of owed) {
+    const passes = meets(dark, pair);
+    const moved = [pair.foreground, pair.background].some(
+      (role) => dark.get(role) !== mirrored.get(role)
+    );
+    if (passes && !moved) continue;
+    const { foreground, background, content, required } = pair;
+    adjustments.push({
+      foreground,
+      background,
+      content,
+      required,
+      mirrored: ratioIn(mirrored, pair),
+      ratio: ratioIn(dark, pair),
+      passes,
+    });
+  }
+  return { colors: Object.fromEntries(dark), adjustments };
+};
+
+/**
+ * checkTheme checks every pair of roles a theme's rules cover — the
+ * implementation behind `validateTheme`.
+ *
+ * @param colors - each role's color, in any supported format
+ * @param rules - which roles are drawn on which, and what they must meet
+ * @returns a check for each pair, in rule order and then foreground order, or
+ *   `null` if a color is invalid or translucent, or a rule names a role with no
+ *   color
+ */
+export const checkTheme = (
+  colors: Record<string, string>,
+  rules: readonly ThemeRule[]
+): ThemeRoleCheck[] | null => {
+  const palette = new Map(Object.entries(colors));
+  const roles = (role: string | readonly string[]) =>
+    typeof role === 'string' ? [role] : role;
+
+  const checks: ThemeRoleCheck[] = [];
+  for (const { content = 'normal', level: required = 'AA', ...rule } of rules) {
+    for (const foreground of roles(rule.foreground)) {
+      for (const background of roles(rule.background)) {
+        const fg = palette.get(foreground);
+        const bg = palette.get(background);
+        if (fg === undefined || bg === undefined) return null;
+        if (!isOpaque(fg) || !isOpaque(bg)) return null;
+        const report = getContrastReport(fg, bg);
+        const level = getContrastLevel(fg, bg, content);
+        if (report === null || level === null) return null;
+
+        const passes = level === 'AAA' || level === required;
+        checks.push({
+          foreground,
+          background,
+          content,
+          required,
+          level,
+          passes,
+          report,
+        });
+      }
+    }
+  }
+  return checks;
+};
@@ -0,0 +1,217 @@
+import { parseColorWithAlpha } from './parse';
+import { nearestVariant } from './suggest';
+import {
+  THRESHOLDS,
+  getContrast,
+  getContrastLevel,
+  isContrasting,
+  type ContrastLevel,
+} from './contrast';
+import type { ContentType } from './types';
+
+/**
+ * Auditing for design tokens in the W3C Design Tokens Community Group (DTCG)
+ * format (https://tr.designtokens.org/format/).
+ *
+ * A DTCG document is a tree of groups whose leaves are tokens: objects with a
+ * `$value` and, directly or inherited from an enclosing group, a `$type`. A
+ * `$value` of the form `{group.token}` is an alias for another token's value.
+ * The format has no notion of which colors are drawn on which, so the
+ * foreground/background pairings to check are declared by the caller.
+ */
+
+/** A foreground/background pair of color tokens that must meet a level. */
+export interface TokenPairing {
+  /** Path of the foreground token, e.g. `color.text.primary`, braces optional. */
+  foreground: string;
+  /** Path of the background token. */
+  background: string;
+  /** The kind of content the pair is used for, defaulting to `normal`. */
+  content?: ContentType;
+  /**
+   * The level the pair must meet, defaulting to `AA`. Non-text content has no
+   * AAA level, so requiring one always fails.
+   */
+  level?: 'AA' | 'AAA';
+}
+
+/** The outcome of checking one `TokenPairing`. */
+export interface TokenPairingResult {
+  /** Path of the foreground token — where a fix belongs. */
+  foreground: string;
+  /** Path of the background token. */
+  background: string;
+  content: ContentType;
+  /** The level the pair was required to meet. */
+  required: 'AA' | 'AAA';
+  /** The foreground color after resolving aliases, or `null` if unresolved. */
+  foregroundColor: string | null;
+  /** The background color after resolving aliases, or `null` if unresolved. */
+  backgroundColor: string | null;
+  /** The contrast ratio, rounded to 3 places, or `null` if unresolved. */
+  ratio: number | null;
+  /** The level achieved for `content`, or `null` if unresolved. */
+  level: ContrastLevel | null;
+  /** Whether `level` meets `required`. Never true for an unresolved pair. */
+  passes: boolean;
+  /**
+   * For a failing pair, a replacement `$value` for the foreground token that
+   * passes, found by the same search as `suggestAAColorVariant`; otherwise
+   * `null`. Pasting it replaces an alias with a literal color.
+   */
+  suggestion: string | null;
+  /** Why a token could not be resolved, or `null` if both were. */
+  error: string | null;
+}
+
+interface Token {
+  value: unknown;
+  type: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Matches an alias `$value`, capturing the path it refers to. */
+const ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+
+/**
+ * Flatten a DTCG tree into tokens by dot-separated path, carrying each group's
+ * `$type` down to the tokens beneath it that do not declare their own.
+ */
+const collectTokens = (
+  node: Record<string, unknown>,
+  path: string[],
+  inheritedType: unknown,
+  tokens: Map<string, Token>
+): void => {
+  const type = node['$type'] ?? inheritedType;
+  if ('$value' in node) {
+    tokens.set(path.join('.'), { value: node['$value'], type });
+    return;
+  }
+  for (const [key, child] of Object.entries(node)) {
+    // `$`-prefixed keys are properties of the group, never child names.
+    if (!key.startsWith('$') && isObject(child)) {
+      collectTokens(child, [...path, key], type, tokens);
+    }
+  }
+};
+
+/**
+ * Resolve a token path to a color string, following aliases.
+ * @returns the color, or an error message
+ */
+const resolveColor = (
+  tokens: Map<string, Token>,
+  path: string,
+  seen: string[] = []
+): { color: string } | { error: string } => {
+  const token = tokens.get(path);
+  if (token === undefined) {
+    return { error: `Token "${path}" does not exist` };
+  }
+  if (seen.includes(path)) {
+    return { error: `Alias cycle: ${[...seen, path].join(' → ')}` };
+  }
+  if (token.type !== undefined && token.type !== 'color') {
+    return { error: `Token "${path}" is not a color` };
+  }
+
+  const { value } = token;
+  const alias = typeof value === 'string' ? ALIAS_PATTERN.exec(value) : null;
+  if (alias?.[1] !== undefined) {
+    return resolveColor(tokens, alias[1], [...seen, path]);
+  }
+
+  // The 2025 format allows an object value; its `hex` is the sRGB fallback.
+  const color =
+    isObject(value) && typeof value['hex'] === 'string' ? value['hex'] : value;
+  const rgba = typeof color === 'string' ? parseColorWithAlpha(color) : null;
+  if (typeof color !== 'string' || rgba === null) {
+    return { error: `Token "${path}" has no valid color value` };
+  }
+  // A translucent color shows whatever is beneath it, which the document does
+  // not say, so its contrast is unknown rather than that of the opaque color.
+  const alpha = isObject(value) ? (value['alpha'] ?? 1) : 1;
+  if (rgba.a < 1 || alpha !== 1) {
+    return {
+      error: `Token "${path}" is translucent; its contrast depends on what is beneath it`,
+    };
+  }
+  return { color };
+};
+
+/**
+ * auditTokens checks every pairing in a DTCG document — the implementation
+ * behind `auditDesignTokens`.
+ *
+ * @param document - the document, as JSON text or already parsed
+ * @param pairings - the pairs to check
+ * @returns one result per pairing, in order, or `null` if `document` is not a
+ *   JSON object
+ */
+export const auditTokens = (
+  document: string | object,
+  pairings: readonly TokenPairing[]
+): TokenPairingResult[] | null => {
+  let root: unknown = document;
+  if (typeof document === 'string') {
+    try {
+      root = JSON.parse(document);
+    } catch {
+      return null;
+    }
+  }
+  if (!isObject(root)) {
+    return null;
+  }
+
+  const tokens = new Map<string, Token>();
+  collectTokens(root, [], undefined, tokens);
+
+  return pairings.map((pairing) => {
+    const foreground = pairing.foreground.replace(ALIAS_PATTERN, '$1');
+    const background = pairing.background.replace(ALIAS_PATTERN, '$1');
+    const content = pairing.content ?? 'normal';
+    const required = pairing.level ?? 'AA';
+
+    const fg = resolveColor(tokens, foreground);
+    const bg = resolveColor(tokens, background);
+    const result: TokenPairingResult = {
+      foreground,
+      background,
+      content,
+      required,
+      foregroundColor: 'color' in fg ? fg.color : null,
+      backgroundColor: 'color' in bg ? bg.color : null,
+      ratio: null,
+      level: null,
+      passes: false,
+      suggestion: null,
+      error: 'error' in fg ? fg.error : 'error' in bg ? bg.error : null,
+    };
+    if (!('color' in fg) || !('color' in bg)) {
+      return result;
+    }
+
+    const level = getContrastLevel(fg.color, bg.color, content);
+    const passes = level === 'AAA' || level === required;
+    // Non-text has no AAA level, so its ratio is unreachable and no variant
+    // is offered.
+    const ratio = THRESHOLDS[content][required];
+    const fix = passes
+      ? null
+      : nearestVariant(fg.color, bg.color, (c1, c2) =>
+          isContrasting(c1, c2, ratio)
+        );
+
+    return {
+      ...result,
+      ratio: getContrast(fg.color, bg.color),
+      level,
+      passes,
+      suggestion: fix,
+    };
+  });
+};
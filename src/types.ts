@@ -4,8 +4,40 @@ export interface RGB {
   b: number;
 }
 
+/**
+ * An RGB color with its alpha channel, 0 (transparent) to 1 (opaque).
+ */
+export interface RGBA extends RGB {
+  a: number;
+}
+
 export interface HSL {
   h: number;
   s: number;
   l: number;
 }
+
+/**
+ * The kind of content a color pair is being used for, which determines the
+ * required contrast ratio.
+ *
+ * - `normal` — body text: 4.5:1 for AA, 7:1 for AAA (SC 1.4.3, 1.4.6)
+ * - `large` — from 14pt bold (18.67px) or 18pt (24px): 3:1 AA, 4.5:1 AAA
+ * - `non-text` — UI boundaries, focus indicators, graphics: 3:1 (SC 1.4.11)
+ */
+export type ContentType = 'normal' | 'large' | 'non-text';
+
+/**
+ * A color's WCAG relative luminance, 0 (black) to 1 (white), as `getLuminance`
+ * returns it.
+ */
+export interface RelativeLuminance {
+  luminance: number;
+}
+
+/**
+ * A color as the contrast functions accept it: a string in any supported
+ * format, its RGB channels (0-255), or its relative luminance. Objects skip
+ * parsing, for callers that already hold them, and are always opaque.
+ */
+export type ColorInput = string | RGB | RelativeLuminance;
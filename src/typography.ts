@@ -0,0 +1,71 @@
+import type { ContentType } from './types';
+
+/**
+ * Typography: whether text is large-scale as WCAG defines it, from the font
+ * size and weight a stylesheet would give it, so that callers need not decide
+ * for themselves whether 19px semibold counts.
+ *
+ * Large-scale text is at least 18 point, or at least 14 point and bold. CSS
+ * defines a point as 4/3 of a pixel, so that is 24px, or 18.67px bold. The
+ * comparison is made on exact sizes: 18.66px bold, often quoted as the
+ * threshold, falls just short and is held to the stricter normal-text ratio.
+ *
+ * Bold means a weight of 700 or more, as the `bold` keyword computes to.
+ * Semibold (600) is not bold. The relative keywords `bolder` and `lighter`
+ * depend on the parent's weight, so they are not accepted.
+ *
+ * @link https://www.w3.org/TR/WCAG21/#dfn-large-scale
+ */
+
+/** A font weight, as a number from 1 to 1000 or an absolute keyword. */
+export type FontWeight = number | 'normal' | 'bold';
+
+/** The typography that decides whether text is large. */
+export interface TextStyle {
+  /** The font size, in `unit`. */
+  fontSize: number;
+  /** The font weight, defaulting to `normal` (400). */
+  fontWeight?: FontWeight;
+  /** The unit `fontSize` is in, defaulting to `px`. */
+  unit?: 'px' | 'pt' | 'rem';
+  /** The root font size in px that `rem` is relative to, defaulting to 16. */
+  rootFontSize?: number;
+}
+
+/** Points per CSS pixel. */
+const PT_PER_PX = 3 / 4;
+
+/** The weight `bold` computes to, and the lightest WCAG counts as bold. */
+const BOLD = 700;
+
+/**
+ * classifyText returns the content type text of a given size and weight is, by
+ * the WCAG definition of large-scale text.
+ *
+ * @param style - the text's font size, its unit and its weight
+ * @returns `large` or `normal`, or `null` if the size is not a positive finite
+ *   number in a known unit, or the weight is not one CSS allows
+ */
+export const classifyText = ({
+  fontSize,
+  fontWeight = 'normal',
+  unit = 'px',
+  rootFontSize = 16,
+}: TextStyle): ContentType | null => {
+  const px =
+    unit === 'px'
+      ? fontSize
+      : unit === 'pt'
+        ? fontSize / PT_PER_PX
+        : unit === 'rem'
+          ? fontSize * rootFontSize
+          : NaN;
+  const weight =
+    fontWeight === 'bold' ? BOLD : fontWeight === 'normal' ? 400 : fontWeight;
+  if (!(px > 0 && Number.isFinite(px)) || !(weight >= 1 && weight <= 1000)) {
+    return null;
+  }
+
+  const pt = px * PT_PER_PX;
+  return pt >= 18 || (pt >= 14 && weight >= BOLD) ? 'large' : 'normal';
+};
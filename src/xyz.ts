@@ -0,0 +1,229 @@
+import type { RGB } from './types';
+
+/**
+ * CIE XYZ conversions, following the sample code in CSS Color 4
+ * (https://www.w3.org/TR/css-color-4/#color-conversion-code).
+ *
+ * XYZ is the hub every CSS color space converts through. CIELAB is defined
+ * relative to a D50 white while sRGB uses D65, so `lab()` and `lch()` reach
+ * sRGB via XYZ D50 and a Bradford chromatic adaptation to D65, exactly as a
+ * browser does. The result is linear-light sRGB and may lie outside [0, 1];
+ * gamut mapping is the caller's concern, in `oklch.ts`.
+ */
+
+export interface XYZ {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Lab {
+  /** Lightness, 0-100. */
+  L: number;
+  a: number;
+  b: number;
+}
+
+/** The D50 reference white, from its chromaticity (0.3457, 0.3585). */
+const D50 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585] as const;
+
+/** CIE constants κ and ε, as exact rationals rather than rounded decimals. */
+const KAPPA = 24389 / 27;
+const EPSILON = 216 / 24389;
+
+/** CIELAB to XYZ relative to D50. */
+export const labToXyzD50 = ({ L, a, b }: Lab): XYZ => {
+  const fy = (L + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+
+  const x = fx ** 3 > EPSILON ? fx ** 3 : (116 * fx - 16) / KAPPA;
+  const y = L > KAPPA * EPSILON ? fy ** 3 : L / KAPPA;
+  const z = fz ** 3 > EPSILON ? fz ** 3 : (116 * fz - 16) / KAPPA;
+
+  return { x: x * D50[0], y: y * D50[1], z: z * D50[2] };
+};
+
+/** CIE LCH (polar CIELAB) to CIELAB. Hue is a 0-1 turn fraction. */
+export const lchToLab = (L: number, C: number, H: number): Lab => {
+  const radians = H * 2 * Math.PI;
+  return { L, a: C * Math.cos(radians), b: C * Math.sin(radians) };
+};
+
+/** Bradford chromatic adaptation from a D50 white point to D65. */
+export const d50ToD65 = ({ x, y, z }: XYZ): XYZ => ({
+  x: 0.9554734527042182 * x - 0.023098536874261423 * y + 0.0632593086610217 * z,
+  y:
+    -0.028369706963208136 * x +
+    1.0099954580058226 * y +
+    0.021041398966943008 * z,
+  z:
+    0.012314001688319899 * x -
+    0.020507696433477912 * y +
+    1.3303659366080753 * z,
+});
+
+/** Bradford chromatic adaptation from a D65 white point to D50. */
+export const d65ToD50 = ({ x, y, z }: XYZ): XYZ => ({
+  x:
+    1.0479298208405488 * x + 0.022946793341019088 * y - 0.05019222954313557 * z,
+  y: 0.029627815688159344 * x + 0.990434484573249 * y - 0.01707382502938514 * z,
+  z:
+    -0.009243058152591178 * x +
+    0.015055144896577895 * y +
+    0.7518742899580008 * z,
+});
+
+/** XYZ relative to D50 to CIELAB — the inverse of `labToXyzD50`. */
+export const xyzD50ToLab = ({ x, y, z }: XYZ): Lab => {
+  const f = (t: number) =>
+    t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116;
+  const fx = f(x / D50[0]);
+  const fy = f(y / D50[1]);
+  const fz = f(z / D50[2]);
+  return { L: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+/** Linear-light sRGB to XYZ relative to D65. */
+export const linearRgbToXyz = ({ r, g, b }: RGB): XYZ => {
+  const dot = ([mr, mg, mb]: Row) => mr * r + mg * g + mb * b;
+  return {
+    x: dot(SRGB_MATRIX[0]),
+    y: dot(SRGB_MATRIX[1]),
+    z: dot(SRGB_MATRIX[2]),
+  };
+};
+
+/**
+ * XYZ relative to D65 to linear-light sRGB. Channels are 0-1 inside the sRGB
+ * gamut and unclamped outside it.
+ */
+export const xyzToLinearRgb = ({ x, y, z }: XYZ): RGB => ({
+  r: 3.2409699419045226 * x - 1.537383177570094 * y - 0.4986107602930034 * z,
+  g: -0.9692436362808796 * x + 1.8759675015077202 * y + 0.04155505740717559 * z,
+  b: 0.05563007969699366 * x - 0.20397695888897652 * y + 1.0569715142428786 * z,
+});
+
+/**
+ * The sRGB transfer function, extended to negative values by symmetry as CSS
+ * Color 4 does. `display-p3` shares it.
+ */
+const srgbToLinear = (c: number): number => {
+  const abs = Math.abs(c);
+  return abs <= 0.04045
+    ? c / 12.92
+    : Math.sign(c) * ((abs + 0.055) / 1.055) ** 2.4;
+};
+
+/** The Adobe RGB (1998) transfer function: a pure 563/256 power. */
+const a98ToLinear = (c: number): number =>
+  Math.sign(c) * Math.abs(c) ** (563 / 256);
+
+/** The ProPhoto RGB transfer function: 1.8 power with a linear toe. */
+const prophotoToLinear = (c: number): number => {
+  const abs = Math.abs(c);
+  return abs <= 16 / 512 ? c / 16 : Math.sign(c) * abs ** 1.8;
+};
+
+/** The ITU-R BT.2020 transfer function, inverted. */
+const rec2020ToLinear = (c: number): number => {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(c);
+  return abs < beta * 4.5
+    ? c / 4.5
+    : Math.sign(c) * ((abs + alpha - 1) / alpha) ** (1 / 0.45);
+};
+
+type Row = readonly [number, number, number];
+type Matrix = readonly [Row, Row, Row];
+
+/** A `color()` space: how to linearize a channel, and linear RGB to XYZ. */
+interface ColorSpace {
+  toLinear: (c: number) => number;
+  /** Linear RGB to XYZ, relative to `white`. */
+  matrix: Matrix;
+  white: 'D50' | 'D65';
+}
+
+const identity = (c: number): number => c;
+
+const SRGB_MATRIX: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+
+const XYZ_MATRIX: Matrix = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+/** The predefined spaces of CSS Color 4 `color()`, keyed by lower-case name. */
+const COLOR_SPACES: Record<string, ColorSpace> = {
+  srgb: { toLinear: srgbToLinear, matrix: SRGB_MATRIX, white: 'D65' },
+  'srgb-linear': { toLinear: identity, matrix: SRGB_MATRIX, white: 'D65' },
+  'display-p3': {
+    toLinear: srgbToLinear,
+    matrix: [
+      [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+      [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+      [0, 0.04511338185890264, 1.043944368900976],
+    ],
+    white: 'D65',
+  },
+  'a98-rgb': {
+    toLinear: a98ToLinear,
+    matrix: [
+      [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+      [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+      [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+    ],
+    white: 'D65',
+  },
+  'prophoto-rgb': {
+    toLinear: prophotoToLinear,
+    matrix: [
+      [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+      [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+      [0, 0, 0.8251046025104602],
+    ],
+    white: 'D50',
+  },
+  rec2020: {
+    toLinear: rec2020ToLinear,
+    matrix: [
+      [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+      [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+      [0, 0.028072693049087428, 1.060985057710791],
+    ],
+    white: 'D65',
+  },
+  xyz: { toLinear: identity, matrix: XYZ_MATRIX, white: 'D65' },
+  'xyz-d65': { toLinear: identity, matrix: XYZ_MATRIX, white: 'D65' },
+  'xyz-d50': { toLinear: identity, matrix: XYZ_MATRIX, white: 'D50' },
+};
+
+/**
+ * The channels of a `color()` value to XYZ relative to D65.
+ *
+ * @param space - a predefined color space name, lower-case
+ * @param channels - the three channels as authored, nominally 0-1
+ * @returns XYZ D65, or `null` for an unknown space
+ */
+export const colorSpaceToXyz = (
+  space: string,
+  [c1, c2, c3]: readonly [number, number, number]
+): XYZ | null => {
+  // `hasOwn` so that `constructor` and friends are not mistaken for spaces.
+  if (!Object.hasOwn(COLOR_SPACES, space)) return null;
+  const { toLinear, matrix: m, white } = COLOR_SPACES[space] as ColorSpace;
+
+  const r = toLinear(c1);
+  const g = toLinear(c2);
+  const b = toLinear(c3);
+  const dot = ([mr, mg, mb]: Row) => mr * r + mg * g + mb * b;
+  const xyz = { x: dot(m[0]), y: dot(m[1]), z: dot(m[2]) };
+  return white === 'D50' ? d50ToD65(xyz) : xyz;
+};
@@ -10,12 +10,23 @@ const banner = `/**
 
 const production = !!process.env.PRODUCTION;
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm'],
-  dts: true,
-  sourcemap: production,
-  minify: production,
-  clean: true,
-  banner: { js: banner },
-});
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: production,
+    minify: production,
+    // Both builds share dist/ and run concurrently; spare the CLI's output.
+    clean: ['!cli.js'],
+    banner: { js: banner },
+  },
+  {
+    // The `accessible-colors` command. It bundles the library rather than
+    // requiring ./index.js, so it is a single self-contained file.
+    entry: { cli: 'src/bin.ts' },
+    format: ['cjs'],
+    minify: production,
+    banner: { js: `#!/usr/bin/env node\n${banner}` },
+  },
+]);